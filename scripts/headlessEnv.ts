@@ -0,0 +1,52 @@
+/**
+ * Minimal browser environment so Phaser can boot in Node (HEADLESS renderer)
+ * Must be imported before Phaser.
+ */
+import { JSDOM } from 'jsdom';
+
+const dom = new JSDOM('<!DOCTYPE html><html><body></body></html>', {
+  pretendToBeVisual: true,
+  url: 'http://localhost/',
+});
+
+const globals = globalThis as Record<string, unknown>;
+globals.window = dom.window;
+globals.document = dom.window.document;
+for (const key of ['navigator', 'Image', 'HTMLCanvasElement', 'HTMLVideoElement', 'Element', 'XMLHttpRequest', 'screen', 'localStorage']) {
+  if (!(key in globals)) {
+    globals[key] = (dom.window as unknown as Record<string, unknown>)[key];
+  }
+}
+
+// jsdom has no canvas - give Phaser a 2D context that accepts and ignores draw calls
+const context2d = new Proxy({} as Record<string | symbol, unknown>, {
+  get(target, prop) {
+    if (prop in target) return target[prop];
+    if (prop === 'getImageData' || prop === 'createImageData') {
+      return (_x: number, _y: number, w = 1, h = 1) => ({ data: new Uint8ClampedArray(Math.max(4, w * h * 4)) });
+    }
+    if (prop === 'measureText') return () => ({ width: 0 });
+    return () => undefined;
+  },
+  set(target, prop, value) {
+    target[prop] = value;
+    return true;
+  },
+});
+dom.window.HTMLCanvasElement.prototype.getContext = (() => context2d) as never;
+dom.window.HTMLCanvasElement.prototype.toDataURL = () => '';
+dom.window.focus = () => undefined;
+
+// Images never load in jsdom - report success so Phaser's default textures finish booting
+Object.defineProperty(dom.window.HTMLImageElement.prototype, 'src', {
+  get(this: { _src?: string }) {
+    return this._src ?? '';
+  },
+  set(this: { _src?: string; onload?: () => void }, value: string) {
+    this._src = value;
+    setTimeout(() => this.onload?.());
+  },
+});
+
+globals.requestAnimationFrame = (callback: (time: number) => void) => setTimeout(() => callback(Date.now()), 16);
+globals.cancelAnimationFrame = (id: ReturnType<typeof setTimeout>) => clearTimeout(id);
@@ -0,0 +1,200 @@
+/**
+ * Headless balance simulation
+ *
+ * Runs many bot-driven runs with a fixed timestep and prints JSON metrics.
+ *
+ *   npm run simulate -- --runs 200 --duration 300000 --seed BALANCE --out sim.json
+ *
+ * With --replay-check every run is also replayed from its recording with uneven
+ * frame times and longer level-up pauses; the exit code is 1 if any replay ends
+ * differently from the run it was recorded from.
+ */
+import './headlessEnv';
+import { writeFileSync } from 'fs';
+import Phaser from 'phaser';
+import { SimulationScene, SIMULATION_SCENE_KEY, SimulationRunOptions } from '../src/sim/SimulationScene';
+import { RunMetrics, summarizeRuns } from '../src/sim/SimulationMetrics';
+import { GAME_DURATION } from '../src/config/Constants';
+import { ReplayData } from '../src/systems/ReplayManager';
+import { RandomManager } from '../src/systems/RandomManager';
+
+// Replay check: frames between these lengths (ms), and this long on each level-up
+const REPLAY_MIN_FRAME_MS = 4;
+const REPLAY_MAX_FRAME_MS = 50;
+const REPLAY_LEVEL_UP_DELAY_MS = 700;
+
+interface CliOptions {
+  runs: number;
+  durationMs: number;
+  stepMs: number; // Frame length; gameplay itself always steps at FIXED_TIMESTEP
+  seed?: string;
+  out?: string;
+  replayCheck: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { runs: 10, durationMs: GAME_DURATION, stepMs: 1000 / 60, replayCheck: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--runs': options.runs = parseInt(value, 10); i++; break;
+      case '--duration': options.durationMs = parseInt(value, 10); i++; break;
+      case '--step': options.stepMs = parseFloat(value); i++; break;
+      case '--seed': options.seed = value; i++; break;
+      case '--out': options.out = value; i++; break;
+      case '--replay-check': options.replayCheck = true; break;
+    }
+  }
+
+  return options;
+}
+
+// Tweens measure elapsed time with Date.now() - tie it to the simulated clock
+// once booted so runs with the same seed play out identically
+let clockMs = 0;
+
+function bootGame(): Promise<Phaser.Game> {
+  return new Promise((resolve) => {
+    const game = new Phaser.Game({
+      type: Phaser.HEADLESS,
+      width: 1280,
+      height: 720,
+      banner: false,
+      audio: { noAudio: true },
+      physics: {
+        default: 'arcade',
+        arcade: { gravity: { x: 0, y: 0 } },
+      },
+      scene: [SimulationScene],
+    });
+
+    game.events.once(Phaser.Core.Events.READY, () => {
+      // Stop the real-time loop - runs are stepped manually
+      game.loop.sleep();
+      clockMs = Date.now();
+      Date.now = () => clockMs;
+      resolve(game);
+    });
+  });
+}
+
+interface RunResult {
+  metrics: RunMetrics;
+  replay: ReplayData;
+}
+
+/**
+ * Step one run to completion, one frame of nextFrameMs() at a time
+ */
+function runOnce(
+  game: Phaser.Game,
+  runOptions: Omit<SimulationRunOptions, 'onComplete'>,
+  nextFrameMs: () => number,
+  maxFrames: number
+): RunResult {
+  let result: RunResult | null = null;
+  game.scene.start(SIMULATION_SCENE_KEY, {
+    ...runOptions,
+    onComplete: (metrics: RunMetrics, replay: ReplayData) => {
+      result = { metrics, replay };
+    },
+  });
+
+  let time = 0;
+  let frameMs = 0;
+  for (let frame = 0; frame < maxFrames && !result; frame++) {
+    frameMs = nextFrameMs();
+    time += frameMs;
+    clockMs += frameMs;
+    game.headlessStep(time, frameMs);
+  }
+
+  game.scene.stop(SIMULATION_SCENE_KEY);
+  game.headlessStep(time + frameMs, frameMs);
+
+  if (!result) {
+    throw new Error(`Run did not finish within ${maxFrames} frames`);
+  }
+  return result;
+}
+
+/**
+ * Play a recorded run back with uneven frames and long level-up pauses
+ * @returns Whether it ended exactly like the recorded run
+ */
+function checkReplay(game: Phaser.Game, options: CliOptions, recorded: RunResult): boolean {
+  const frames = new Phaser.Math.RandomDataGenerator([recorded.replay.seed]);
+  const levelUps = recorded.metrics.levelCurve.length;
+  const maxFrames = Math.ceil(options.durationMs / REPLAY_MIN_FRAME_MS)
+    + Math.ceil((levelUps * REPLAY_LEVEL_UP_DELAY_MS) / REPLAY_MIN_FRAME_MS) + 600;
+
+  const replayed = runOnce(
+    game,
+    { durationMs: options.durationMs, replay: recorded.replay, levelUpDelayMs: REPLAY_LEVEL_UP_DELAY_MS },
+    () => frames.realInRange(REPLAY_MIN_FRAME_MS, REPLAY_MAX_FRAME_MS),
+    maxFrames
+  );
+
+  return JSON.stringify(replayed.metrics) === JSON.stringify(recorded.metrics);
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const game = await bootGame();
+
+  const runs: RunMetrics[] = [];
+  const seeds = new Set<string>();
+  let replayMismatches = 0;
+  for (let i = 0; i < options.runs; i++) {
+    const recorded = runOnce(
+      game,
+      // Derive per-run seeds from the base seed so a batch is reproducible
+      { seed: options.seed ? RandomManager.deriveSeed(options.seed, i) : undefined, durationMs: options.durationMs },
+      () => options.stepMs,
+      Math.ceil(options.durationMs / options.stepMs) + 600
+    );
+    const metrics = recorded.metrics;
+    runs.push(metrics);
+    // The seed the run actually used, flagged if an earlier run already played it
+    const duplicate = seeds.has(metrics.seed);
+    seeds.add(metrics.seed);
+    process.stderr.write(
+      `run ${i + 1}/${options.runs} seed=${metrics.seed}${duplicate ? ' (DUPLICATE)' : ''} ` +
+      `${metrics.survived ? 'survived' : `died at ${Math.round((metrics.deathTimeMs ?? 0) / 1000)}s`} ` +
+      `level=${metrics.finalLevel} kills=${metrics.totalKills}\n`
+    );
+
+    if (options.replayCheck) {
+      const matched = checkReplay(game, options, recorded);
+      if (!matched) replayMismatches++;
+      process.stderr.write(`  replay ${matched ? 'matched' : 'DIVERGED'}\n`);
+    }
+  }
+
+  const report = {
+    options: { runs: options.runs, durationMs: options.durationMs, stepMs: options.stepMs, seed: options.seed ?? null },
+    summary: summarizeRuns(runs),
+    runs,
+  };
+
+  const json = JSON.stringify(report, null, 2);
+  if (options.out) {
+    writeFileSync(options.out, json);
+    process.stderr.write(`wrote ${options.out}\n`);
+  } else {
+    process.stdout.write(json + '\n');
+  }
+
+  game.destroy(true, true);
+  if (replayMismatches > 0) {
+    process.stderr.write(`${replayMismatches} replay(s) diverged from their recording\n`);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
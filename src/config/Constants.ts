@@ -41,6 +41,13 @@ export const BASE_XP_TO_LEVEL = 10;
 export const XP_SCALING_FACTOR = 1.35; // Smoother progression (was 1.5)
 export const XP_GEM_VALUE = 1;
 
+// Level-up Build Limits
+export const MAX_WEAPON_SLOTS = 6; // Including the starting wand
+export const MAX_PASSIVE_SLOTS = 3;
+export const BASE_REROLLS = 1; // Per run, before permanent upgrades
+export const BASE_SKIPS = 0;
+export const BASE_BANISHES = 0;
+
 // Game Timer
 export const GAME_DURATION = 5 * 60 * 1000; // 5 minutes in ms
 
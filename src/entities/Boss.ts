@@ -0,0 +1,392 @@
+import Phaser from 'phaser';
+import { Enemy, EnemyConfig } from './Enemy';
+import { Player } from './Player';
+import { rng, RandomStream } from '../systems/RandomManager';
+import { GameEventBus } from '../systems/GameEventBus';
+import { BULLET_PATTERNS, getPatternDuration, getVolleyAngles } from '../systems/BulletPatterns';
+import { TelegraphShape, TelegraphShapeType } from '../systems/TelegraphManager';
+
+/**
+ * Telegraphed attacks a boss can use
+ */
+export enum BossAttackType {
+  BULLETS = 'bullets', // Fire a bullet pattern (bursts, rings, spirals, ...)
+  CHARGE = 'charge',   // Dash along a locked line
+  SUMMON = 'summon',   // Call in regular enemies
+}
+
+/**
+ * One attack in a phase's rotation
+ */
+export interface BossAttack {
+  type: BossAttackType;
+  telegraph: number;   // ms of warning before it starts
+  pattern?: string;    // BULLET_PATTERNS key (bullets)
+  count?: number;      // Enemies summoned
+  duration?: number;   // ms the charge lasts
+  speed?: number;      // Charge speed
+  enemyType?: string;  // ENEMY_TYPES key (summons)
+}
+
+/**
+ * A boss phase, entered once HP drops to its threshold
+ */
+export interface BossPhase {
+  threshold: number;       // HP fraction the phase starts at (the first phase uses 1)
+  speedMultiplier: number; // Movement speed while chasing
+  attackInterval: number;  // ms of chasing between attacks
+  attacks: BossAttack[];   // Used in order, looping
+}
+
+/**
+ * Phases for each BOSS_TYPES entry
+ */
+export const BOSS_PHASES: Record<string, BossPhase[]> = {
+  boss_slime: [
+    {
+      threshold: 1,
+      speedMultiplier: 1,
+      attackInterval: 3500,
+      attacks: [
+        { type: BossAttackType.BULLETS, telegraph: 900, pattern: 'slime_ring' },
+        { type: BossAttackType.SUMMON, telegraph: 1000, count: 3, enemyType: 'slime' },
+      ],
+    },
+    {
+      threshold: 0.5,
+      speedMultiplier: 1.4,
+      attackInterval: 2500,
+      attacks: [
+        { type: BossAttackType.CHARGE, telegraph: 800, duration: 700, speed: 380 },
+        { type: BossAttackType.BULLETS, telegraph: 700, pattern: 'slime_ring_heavy' },
+        { type: BossAttackType.SUMMON, telegraph: 900, count: 4, enemyType: 'slime' },
+      ],
+    },
+  ],
+  boss_skeleton: [
+    {
+      threshold: 1,
+      speedMultiplier: 1,
+      attackInterval: 3000,
+      attacks: [
+        { type: BossAttackType.CHARGE, telegraph: 900, duration: 800, speed: 420 },
+        { type: BossAttackType.SUMMON, telegraph: 1000, count: 4, enemyType: 'skeleton' },
+      ],
+    },
+    {
+      threshold: 0.6,
+      speedMultiplier: 1.2,
+      attackInterval: 2500,
+      attacks: [
+        { type: BossAttackType.CHARGE, telegraph: 700, duration: 800, speed: 460 },
+        { type: BossAttackType.BULLETS, telegraph: 800, pattern: 'skeleton_fan' },
+        { type: BossAttackType.CHARGE, telegraph: 600, duration: 800, speed: 460 },
+      ],
+    },
+    {
+      threshold: 0.25,
+      speedMultiplier: 1.5,
+      attackInterval: 1800,
+      attacks: [
+        { type: BossAttackType.CHARGE, telegraph: 500, duration: 900, speed: 520 },
+        { type: BossAttackType.BULLETS, telegraph: 500, pattern: 'skeleton_burst' },
+        { type: BossAttackType.SUMMON, telegraph: 700, count: 5, enemyType: 'skeleton' },
+      ],
+    },
+  ],
+  boss_eye: [
+    {
+      threshold: 1,
+      speedMultiplier: 1,
+      attackInterval: 3000,
+      attacks: [
+        { type: BossAttackType.BULLETS, telegraph: 900, pattern: 'eye_spiral' },
+        { type: BossAttackType.BULLETS, telegraph: 800, pattern: 'eye_ring' },
+      ],
+    },
+    {
+      threshold: 0.6,
+      speedMultiplier: 1.2,
+      attackInterval: 2500,
+      attacks: [
+        { type: BossAttackType.BULLETS, telegraph: 800, pattern: 'eye_wave' },
+        { type: BossAttackType.SUMMON, telegraph: 900, count: 4, enemyType: 'bat' },
+      ],
+    },
+    {
+      threshold: 0.3,
+      speedMultiplier: 1.3,
+      attackInterval: 2000,
+      attacks: [
+        { type: BossAttackType.BULLETS, telegraph: 600, pattern: 'eye_spiral_dense' },
+        { type: BossAttackType.BULLETS, telegraph: 600, pattern: 'eye_ring_accelerating' },
+      ],
+    },
+  ],
+};
+
+enum BossState {
+  CHASING = 'chasing',
+  TELEGRAPHING = 'telegraphing',
+  ATTACKING = 'attacking',
+  RECOVERING = 'recovering',
+}
+
+const ATTACK_RANGE = 450; // Attacks only start with the player this close
+const RECOVERY_TIME = 600; // ms standing still after an attack
+const SUMMON_DISTANCE = 70;
+const BULLET_DAMAGE_SCALE = 0.5; // Bullets hit softer than the boss's body
+const PHASE_INVINCIBILITY = 1000;
+
+/**
+ * Boss - An enemy with HP-threshold phases and telegraphed attacks
+ *
+ * Chases with its regular behavior between attacks, then stops, shows what is
+ * coming (rings, charge lines, summon circles) and carries the attack out.
+ */
+export class Boss extends Enemy {
+  private player: Player;
+  private phases: BossPhase[];
+  private phaseIndex: number = 0;
+  private baseSpeed: number;
+
+  private bossState: BossState = BossState.CHASING;
+  private stateTimer: number = 0;
+  private attackTimer: number;
+  private attackIndex: number = 0;
+  private attack: BossAttack | null = null;
+
+  // Per-attack state
+  private attackAngle: number = 0;
+  private summonPoints: { x: number; y: number }[] = [];
+
+  // Callbacks
+  private onSummonCallback?: (x: number, y: number, enemyType: string) => void;
+
+  constructor(scene: Phaser.Scene, x: number, y: number, target: Player, config: EnemyConfig, phases: BossPhase[]) {
+    super(scene, x, y, target, config);
+
+    this.player = target;
+    this.phases = phases;
+    this.baseSpeed = config.speed;
+    this.attackTimer = phases[0]?.attackInterval ?? 0;
+  }
+
+  public update(time: number, delta: number): void {
+    if (!this.isAlive || !this.player.alive || this.phases.length === 0) {
+      super.update(time, delta);
+      return;
+    }
+
+    this.checkPhase();
+
+    // Wandering (player in the safe zone) calls off any attack
+    if (this.getIsWandering() && this.bossState !== BossState.CHASING) {
+      this.endAttack();
+    }
+
+    if (this.bossState === BossState.CHASING) {
+      super.update(time, delta);
+      if (this.isAlive && !this.getIsWandering() && !this.statusEffects.isIncapacitated()) {
+        this.updateAttackTimer(delta);
+      }
+      return;
+    }
+
+    // Mid-attack: status effects still tick and stuns pause the attack
+    this.statusEffects.update(delta);
+    if (!this.isAlive) return;
+    if (this.statusEffects.isIncapacitated()) {
+      this.setVelocity(0, 0);
+      return;
+    }
+
+    this.stateTimer -= delta;
+    switch (this.bossState) {
+      case BossState.TELEGRAPHING:
+        // The attack starts when the telegraph resolves
+        this.setVelocity(0, 0);
+        break;
+      case BossState.ATTACKING:
+        this.updateAttack();
+        break;
+      case BossState.RECOVERING:
+        this.setVelocity(0, 0);
+        if (this.stateTimer <= 0) {
+          this.bossState = BossState.CHASING;
+          this.attackTimer = this.getPhase().attackInterval;
+        }
+        break;
+    }
+  }
+
+  /**
+   * Enter the next phase once HP drops to its threshold
+   */
+  private checkPhase(): void {
+    const next = this.phases[this.phaseIndex + 1];
+    if (!next || this.hpPercent > next.threshold) return;
+
+    this.phaseIndex++;
+    this.endAttack();
+    this.moveSpeed = this.baseSpeed * next.speedMultiplier;
+    this.attackIndex = 0;
+    this.attackTimer = RECOVERY_TIME;
+
+    // Brief invulnerability so the transition reads as an event
+    this.setInvincible(PHASE_INVINCIBILITY);
+    this.setTint(0xffffff);
+    this.scene.time.delayedCall(150, () => this.refreshTint());
+
+    GameEventBus.getInstance().emit('boss:phaseChanged', {
+      boss: this,
+      phase: this.phaseIndex + 1,
+      phases: this.phases.length,
+    });
+  }
+
+  private updateAttackTimer(delta: number): void {
+    this.attackTimer -= delta;
+    if (this.attackTimer > 0) return;
+
+    const distance = Phaser.Math.Distance.Between(this.x, this.y, this.player.x, this.player.y);
+    if (distance > ATTACK_RANGE) return;
+
+    const attacks = this.getPhase().attacks;
+    this.attack = attacks[this.attackIndex % attacks.length];
+    this.attackIndex++;
+    this.startTelegraph(this.attack);
+  }
+
+  /**
+   * Stop and show where the attack will land
+   */
+  private startTelegraph(attack: BossAttack): void {
+    this.bossState = BossState.TELEGRAPHING;
+    this.setVelocity(0, 0);
+
+    this.attackAngle = Phaser.Math.Angle.Between(this.x, this.y, this.player.x, this.player.y);
+    const shapes: TelegraphShape[] = [];
+
+    switch (attack.type) {
+      case BossAttackType.BULLETS: {
+        // Spokes along the first volley's directions
+        const pattern = BULLET_PATTERNS[attack.pattern ?? ''];
+        const angles = pattern ? getVolleyAngles(pattern, this.attackAngle, 0) : [];
+        shapes.push({ type: TelegraphShapeType.SPOKES, x: this.x, y: this.y, radius: 40, length: 90, angles });
+        break;
+      }
+      case BossAttackType.CHARGE: {
+        // The lane the boss will dash down
+        const length = (attack.speed ?? 0) * ((attack.duration ?? 0) / 1000);
+        shapes.push({ type: TelegraphShapeType.LINE, x: this.x, y: this.y, angle: this.attackAngle, length, width: 40 });
+        break;
+      }
+      case BossAttackType.SUMMON: {
+        // Circles where the adds will appear
+        const random = rng(RandomStream.SPAWNS);
+        this.summonPoints = [];
+        for (let i = 0; i < (attack.count ?? 0); i++) {
+          const angle = random.angle();
+          const point = {
+            x: this.x + Math.cos(angle) * SUMMON_DISTANCE,
+            y: this.y + Math.sin(angle) * SUMMON_DISTANCE,
+          };
+          this.summonPoints.push(point);
+          shapes.push({ type: TelegraphShapeType.ZONE, ...point, radius: 18 });
+        }
+        break;
+      }
+    }
+
+    this.requestTelegraph({ shapes, duration: attack.telegraph, onResolve: () => this.startAttack() });
+  }
+
+  private startAttack(): void {
+    const attack = this.attack;
+    if (!attack) {
+      this.endAttack();
+      return;
+    }
+
+    this.bossState = BossState.ATTACKING;
+    this.stateTimer = attack.duration ?? 0;
+
+    switch (attack.type) {
+      case BossAttackType.BULLETS: {
+        // Stands still until the last volley is out
+        const pattern = BULLET_PATTERNS[attack.pattern ?? ''];
+        const damage = Math.max(1, Math.floor(this.getDamage() * BULLET_DAMAGE_SCALE));
+        this.firePattern(pattern, damage, this.attackAngle);
+        this.stateTimer = pattern ? getPatternDuration(pattern) : 0;
+        break;
+      }
+      case BossAttackType.CHARGE:
+        this.setVelocity(
+          Math.cos(this.attackAngle) * (attack.speed ?? 0),
+          Math.sin(this.attackAngle) * (attack.speed ?? 0)
+        );
+        this.setFlipX(Math.cos(this.attackAngle) < 0);
+        break;
+      case BossAttackType.SUMMON:
+        this.summonPoints.forEach((point) => this.onSummonCallback?.(point.x, point.y, attack.enemyType ?? 'goblin'));
+        this.summonPoints = [];
+        break;
+    }
+  }
+
+  private updateAttack(): void {
+    if (this.attack?.type === BossAttackType.BULLETS) {
+      this.setVelocity(0, 0);
+    }
+
+    if (this.stateTimer <= 0) {
+      this.bossState = BossState.RECOVERING;
+      this.stateTimer = RECOVERY_TIME;
+      this.setVelocity(0, 0);
+    }
+  }
+
+  /**
+   * Drop whatever attack is in progress and go back to chasing
+   */
+  private endAttack(): void {
+    this.cancelTelegraph();
+    this.attack = null;
+    this.summonPoints = [];
+    this.bossState = BossState.CHASING;
+    this.setVelocity(0, 0);
+  }
+
+  protected onDeath(): void {
+    this.endAttack();
+    super.onDeath();
+  }
+
+  private getPhase(): BossPhase {
+    return this.phases[this.phaseIndex];
+  }
+
+  /**
+   * Current phase, counting from 1
+   */
+  public getPhaseNumber(): number {
+    return this.phaseIndex + 1;
+  }
+
+  /**
+   * HP fractions where later phases begin (for the HP bar markers)
+   */
+  public getPhaseThresholds(): number[] {
+    return this.phases.slice(1).map((phase) => phase.threshold);
+  }
+
+  public getPhaseCount(): number {
+    return this.phases.length;
+  }
+
+  // Setters
+  public setOnSummon(callback: (x: number, y: number, enemyType: string) => void): void {
+    this.onSummonCallback = callback;
+  }
+}
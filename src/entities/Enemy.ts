@@ -2,6 +2,20 @@ import Phaser from 'phaser';
 import { Entity } from './Entity';
 import { DEPTH } from '../config/Constants';
 import { Player } from './Player';
+import { rng, RandomStream } from '../systems/RandomManager';
+import { DamageType } from '../systems/DamagePipeline';
+import { BULLET_PATTERNS, BulletFireCallback, BulletPattern } from '../systems/BulletPatterns';
+import { Telegraph, TelegraphManager, TelegraphRequest, TelegraphShapeType } from '../systems/TelegraphManager';
+import type { EnemyFlocking } from '../systems/EnemyFlocking';
+import type { FlowField } from '../systems/FlowField';
+
+const RUSH_RANGE = 250;       // Rushers wind up a charge once this close
+const RUSH_WINDUP = 500;      // ms the charge lane shows before the dash
+const RUSH_DURATION = 1000;   // ms the dash lasts
+const RUSH_REST = 1500;       // ms resting after a dash
+const BOMBER_RADIUS = 80;
+const BOMBER_FUSE = 600;      // ms the blast radius shows before it goes off
+const TELEPORT_WARNING = 600; // ms the landing spot shows before the blink
 
 /**
  * Enemy behavior types
@@ -26,6 +40,9 @@ export interface EnemyConfig {
   damage: number;
   behavior: EnemyBehavior;
   xpValue: number;
+  bulletPattern?: string; // BULLET_PATTERNS key fired by shooters (and teleporters on arrival)
+  armor?: number; // Flat damage removed from each hit
+  resistances?: Partial<Record<DamageType, number>>; // Fraction of each damage type ignored (negative = weakness)
 }
 
 /**
@@ -47,6 +64,8 @@ export const ENEMY_TYPES: Record<string, EnemyConfig> = {
     damage: 15,
     behavior: EnemyBehavior.CHASER,
     xpValue: 2,
+    armor: 3,
+    resistances: { [DamageType.POISON]: 0.5 },
   },
   eye: {
     type: 'eye',
@@ -55,6 +74,8 @@ export const ENEMY_TYPES: Record<string, EnemyConfig> = {
     damage: 20,
     behavior: EnemyBehavior.SHOOTER,
     xpValue: 3,
+    bulletPattern: 'aimed',
+    resistances: { [DamageType.MAGIC]: 0.25 },
   },
   mushroom: {
     type: 'mushroom',
@@ -63,6 +84,7 @@ export const ENEMY_TYPES: Record<string, EnemyConfig> = {
     damage: 10,
     behavior: EnemyBehavior.CHASER,
     xpValue: 2,
+    resistances: { [DamageType.POISON]: 0.75, [DamageType.FIRE]: -0.25 },
   },
   slime: {
     type: 'slime',
@@ -71,6 +93,7 @@ export const ENEMY_TYPES: Record<string, EnemyConfig> = {
     damage: 20,
     behavior: EnemyBehavior.TANK,
     xpValue: 5,
+    resistances: { [DamageType.PHYSICAL]: 0.25, [DamageType.FIRE]: -0.25 },
   },
   bat: {
     type: 'bat',
@@ -96,6 +119,8 @@ export const ENEMY_TYPES: Record<string, EnemyConfig> = {
     damage: 30,
     behavior: EnemyBehavior.BOMBER,
     xpValue: 5,
+    armor: 4,
+    resistances: { [DamageType.POISON]: 0.5 },
   },
   elite_mushroom: {
     type: 'mushroom',
@@ -104,6 +129,8 @@ export const ENEMY_TYPES: Record<string, EnemyConfig> = {
     damage: 15,
     behavior: EnemyBehavior.TELEPORTER,
     xpValue: 4,
+    bulletPattern: 'teleport_ring',
+    resistances: { [DamageType.POISON]: 0.75, [DamageType.FIRE]: -0.25 },
   },
 };
 
@@ -119,6 +146,7 @@ export const BOSS_TYPES: Record<string, EnemyConfig & { isBoss: boolean }> = {
     behavior: EnemyBehavior.TANK,
     xpValue: 50,
     isBoss: true,
+    resistances: { [DamageType.PHYSICAL]: 0.25, [DamageType.FIRE]: -0.25 },
   },
   boss_skeleton: {
     type: 'skeleton',
@@ -128,6 +156,8 @@ export const BOSS_TYPES: Record<string, EnemyConfig & { isBoss: boolean }> = {
     behavior: EnemyBehavior.CHASER,
     xpValue: 40,
     isBoss: true,
+    armor: 6,
+    resistances: { [DamageType.POISON]: 0.5 },
   },
   boss_eye: {
     type: 'eye',
@@ -137,6 +167,7 @@ export const BOSS_TYPES: Record<string, EnemyConfig & { isBoss: boolean }> = {
     behavior: EnemyBehavior.SHOOTER,
     xpValue: 45,
     isBoss: true,
+    resistances: { [DamageType.MAGIC]: 0.25 },
   },
 };
 
@@ -155,6 +186,7 @@ export class Enemy extends Entity {
   private isResting: boolean = false;
   private restTimer: number = 0;
   private chargeTimer: number = 0;
+  private chargeAngle: number = 0;
   private facingRight: boolean = true;
   
   // New behavior state
@@ -165,7 +197,7 @@ export class Enemy extends Entity {
   // Shooter behavior
   private shootCooldown: number = 0;
   private shootInterval: number = 1500; // 1.5 seconds between shots
-  private onShootCallback?: (x: number, y: number, damage: number) => void;
+  private onShootCallback?: BulletFireCallback;
   
   // Wandering behavior (for space station safe zone)
   private isWandering: boolean = false;
@@ -174,8 +206,17 @@ export class Enemy extends Entity {
   private wanderTimer: number = 0;
   private wanderChangeInterval: number = 2000; // Change direction every 2 seconds
   
+  // Steering around neighbours and along paths around walls
+  private flocking?: EnemyFlocking;
+  private flowField?: FlowField;
+
+  // Telegraphed attacks
+  private telegraphs?: TelegraphManager;
+  private pendingTelegraph: Telegraph | null = null;
+
   // Callbacks
   private onDeathCallback?: (enemy: Enemy) => void;
+  private onExplodeCallback?: (x: number, y: number, radius: number, damage: number) => void;
 
   constructor(
     scene: Phaser.Scene,
@@ -191,6 +232,8 @@ export class Enemy extends Entity {
     this.damage = config.damage;
     this.xpValue = config.xpValue;
     this.behavior = config.behavior;
+    this.armor = config.armor ?? 0;
+    this.resistances = config.resistances ?? {};
 
     // Set depth
     this.setDepth(DEPTH.ENEMIES);
@@ -202,7 +245,7 @@ export class Enemy extends Entity {
       body.setSize(40, 40);
       body.setOffset(4, 8);
       this.setScale(2.5); // Bosses are bigger
-      this.setTint(0xff4400); // Orange tint for bosses
+      this.baseTint = 0xff4400; // Orange tint for bosses
     } else {
       body.setSize(24, 24);
       body.setOffset(12, 20);
@@ -215,13 +258,16 @@ export class Enemy extends Entity {
       this.isElite = true;
       // Elite tint (purple-ish)
       if (!this.isBoss) {
-        this.setTint(0xff44ff);
+        this.baseTint = 0xff44ff;
         this.setScale(1.2);
       }
     }
+    this.refreshTint();
     
     // Play idle animation
     this.play(`${config.type}_run_sd`);
+
+    this.once(Phaser.GameObjects.Events.DESTROY, () => this.cancelTelegraph());
   }
 
   public update(_time: number, delta: number): void {
@@ -230,6 +276,16 @@ export class Enemy extends Entity {
       return;
     }
 
+    // Burn / poison ticks can kill
+    this.statusEffects.update(delta);
+    if (!this.isAlive) return;
+
+    // Frozen or stunned: no movement, attacks or behavior timers
+    if (this.statusEffects.isIncapacitated()) {
+      this.setVelocity(0, 0);
+      return;
+    }
+
     // If wandering (player in safe zone), use wandering behavior instead
     if (this.isWandering) {
       this.executeWanderingBehavior(delta);
@@ -266,9 +322,16 @@ export class Enemy extends Entity {
     this.updateAnimation();
   }
 
+  /**
+   * Movement speed after slows
+   */
+  private get currentSpeed(): number {
+    return this.moveSpeed * this.statusEffects.getSpeedMultiplier();
+  }
+
   private executeChaserBehavior(): void {
     // Move directly toward player
-    this.moveTowardTarget(this.moveSpeed);
+    this.moveTowardTarget(this.currentSpeed);
   }
 
   private executeShooterBehavior(delta: number): void {
@@ -277,75 +340,104 @@ export class Enemy extends Entity {
       this.target.x, this.target.y
     );
 
-    // Stop at range and shoot
-    if (distance < 200) {
+    // Stop at range and shoot (once there's no wall in the way)
+    if (distance < 200 && this.canSeeTarget()) {
       this.setVelocity(0, 0);
       
       // Fire projectile at player
       this.shootCooldown -= delta;
       if (this.shootCooldown <= 0 && this.onShootCallback) {
-        this.onShootCallback(this.x, this.y, this.damage);
+        this.firePattern(BULLET_PATTERNS[this.config.bulletPattern ?? 'aimed']);
         this.shootCooldown = this.shootInterval;
         
         // Flash when shooting
         this.setTint(0xff8800);
         this.scene.time.delayedCall(100, () => {
-          this.clearTint();
+          this.refreshTint();
         });
       }
     } else {
-      this.moveTowardTarget(this.moveSpeed);
+      this.moveTowardTarget(this.currentSpeed);
     }
   }
 
   private executeRusherBehavior(delta: number): void {
+    // Winding up: hold still until the lane telegraph resolves
+    if (this.isTelegraphing()) {
+      this.setVelocity(0, 0);
+      return;
+    }
+
     if (this.isResting) {
       this.restTimer -= delta;
       if (this.restTimer <= 0) {
         this.isResting = false;
-        this.chargeTimer = 1000; // 1 second charge
       }
       this.setVelocity(0, 0);
-    } else {
-      // Charge toward player at high speed
-      this.moveTowardTarget(this.moveSpeed * 2);
-      
+      return;
+    }
+
+    if (this.chargeTimer > 0) {
+      // Dash at high speed down the lane that was shown
+      const speed = this.currentSpeed * 2;
+      const velocityX = Math.cos(this.chargeAngle) * speed;
+      this.setVelocity(velocityX, Math.sin(this.chargeAngle) * speed);
+      this.facingRight = velocityX >= 0;
+
       this.chargeTimer -= delta;
       if (this.chargeTimer <= 0) {
         this.isResting = true;
-        this.restTimer = 1500; // 1.5 second rest
+        this.restTimer = RUSH_REST;
       }
+      return;
     }
+
+    const distance = Phaser.Math.Distance.Between(this.x, this.y, this.target.x, this.target.y);
+    if (distance > RUSH_RANGE || !this.canSeeTarget()) {
+      this.moveTowardTarget(this.currentSpeed);
+      return;
+    }
+
+    // Lock the direction and show the lane before dashing down it
+    this.chargeAngle = Phaser.Math.Angle.Between(this.x, this.y, this.target.x, this.target.y);
+    this.setVelocity(0, 0);
+    this.requestTelegraph({
+      shapes: [{
+        type: TelegraphShapeType.LINE,
+        x: this.x,
+        y: this.y,
+        angle: this.chargeAngle,
+        length: this.moveSpeed * 2 * (RUSH_DURATION / 1000),
+        width: 24,
+      }],
+      duration: RUSH_WINDUP,
+      onResolve: () => {
+        this.chargeTimer = RUSH_DURATION;
+      },
+    });
   }
 
   private executeTankBehavior(): void {
     // Slow but steady movement toward player
-    this.moveTowardTarget(this.moveSpeed);
+    this.moveTowardTarget(this.currentSpeed);
   }
 
   private executeSwarmBehavior(delta: number): void {
     // Fast zigzag movement toward player
     this.swarmAngleOffset += delta * 0.01;
     
-    const baseAngle = Phaser.Math.Angle.Between(
-      this.x, this.y,
-      this.target.x, this.target.y
-    );
+    const baseAngle = this.getPathAngle();
     
     // Add zigzag offset
     const zigzag = Math.sin(this.swarmAngleOffset * 5) * 0.5;
     const finalAngle = baseAngle + zigzag;
     
-    const velocityX = Math.cos(finalAngle) * this.moveSpeed;
-    const velocityY = Math.sin(finalAngle) * this.moveSpeed;
-    
-    this.setVelocity(velocityX, velocityY);
-    this.facingRight = velocityX >= 0;
+    this.moveInDirection(finalAngle, this.currentSpeed);
   }
 
   private executeBomberBehavior(): void {
     // Moves toward player like a chaser - explosion happens on death
-    this.moveTowardTarget(this.moveSpeed);
+    this.moveTowardTarget(this.currentSpeed);
   }
 
   /**
@@ -359,8 +451,8 @@ export class Enemy extends Entity {
     if (this.wanderTimer >= this.wanderChangeInterval || 
         (this.wanderTargetX === 0 && this.wanderTargetY === 0)) {
       // Pick a random direction
-      const angle = Math.random() * Math.PI * 2;
-      const distance = 100 + Math.random() * 100;
+      const angle = rng(RandomStream.SPAWNS).angle();
+      const distance = 100 + rng(RandomStream.SPAWNS).next() * 100;
       
       this.wanderTargetX = this.x + Math.cos(angle) * distance;
       this.wanderTargetY = this.y + Math.sin(angle) * distance;
@@ -373,7 +465,7 @@ export class Enemy extends Entity {
       
       this.wanderTimer = 0;
       // Randomize next change interval
-      this.wanderChangeInterval = 1500 + Math.random() * 2000;
+      this.wanderChangeInterval = 1500 + rng(RandomStream.SPAWNS).next() * 2000;
     }
     
     // Move toward wander target at reduced speed
@@ -389,7 +481,7 @@ export class Enemy extends Entity {
       );
       
       // Wander at 40% of normal speed
-      const wanderSpeed = this.moveSpeed * 0.4;
+      const wanderSpeed = this.currentSpeed * 0.4;
       const velocityX = Math.cos(angle) * wanderSpeed;
       const velocityY = Math.sin(angle) * wanderSpeed;
       
@@ -405,7 +497,7 @@ export class Enemy extends Entity {
     // Move toward player but occasionally teleport closer
     this.teleportCooldown -= delta;
     
-    if (this.teleportCooldown <= 0) {
+    if (this.teleportCooldown <= 0 && !this.isTelegraphing()) {
       const distance = Phaser.Math.Distance.Between(
         this.x, this.y,
         this.target.x, this.target.y
@@ -414,37 +506,48 @@ export class Enemy extends Entity {
       // Only teleport if far enough away
       if (distance > 150) {
         // Teleport to random position near player
-        const angle = Math.random() * Math.PI * 2;
-        const teleportDist = 80 + Math.random() * 60;
+        const angle = rng(RandomStream.SPAWNS).angle();
+        const teleportDist = 80 + rng(RandomStream.SPAWNS).next() * 60;
         
         const newX = this.target.x + Math.cos(angle) * teleportDist;
         const newY = this.target.y + Math.sin(angle) * teleportDist;
         
-        // Teleport effect at old position
-        this.createTeleportEffect(this.x, this.y);
-        
-        // Move to new position
-        this.setPosition(newX, newY);
-        
-        // Teleport effect at new position
-        this.createTeleportEffect(newX, newY);
-        
-        // Flash purple
-        this.setTint(0xff00ff);
-        this.scene.time.delayedCall(200, () => {
-          if (this.isElite && !this.isBoss) {
-            this.setTint(0xff44ff);
-          } else {
-            this.clearTint();
-          }
+        // Mark the landing spot, then blink there
+        this.requestTelegraph({
+          shapes: [{ type: TelegraphShapeType.ZONE, x: newX, y: newY, radius: 20 }],
+          duration: TELEPORT_WARNING,
+          color: 0xff00ff,
+          onResolve: () => this.teleportTo(newX, newY),
         });
       }
       
-      this.teleportCooldown = 2500 + Math.random() * 1500; // 2.5-4 seconds
+      this.teleportCooldown = 2500 + rng(RandomStream.SPAWNS).next() * 1500; // 2.5-4 seconds
     }
     
     // Normal movement between teleports
-    this.moveTowardTarget(this.moveSpeed);
+    this.moveTowardTarget(this.currentSpeed);
+  }
+
+  private teleportTo(x: number, y: number): void {
+    // Teleport effect at old position
+    this.createTeleportEffect(this.x, this.y);
+
+    // Move to new position
+    this.setPosition(x, y);
+
+    // Teleport effect at new position
+    this.createTeleportEffect(x, y);
+
+    // Elites with a pattern shoot as they arrive
+    if (this.config.bulletPattern) {
+      this.firePattern(BULLET_PATTERNS[this.config.bulletPattern]);
+    }
+
+    // Flash purple
+    this.setTint(0xff00ff);
+    this.scene.time.delayedCall(200, () => {
+      this.refreshTint();
+    });
   }
 
   private createTeleportEffect(x: number, y: number): void {
@@ -467,18 +570,48 @@ export class Enemy extends Entity {
   }
 
   private moveTowardTarget(speed: number): void {
-    const angle = Phaser.Math.Angle.Between(
-      this.x, this.y,
-      this.target.x, this.target.y
-    );
+    this.moveInDirection(this.getPathAngle(), speed);
+  }
 
-    const velocityX = Math.cos(angle) * speed;
-    const velocityY = Math.sin(angle) * speed;
+  /**
+   * Heading toward the player: straight at them when in sight, otherwise along the flow field
+   */
+  private getPathAngle(): number {
+    return this.flowField?.getDirection(this.x, this.y)
+      ?? Phaser.Math.Angle.Between(this.x, this.y, this.target.x, this.target.y);
+  }
 
-    this.setVelocity(velocityX, velocityY);
+  /**
+   * Whether no wall stands between this enemy and the player
+   */
+  private canSeeTarget(): boolean {
+    return this.flowField?.hasLineOfSight(this.x, this.y) ?? true;
+  }
 
-    // Track facing direction
-    this.facingRight = velocityX >= 0;
+  /**
+   * Head in a direction, steered by nearby enemies (spreading out, or flocking for swarms)
+   */
+  private moveInDirection(angle: number, speed: number): void {
+    let dirX = Math.cos(angle);
+    let dirY = Math.sin(angle);
+
+    if (this.flocking) {
+      const steering = this.flocking.getSteering(this);
+      dirX += steering.x;
+      dirY += steering.y;
+
+      // Crowding can slow an enemy down but never speeds it up
+      const length = Math.sqrt(dirX * dirX + dirY * dirY);
+      if (length > 1) {
+        dirX /= length;
+        dirY /= length;
+      }
+    }
+
+    this.setVelocity(dirX * speed, dirY * speed);
+
+    // Track facing direction (by intent, so steering jitter doesn't flip the sprite)
+    this.facingRight = Math.cos(angle) >= 0;
   }
 
   private updateAnimation(): void {
@@ -504,13 +637,15 @@ export class Enemy extends Entity {
   }
 
   protected onDeath(): void {
+    this.cancelTelegraph();
+
     // Play death animation
     const deathAnim = `${this.config.type}_death_sd`;
     this.play(deathAnim);
 
     // Handle bomber explosion
     if (this.behavior === EnemyBehavior.BOMBER) {
-      this.createBomberExplosion();
+      this.armBomberFuse();
     } else {
       // Normal death particles
       this.spawnDeathParticles();
@@ -527,49 +662,30 @@ export class Enemy extends Entity {
     });
   }
 
-  private createBomberExplosion(): void {
-    // Large explosion effect
-    const explosionRadius = 80;
-    
-    // Visual explosion
-    const flash = this.scene.add.circle(this.x, this.y, explosionRadius, 0xff6600, 0.6);
-    flash.setDepth(DEPTH.EFFECTS);
-    
-    this.scene.tweens.add({
-      targets: flash,
-      scale: 1.5,
-      alpha: 0,
-      duration: 300,
-      onComplete: () => flash.destroy()
-    });
-    
-    // Many particles
-    for (let i = 0; i < 16; i++) {
-      const angle = (i / 16) * Math.PI * 2;
-      const dist = 30 + Math.random() * 50;
-      
-      const particle = this.scene.add.circle(
-        this.x + Math.cos(angle) * 10,
-        this.y + Math.sin(angle) * 10,
-        4 + Math.random() * 3,
-        [0xff6600, 0xff4400, 0xffaa00][Math.floor(Math.random() * 3)],
-        1
-      );
-      particle.setDepth(DEPTH.EFFECTS);
-      
-      this.scene.tweens.add({
-        targets: particle,
-        x: this.x + Math.cos(angle) * dist,
-        y: this.y + Math.sin(angle) * dist,
-        alpha: 0,
-        scale: 0.2,
-        duration: 400 + Math.random() * 200,
-        onComplete: () => particle.destroy()
-      });
+  /**
+   * Show the blast radius, then explode where the bomber died
+   * The fuse outlives the bomber, so it only captures what the blast needs
+   */
+  private armBomberFuse(): void {
+    const scene = this.scene;
+    const { x, y } = this;
+    const damage = this.damage;
+    const onExplode = this.onExplodeCallback;
+    const explode = () => {
+      createBomberExplosion(scene, x, y);
+      onExplode?.(x, y, BOMBER_RADIUS, damage);
+    };
+
+    if (!this.telegraphs) {
+      explode();
+      return;
     }
-    
-    // Note: Damage to player would need to be handled by GameScene via callback
-    // This is just the visual effect
+    this.telegraphs.request({
+      shapes: [{ type: TelegraphShapeType.ZONE, x, y, radius: BOMBER_RADIUS }],
+      duration: BOMBER_FUSE,
+      color: 0xff6600,
+      onResolve: explode,
+    });
   }
 
   private spawnDeathParticles(): void {
@@ -577,12 +693,12 @@ export class Enemy extends Entity {
     const particleCount = 6;
     for (let i = 0; i < particleCount; i++) {
       const angle = (i / particleCount) * Math.PI * 2;
-      const speed = 50 + Math.random() * 50;
+      const speed = 50 + rng(RandomStream.COSMETICS).next() * 50;
       
       const particle = this.scene.add.circle(
         this.x,
         this.y,
-        3 + Math.random() * 2,
+        3 + rng(RandomStream.COSMETICS).next() * 2,
         0xff4444,
         0.8
       );
@@ -595,19 +711,78 @@ export class Enemy extends Entity {
         y: this.y + Math.sin(angle) * speed,
         alpha: 0,
         scale: 0.3,
-        duration: 300 + Math.random() * 200,
+        duration: 300 + rng(RandomStream.COSMETICS).next() * 200,
         ease: 'Power2',
         onComplete: () => particle.destroy()
       });
     }
   }
 
+  /**
+   * Fire a bullet pattern from this enemy
+   * @param angle Fixed aim (otherwise aimed at the player)
+   */
+  protected firePattern(pattern: BulletPattern | undefined, damage: number = this.damage, angle?: number): void {
+    if (pattern) this.onShootCallback?.(this, pattern, damage, angle);
+  }
+
+  /**
+   * Show a telegraph and run its attack once it resolves
+   * One at a time: a new request replaces the pending one
+   */
+  protected requestTelegraph(request: TelegraphRequest): void {
+    this.cancelTelegraph();
+    if (!this.telegraphs) {
+      request.onResolve?.();
+      return;
+    }
+
+    this.pendingTelegraph = this.telegraphs.request({
+      ...request,
+      onResolve: () => {
+        this.pendingTelegraph = null;
+        request.onResolve?.();
+      },
+    });
+  }
+
+  /**
+   * Whether a requested telegraph is still waiting to resolve
+   */
+  protected isTelegraphing(): boolean {
+    return this.pendingTelegraph !== null;
+  }
+
+  protected cancelTelegraph(): void {
+    this.pendingTelegraph?.cancel();
+    this.pendingTelegraph = null;
+  }
+
   // Setters
   public setOnDeath(callback: (enemy: Enemy) => void): void {
     this.onDeathCallback = callback;
   }
 
-  public setOnShoot(callback: (x: number, y: number, damage: number) => void): void {
+  /**
+   * Set callback for bomber explosions (deals the blast damage)
+   */
+  public setOnExplode(callback: (x: number, y: number, radius: number, damage: number) => void): void {
+    this.onExplodeCallback = callback;
+  }
+
+  public setFlocking(flocking: EnemyFlocking): void {
+    this.flocking = flocking;
+  }
+
+  public setFlowField(flowField: FlowField): void {
+    this.flowField = flowField;
+  }
+
+  public setTelegraphs(telegraphs: TelegraphManager): void {
+    this.telegraphs = telegraphs;
+  }
+
+  public setOnShoot(callback: BulletFireCallback): void {
     this.onShootCallback = callback;
   }
 
@@ -621,6 +796,7 @@ export class Enemy extends Entity {
       // Reset wander state when entering wander mode
       if (wandering) {
         this.wanderTimer = this.wanderChangeInterval; // Immediately pick new target
+        this.cancelTelegraph();
       }
     }
   }
@@ -632,6 +808,13 @@ export class Enemy extends Entity {
     return this.isWandering;
   }
 
+  /**
+   * Check if enemy is an elite variant
+   */
+  public getIsElite(): boolean {
+    return this.isElite;
+  }
+
   // Getters
   public getDamage(): number {
     return this.damage;
@@ -645,3 +828,45 @@ export class Enemy extends Entity {
     return this.config;
   }
 }
+
+/**
+ * Bomber blast visuals (the damage goes through the enemy's explode callback)
+ */
+function createBomberExplosion(scene: Phaser.Scene, x: number, y: number): void {
+  // Visual explosion
+  const flash = scene.add.circle(x, y, BOMBER_RADIUS, 0xff6600, 0.6);
+  flash.setDepth(DEPTH.EFFECTS);
+  
+  scene.tweens.add({
+    targets: flash,
+    scale: 1.5,
+    alpha: 0,
+    duration: 300,
+    onComplete: () => flash.destroy()
+  });
+  
+  // Many particles
+  for (let i = 0; i < 16; i++) {
+    const angle = (i / 16) * Math.PI * 2;
+    const dist = 30 + rng(RandomStream.COSMETICS).next() * 50;
+    
+    const particle = scene.add.circle(
+      x + Math.cos(angle) * 10,
+      y + Math.sin(angle) * 10,
+      4 + rng(RandomStream.COSMETICS).next() * 3,
+      [0xff6600, 0xff4400, 0xffaa00][Math.floor(rng(RandomStream.COSMETICS).next() * 3)],
+      1
+    );
+    particle.setDepth(DEPTH.EFFECTS);
+    
+    scene.tweens.add({
+      targets: particle,
+      x: x + Math.cos(angle) * dist,
+      y: y + Math.sin(angle) * dist,
+      alpha: 0,
+      scale: 0.2,
+      duration: 400 + rng(RandomStream.COSMETICS).next() * 200,
+      onComplete: () => particle.destroy()
+    });
+  }
+}
@@ -1,4 +1,6 @@
 import Phaser from 'phaser';
+import { StatusEffects } from '../systems/StatusEffects';
+import type { DamageType } from '../systems/DamagePipeline';
 
 /**
  * Entity - Base class for all game entities (Player, Enemy, etc.)
@@ -11,6 +13,10 @@ export abstract class Entity extends Phaser.Physics.Arcade.Sprite {
   protected isAlive: boolean = true;
   protected invincible: boolean = false;
   protected invincibilityTimer?: Phaser.Time.TimerEvent;
+  protected baseTint: number | null = null; // Resting tint (bosses, elites)
+  protected armor: number = 0; // Flat reduction per hit
+  protected resistances: Partial<Record<DamageType, number>> = {}; // Fraction of each damage type ignored (negative = weakness)
+  public readonly statusEffects: StatusEffects;
 
   constructor(
     scene: Phaser.Scene,
@@ -36,6 +42,9 @@ export abstract class Entity extends Phaser.Physics.Arcade.Sprite {
     
     // Set origin to center-bottom for proper ground alignment
     this.setOrigin(0.5, 0.5);
+
+    this.statusEffects = new StatusEffects(this);
+    this.once(Phaser.GameObjects.Events.DESTROY, () => this.statusEffects.clear());
   }
 
   /**
@@ -74,10 +83,22 @@ export abstract class Entity extends Phaser.Physics.Arcade.Sprite {
   protected flashDamage(): void {
     this.setTintFill(0xff0000);
     this.scene.time.delayedCall(100, () => {
-      this.clearTint();
+      this.refreshTint();
     });
   }
 
+  /**
+   * Restore the resting tint: status effect colour first, then the entity's own
+   */
+  public refreshTint(): void {
+    const tint = this.statusEffects.getTint() ?? this.baseTint;
+    if (tint !== null) {
+      this.setTint(tint);
+    } else {
+      this.clearTint();
+    }
+  }
+
   /**
    * Set invincibility for a duration
    * @param duration Duration in ms
@@ -102,12 +123,22 @@ export abstract class Entity extends Phaser.Physics.Arcade.Sprite {
     });
   }
 
+  /**
+   * Push the entity directly away from a point
+   * @param distance Pixels to move
+   */
+  public knockback(fromX: number, fromY: number, distance: number): void {
+    const angle = Phaser.Math.Angle.Between(fromX, fromY, this.x, this.y);
+    this.setPosition(this.x + Math.cos(angle) * distance, this.y + Math.sin(angle) * distance);
+  }
+
   /**
    * Handle entity death
    */
   protected die(): void {
     this.isAlive = false;
     this.setVelocity(0, 0);
+    this.statusEffects.clear();
     
     // Subclasses should override this to add death animation
     this.onDeath();
@@ -145,4 +176,12 @@ export abstract class Entity extends Phaser.Physics.Arcade.Sprite {
   public get hpPercent(): number {
     return this.currentHp / this.maxHp;
   }
+
+  public getArmor(): number {
+    return this.armor;
+  }
+
+  public getResistance(type: DamageType): number {
+    return this.resistances[type] ?? 0;
+  }
 }
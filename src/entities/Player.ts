@@ -6,6 +6,28 @@ import {
   PLAYER_INVINCIBILITY_DURATION,
   DEPTH,
 } from '../config/Constants';
+import { GameEventBus } from '../systems/GameEventBus';
+import { StatBlock, StatType, ModifierType } from '../systems/StatBlock';
+import { PassiveInventory } from '../systems/PassiveItems';
+import type { StatusEffectApplication, StatusEffectType } from '../systems/StatusEffects';
+
+/**
+ * Directional movement input for a single frame
+ */
+export interface MovementInput {
+  left: boolean;
+  right: boolean;
+  up: boolean;
+  down: boolean;
+}
+
+/**
+ * Status effect the player's hits can inflict
+ */
+export interface OnHitEffect {
+  chance: number; // 0-1 per hit
+  effect: StatusEffectApplication;
+}
 
 /**
  * Player - The main player character
@@ -28,24 +50,43 @@ export class Player extends Entity {
   private level: number = 1;
   private xpToNextLevel: number = 10;
   
-  // Callbacks
-  private onLevelUpCallback?: (level: number) => void;
-  private onDeathCallback?: () => void;
+  // Base stats plus every buff/upgrade modifier
+  public readonly stats: StatBlock;
 
-  constructor(scene: Phaser.Scene, x: number, y: number) {
-    super(scene, x, y, 'player_walk_down', PLAYER_MAX_HP, PLAYER_SPEED);
+  // Passive items picked up this run
+  public readonly passives: PassiveInventory;
+
+  // Status effects inflicted by the player's hits (one entry per effect type)
+  private onHitEffects: Map<StatusEffectType, OnHitEffect> = new Map();
+  
+  // Replay input (replaces keyboard when set)
+  private inputOverride: MovementInput | null = null;
+  
+  constructor(
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    maxHp: number = PLAYER_MAX_HP,
+    speed: number = PLAYER_SPEED
+  ) {
+    super(scene, x, y, 'player_walk_down', maxHp, speed);
+    this.stats = new StatBlock(
+      { [StatType.MAX_HP]: maxHp, [StatType.MOVE_SPEED]: speed },
+      () => scene.time.now
+    );
+    this.passives = new PassiveInventory(this.stats);
 
     // Set up input
     this.setupInput();
-    
+
     // Set depth for proper layering
     this.setDepth(DEPTH.PLAYER);
-    
+
     // Set hitbox (smaller than sprite for better feel)
     const body = this.body as Phaser.Physics.Arcade.Body;
     body.setSize(24, 24);
     body.setOffset(12, 20);
-    
+
     // Play idle animation
     this.play('player_idle');
   }
@@ -66,19 +107,38 @@ export class Player extends Entity {
     };
   }
 
-  public update(_time: number, _delta: number): void {
+  public update(_time: number, delta: number): void {
     if (!this.isAlive) return;
 
+    this.stats.update();
+    this.refreshStats();
+    this.statusEffects.update(delta);
     this.handleMovement();
     this.updateAnimation();
   }
 
+  /**
+   * Read current movement keys (arrows or WASD)
+   */
+  public getKeyboardInput(): MovementInput {
+    return {
+      left: !!(this.cursors?.left.isDown || this.wasdKeys?.A.isDown),
+      right: !!(this.cursors?.right.isDown || this.wasdKeys?.D.isDown),
+      up: !!(this.cursors?.up.isDown || this.wasdKeys?.W.isDown),
+      down: !!(this.cursors?.down.isDown || this.wasdKeys?.S.isDown),
+    };
+  }
+
+  /**
+   * Drive movement from recorded input instead of the keyboard (null to restore)
+   */
+  public setInputOverride(input: MovementInput | null): void {
+    this.inputOverride = input;
+  }
+
   private handleMovement(): void {
     // Get input
-    const left = this.cursors?.left.isDown || this.wasdKeys?.A.isDown;
-    const right = this.cursors?.right.isDown || this.wasdKeys?.D.isDown;
-    const up = this.cursors?.up.isDown || this.wasdKeys?.W.isDown;
-    const down = this.cursors?.down.isDown || this.wasdKeys?.S.isDown;
+    const { left, right, up, down } = this.inputOverride ?? this.getKeyboardInput();
 
     // Calculate velocity
     let velocityX = 0;
@@ -96,7 +156,8 @@ export class Player extends Entity {
     }
 
     // Apply velocity
-    this.setVelocity(velocityX * this.moveSpeed, velocityY * this.moveSpeed);
+    const speed = this.moveSpeed * this.statusEffects.getSpeedMultiplier();
+    this.setVelocity(velocityX * speed, velocityY * speed);
 
     // Track facing direction
     if (velocityX > 0) this.facingRight = true;
@@ -146,16 +207,29 @@ export class Player extends Entity {
     this.level++;
     // XP scaling: each level requires 50% more XP
     this.xpToNextLevel = Math.floor(this.xpToNextLevel * 1.5);
-    
-    // Callback for UI/upgrade system
-    if (this.onLevelUpCallback) {
-      this.onLevelUpCallback(this.level);
+
+    // Notify UI/upgrade system
+    GameEventBus.getInstance().emit('player:leveledUp', { level: this.level });
+  }
+
+  /**
+   * Start the run at a higher level without triggering level-up rewards
+   */
+  public setStartingLevel(level: number): void {
+    while (this.level < level) {
+      this.level++;
+      this.xpToNextLevel = Math.floor(this.xpToNextLevel * 1.5);
     }
   }
 
   public takeDamage(amount: number): boolean {
+    const hpBefore = this.currentHp;
     const died = super.takeDamage(amount);
-    
+
+    if (this.currentHp < hpBefore) {
+      GameEventBus.getInstance().emit('player:damaged', { amount: hpBefore - this.currentHp, hp: this.currentHp });
+    }
+
     if (!died && this.isAlive) {
       // Grant invincibility after taking damage
       this.setInvincible(PLAYER_INVINCIBILITY_DURATION);
@@ -167,12 +241,10 @@ export class Player extends Entity {
   protected onDeath(): void {
     // Play death animation
     this.play('player_death');
-    
-    // Wait for animation to complete, then trigger callback
+
+    // Wait for animation to complete, then notify
     this.once(Phaser.Animations.Events.ANIMATION_COMPLETE, () => {
-      if (this.onDeathCallback) {
-        this.onDeathCallback();
-      }
+      GameEventBus.getInstance().emit('player:died');
     });
   }
 
@@ -182,22 +254,13 @@ export class Player extends Entity {
   public getAimDirection(): Phaser.Math.Vector2 {
     const pointer = this.scene.input.activePointer;
     const worldPoint = this.scene.cameras.main.getWorldPoint(pointer.x, pointer.y);
-    
+
     const direction = new Phaser.Math.Vector2(
       worldPoint.x - this.x,
       worldPoint.y - this.y
     );
-    
-    return direction.normalize();
-  }
-
-  // Setters for callbacks
-  public setOnLevelUp(callback: (level: number) => void): void {
-    this.onLevelUpCallback = callback;
-  }
 
-  public setOnDeath(callback: () => void): void {
-    this.onDeathCallback = callback;
+    return direction.normalize();
   }
 
   // Getters
@@ -222,11 +285,11 @@ export class Player extends Entity {
    */
   public heal(amount: number): void {
     this.currentHp = Math.min(this.maxHp, this.currentHp + amount);
-    
+
     // Visual feedback - green flash
     this.setTint(0x00ff00);
     this.scene.time.delayedCall(200, () => {
-      this.clearTint();
+      this.refreshTint();
     });
   }
 
@@ -234,15 +297,30 @@ export class Player extends Entity {
    * Increase maximum HP (for upgrades)
    */
   public increaseMaxHP(amount: number): void {
-    this.maxHp += amount;
-    this.currentHp += amount; // Also heal the amount
+    this.stats.addModifier({ stat: StatType.MAX_HP, type: ModifierType.ADD, value: amount, source: 'upgrade' });
+    this.refreshStats();
   }
 
   /**
    * Increase movement speed (for upgrades)
    */
   public increaseMoveSpeed(percent: number): void {
-    this.moveSpeed = Math.floor(this.moveSpeed * (1 + percent));
+    this.stats.addModifier({ stat: StatType.MOVE_SPEED, type: ModifierType.MULTIPLY, value: 1 + percent, source: 'upgrade' });
+    this.refreshStats();
+  }
+
+  /**
+   * Pull final move speed and max HP from the stat block
+   */
+  private refreshStats(): void {
+    this.moveSpeed = Math.floor(this.stats.get(StatType.MOVE_SPEED));
+
+    const maxHp = Math.floor(this.stats.get(StatType.MAX_HP));
+    if (maxHp > this.maxHp) {
+      this.currentHp += maxHp - this.maxHp; // Gaining max HP also heals that amount
+    }
+    this.maxHp = maxHp;
+    this.currentHp = Math.min(this.currentHp, this.maxHp);
   }
 
   /**
@@ -253,14 +331,36 @@ export class Player extends Entity {
   }
 
   /**
-   * Apply temporary speed multiplier (for buffs)
+   * Get critical hit chance (0-1)
    */
-  public applySpeedMultiplier(multiplier: number): void {
-    // Store base speed on first call
-    if (!(this as any)._baseSpeed) {
-      (this as any)._baseSpeed = this.moveSpeed;
-    }
-    this.moveSpeed = Math.floor((this as any)._baseSpeed * multiplier);
+  public getCritChance(): number {
+    return Phaser.Math.Clamp(this.stats.get(StatType.CRIT_CHANCE), 0, 1);
+  }
+
+  /**
+   * Get critical hit damage multiplier
+   */
+  public getCritMultiplier(): number {
+    return Math.max(1, this.stats.get(StatType.CRIT_DAMAGE));
+  }
+
+  /**
+   * Make hits inflict a status effect (adding the same effect again raises its chance)
+   */
+  public addOnHitEffect(effect: StatusEffectApplication, chance: number): void {
+    const existing = this.onHitEffects.get(effect.type);
+    this.onHitEffects.set(effect.type, {
+      chance: Math.min(1, (existing?.chance ?? 0) + chance),
+      effect,
+    });
+  }
+
+  public getOnHitEffects(): OnHitEffect[] {
+    return [...this.onHitEffects.values()];
+  }
+
+  public getOnHitChance(type: StatusEffectType): number {
+    return this.onHitEffects.get(type)?.chance ?? 0;
   }
 
   /**
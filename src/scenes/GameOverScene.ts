@@ -11,6 +11,8 @@ interface GameOverData {
   victory: boolean;
   goldEarned?: number;
   bossesKilled?: number;
+  seed?: string;
+  isReplay?: boolean;
 }
 
 /**
@@ -44,7 +46,10 @@ export class GameOverScene extends Phaser.Scene {
     this.cameras.main.fadeIn(500);
 
     // Title based on victory/defeat
-    const titleText = this.gameData.victory ? 'VICTORY!' : 'GAME OVER';
+    let titleText = this.gameData.victory ? 'VICTORY!' : 'GAME OVER';
+    if (this.gameData.isReplay) {
+      titleText = 'REPLAY ENDED';
+    }
     const titleColor = this.gameData.victory ? '#00ff00' : '#ff4444';
     
     const title = this.add.text(centerX, centerY - 180, titleText, {
@@ -60,11 +65,15 @@ export class GameOverScene extends Phaser.Scene {
     this.createStatsPanel(centerX, centerY - 20);
 
     // Buttons
-    this.createButton(centerX - 110, centerY + 140, 'RESTART', () => {
+    this.createButton(centerX - 200, centerY + 150, 'RESTART', () => {
       this.scene.start(SCENE_KEYS.GAME);
     });
 
-    this.createButton(centerX + 110, centerY + 140, 'MENU', () => {
+    this.createButton(centerX, centerY + 150, 'SAME SEED', () => {
+      this.scene.start(SCENE_KEYS.GAME, { seed: this.gameData.seed });
+    });
+
+    this.createButton(centerX + 200, centerY + 150, 'MENU', () => {
       this.scene.start(SCENE_KEYS.MAIN_MENU);
     });
 
@@ -82,7 +91,7 @@ export class GameOverScene extends Phaser.Scene {
 
   private createStatsPanel(x: number, y: number): void {
     // Background panel
-    const panel = this.add.rectangle(x, y, 300, 230, 0x222222, 0.9);
+    const panel = this.add.rectangle(x, y, 300, 240, 0x222222, 0.9);
     panel.setStrokeStyle(2, 0x4a4a6a);
 
     const metaManager = MetaProgressionManager.getInstance();
@@ -93,12 +102,13 @@ export class GameOverScene extends Phaser.Scene {
       { label: 'Enemies Killed', value: this.gameData.enemiesKilled.toString() },
       { label: 'Time Survived', value: this.formatTime(this.gameData.timeSurvived) },
       { label: 'Level Reached', value: this.gameData.levelReached.toString() },
-      { label: 'Gold Earned', value: `+${this.gameData.goldEarned || 0} 💰`, color: '#ffd700' },
+      { label: this.gameData.isReplay ? 'Gold Collected' : 'Gold Earned', value: `+${this.gameData.goldEarned || 0} 💰`, color: '#ffd700' },
       { label: 'Total Gold', value: `${totalGold} 💰`, color: '#ffd700' },
+      { label: 'Seed', value: this.gameData.seed || '-', color: '#88aaff' },
     ];
 
     stats.forEach((stat, index) => {
-      const statY = y - 80 + index * 35;
+      const statY = y - 95 + index * 30;
       
       // Label
       this.add.text(x - 130, statY, stat.label, {
@@ -6,24 +6,39 @@ import {
   MAP_HEIGHT,
   DEPTH,
   GAME_DURATION,
+  PLAYER_SPEED,
 } from '../config/Constants';
 import { Player } from '../entities/Player';
 import { Enemy } from '../entities/Enemy';
-import { DungeonGenerator } from '../systems/DungeonGenerator';
+import { Boss } from '../entities/Boss';
+import { DungeonGenerator, MapType, PlacementCheck } from '../systems/DungeonGenerator';
 import { EnemySpawner } from '../systems/EnemySpawner';
-import { ProjectileManager } from '../systems/ProjectileManager';
 import { XPGemManager } from '../systems/XPGemManager';
-import { UpgradeSystem, Upgrade } from '../systems/UpgradeSystem';
-import { WeaponManager } from '../systems/WeaponManager';
+import { UpgradeSystem, Upgrade, RARITIES } from '../systems/UpgradeSystem';
+import { WeaponManager, WeaponType } from '../systems/WeaponManager';
 import { EnemyProjectileManager } from '../systems/EnemyProjectileManager';
 import { SoundManager, SoundEffect } from '../systems/SoundManager';
 import { AltarManager } from '../systems/AltarManager';
 import { GoldManager } from '../systems/GoldManager';
 import { AchievementTracker } from '../systems/AchievementTracker';
-import { MetaProgressionManager } from '../systems/MetaProgressionManager';
+import { MetaProgressionManager, RunLoadout } from '../systems/MetaProgressionManager';
 import { SpaceStationManager } from '../systems/SpaceStationManager';
 import { SupplyDropManager } from '../systems/SupplyDropManager';
 import { MiniMapSystem } from '../systems/MiniMapSystem';
+import {
+  CharacterAbilityManager,
+  CharacterAbility,
+  CharacterAbilityType,
+  CHARACTER_ABILITIES,
+} from '../systems/CharacterAbilityManager';
+import { RandomManager, rng, RandomStream } from '../systems/RandomManager';
+import { ReplayManager, ReplayData, LevelUpAction } from '../systems/ReplayManager';
+import { GameEventBus } from '../systems/GameEventBus';
+import { StatType, ModifierType } from '../systems/StatBlock';
+import { PASSIVE_ITEMS } from '../systems/PassiveItems';
+import { DamagePipeline, DamageStage } from '../systems/DamagePipeline';
+import { createRunSystems, setupRunCollision, RunSystems } from '../systems/RunSetup';
+import { FixedTimestep } from '../systems/FixedTimestep';
 
 /**
  * GameScene - Main gameplay scene
@@ -41,7 +56,6 @@ export class GameScene extends Phaser.Scene {
   
   // Systems
   private enemySpawner!: EnemySpawner;
-  private projectileManager!: ProjectileManager;
   private xpGemManager!: XPGemManager;
   private upgradeSystem!: UpgradeSystem;
   private weaponManager!: WeaponManager;
@@ -50,11 +64,21 @@ export class GameScene extends Phaser.Scene {
   private altarManager!: AltarManager;
   private goldManager!: GoldManager;
   private achievementTracker!: AchievementTracker;
+  private eventBus!: GameEventBus;
   private metaManager!: MetaProgressionManager;
   private spaceStationManager!: SpaceStationManager;
   private supplyDropManager!: SupplyDropManager;
   private miniMapSystem!: MiniMapSystem;
+  private characterAbilityManager!: CharacterAbilityManager;
+  private damagePipeline!: DamagePipeline;
+  private runSystems!: RunSystems;
   private sessionGold: number = 0;
+  private runLoadout!: RunLoadout;
+  private runSeed?: string;
+  private mapType: MapType = MapType.ARENA;
+  private replayManager!: ReplayManager;
+  private replayData?: ReplayData;
+  private timestep!: FixedTimestep;
   
   // Space Station UI
   private stationLevelText!: Phaser.GameObjects.Text;
@@ -80,6 +104,7 @@ export class GameScene extends Phaser.Scene {
   private killText!: Phaser.GameObjects.Text;
   private waveText!: Phaser.GameObjects.Text;
   private hpText!: Phaser.GameObjects.Text;
+  private abilityText: Phaser.GameObjects.Text | null = null;
   private weaponIcons: Phaser.GameObjects.Container[] = [];
   
   // Camera system
@@ -90,6 +115,7 @@ export class GameScene extends Phaser.Scene {
   private bossHPBarContainer: Phaser.GameObjects.Container | null = null;
   private bossHPBar: Phaser.GameObjects.Graphics | null = null;
   private bossHPText: Phaser.GameObjects.Text | null = null;
+  private bossPhaseText: Phaser.GameObjects.Text | null = null;
   private currentBoss: Enemy | null = null;
   
   // Decorations group
@@ -99,7 +125,26 @@ export class GameScene extends Phaser.Scene {
     super({ key: SCENE_KEYS.GAME });
   }
 
+  init(data?: { seed?: string; mapType?: MapType; replay?: ReplayData }): void {
+    // Optional seed and map from main menu (random seed if empty), or a replay to watch
+    this.replayData = data?.replay;
+    this.runSeed = this.replayData ? this.replayData.seed : data?.seed;
+    this.mapType = (this.replayData ? this.replayData.mapType : data?.mapType) ?? MapType.ARENA;
+  }
+
   create(): void {
+    // Seed all random streams before anything is generated
+    this.runSeed = RandomManager.getInstance().startRun(this.runSeed);
+    this.replayManager = new ReplayManager(this.replayData);
+
+    // Drop listeners from the previous run
+    this.eventBus = GameEventBus.getInstance();
+    this.eventBus.clear();
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.eventBus.clear());
+
+    // Gameplay runs on fixed steps of game time so replays play out the same
+    this.timestep = new FixedTimestep(this);
+
     // Initialize game state
     this.gameStartTime = this.time.now;
     this.score = 0;
@@ -126,6 +171,9 @@ export class GameScene extends Phaser.Scene {
     // Create game systems
     this.createSystems();
 
+    // Weapon icons (bottom of the HUD) list the weapon registry
+    this.createWeaponIconsHUD();
+
     // Set up collision
     this.setupCollision();
 
@@ -167,7 +215,7 @@ export class GameScene extends Phaser.Scene {
   private createDungeon(): void {
     // Generate dungeon layout
     this.dungeonGenerator = new DungeonGenerator();
-    const dungeonGrid = this.dungeonGenerator.generate();
+    const dungeonGrid = this.dungeonGenerator.generate(this.mapType);
     const decorations = this.dungeonGenerator.getDecorations();
 
     // Create tilemap from data
@@ -181,7 +229,7 @@ export class GameScene extends Phaser.Scene {
         // TileType.FLOOR = 0, TileType.WALL = 1
         const tileValue = dungeonGrid[y][x];
         if (tileValue === 0) { // FLOOR
-          // Floor tiles - use index 1 only (open arena)
+          // Floor tiles - use index 1 only
           mapData[y][x] = 1;
           wallData[y][x] = -1; // No wall
         } else {
@@ -281,33 +329,33 @@ export class GameScene extends Phaser.Scene {
 
   private createRockDecoration(x: number, y: number): Phaser.GameObjects.Image {
     // Use random rock sprite (1-16)
-    const rockNum = Phaser.Math.Between(1, 16);
+    const rockNum = rng(RandomStream.COSMETICS).between(1, 16);
     const rock = this.add.image(x, y, `rock_${rockNum}`);
-    rock.setScale(0.8 + Math.random() * 0.4);
+    rock.setScale(0.8 + rng(RandomStream.COSMETICS).next() * 0.4);
     rock.setAlpha(0.9);
     // Random flip for variety
-    if (Math.random() > 0.5) rock.setFlipX(true);
+    if (rng(RandomStream.COSMETICS).next() > 0.5) rock.setFlipX(true);
     return rock;
   }
 
   private createBoneDecoration(x: number, y: number): Phaser.GameObjects.Image {
     // Use small rock sprites for bones (they look similar)
-    const rockNum = Phaser.Math.Between(11, 16); // Smaller rocks
+    const rockNum = rng(RandomStream.COSMETICS).between(11, 16); // Smaller rocks
     const bone = this.add.image(x, y, `rock_${rockNum}`);
-    bone.setScale(0.5 + Math.random() * 0.3);
+    bone.setScale(0.5 + rng(RandomStream.COSMETICS).next() * 0.3);
     bone.setAlpha(0.7);
     bone.setTint(0xccccaa); // Bone color tint
-    bone.setRotation(Math.random() * Math.PI * 2);
+    bone.setRotation(rng(RandomStream.COSMETICS).angle());
     return bone;
   }
 
   private createGrassDecoration(x: number, y: number): Phaser.GameObjects.Image {
     // Use grass sprites (1-16)
-    const grassNum = Phaser.Math.Between(1, 16);
+    const grassNum = rng(RandomStream.COSMETICS).between(1, 16);
     const grass = this.add.image(x, y, `grass_${grassNum}`);
-    grass.setScale(0.7 + Math.random() * 0.3);
+    grass.setScale(0.7 + rng(RandomStream.COSMETICS).next() * 0.3);
     grass.setAlpha(0.85);
-    if (Math.random() > 0.5) grass.setFlipX(true);
+    if (rng(RandomStream.COSMETICS).next() > 0.5) grass.setFlipX(true);
     return grass;
   }
 
@@ -315,15 +363,15 @@ export class GameScene extends Phaser.Scene {
     const container = this.add.container(x, y);
     
     // Create cluster of small rocks using sprites
-    const count = Phaser.Math.Between(2, 4);
+    const count = rng(RandomStream.COSMETICS).between(2, 4);
     for (let i = 0; i < count; i++) {
-      const rockNum = Phaser.Math.Between(11, 16); // Small rock variants
+      const rockNum = rng(RandomStream.COSMETICS).between(11, 16); // Small rock variants
       const piece = this.add.image(
-        (Math.random() - 0.5) * 16,
-        (Math.random() - 0.5) * 16,
+        (rng(RandomStream.COSMETICS).next() - 0.5) * 16,
+        (rng(RandomStream.COSMETICS).next() - 0.5) * 16,
         `rock_${rockNum}`
       );
-      piece.setScale(0.3 + Math.random() * 0.2);
+      piece.setScale(0.3 + rng(RandomStream.COSMETICS).next() * 0.2);
       piece.setAlpha(0.6);
       container.add(piece);
     }
@@ -354,7 +402,7 @@ export class GameScene extends Phaser.Scene {
       scaleX: { from: 1, to: 0.8 },
       scaleY: { from: 1, to: 1.2 },
       y: { from: flame.y, to: flame.y - 2 },
-      duration: 200 + Math.random() * 100,
+      duration: 200 + rng(RandomStream.COSMETICS).next() * 100,
       yoyo: true,
       repeat: -1,
       ease: 'Sine.easeInOut',
@@ -368,7 +416,7 @@ export class GameScene extends Phaser.Scene {
       targets: glow,
       alpha: { from: 0.15, to: 0.3 },
       scale: { from: 1, to: 1.3 },
-      duration: 300 + Math.random() * 150,
+      duration: 300 + rng(RandomStream.COSMETICS).next() * 150,
       yoyo: true,
       repeat: -1,
     });
@@ -384,17 +432,22 @@ export class GameScene extends Phaser.Scene {
     const worldX = spawnPos.x * TILE_SIZE + TILE_SIZE / 2;
     const worldY = spawnPos.y * TILE_SIZE + TILE_SIZE / 2;
 
-    // Create player
-    this.player = new Player(this, worldX, worldY);
+    // Starting stats from selected character and permanent upgrades (or the recorded run)
+    this.runLoadout = this.replayData
+      ? this.replayData.loadout
+      : MetaProgressionManager.getInstance().getRunLoadout();
 
-    // Set up callbacks
-    this.player.setOnDeath(() => {
-      this.gameOver(false);
-    });
+    // Create player
+    this.player = new Player(
+      this,
+      worldX,
+      worldY,
+      this.runLoadout.maxHp,
+      Math.floor(PLAYER_SPEED * this.runLoadout.moveSpeedMultiplier)
+    );
+    this.player.setStartingLevel(this.runLoadout.startingLevel);
+    this.player.stats.setBase(StatType.CRIT_CHANCE, this.runLoadout.criticalChance);
 
-    this.player.setOnLevelUp((level) => {
-      this.showLevelUpUI(level);
-    });
   }
 
   private setupCamera(): void {
@@ -497,6 +550,22 @@ export class GameScene extends Phaser.Scene {
       .setDepth(DEPTH.UI + 1);
     this.addToUILayer(this.levelText);
 
+    // Character ability indicator (below XP bar)
+    this.abilityText = null;
+    const ability = CHARACTER_ABILITIES[this.runLoadout.characterId];
+    if (ability) {
+      this.abilityText = this.add.text(barX, barY + barHeight + 20, `${ability.icon} ${ability.name}`, {
+        fontFamily: 'monospace',
+        fontSize: '11px',
+        color: '#' + ability.color.toString(16).padStart(6, '0'),
+        stroke: '#000000',
+        strokeThickness: 2,
+      })
+        .setAlpha(0.5)
+        .setDepth(DEPTH.UI);
+      this.addToUILayer(this.abilityText);
+    }
+
     // === TOP RIGHT: Timer, Kills, Wave ===
     
     // Timer with background panel
@@ -577,8 +646,19 @@ export class GameScene extends Phaser.Scene {
       .setDepth(DEPTH.UI);
     this.addToUILayer(this.materialsText);
 
-    // === BOTTOM: Weapon Icons ===
-    this.createWeaponIconsHUD();
+    // Replay indicator
+    if (this.replayManager.isPlaying()) {
+      const replayText = this.add.text(screenWidth / 2, 20, '▶ REPLAY - ESC to exit', {
+        fontFamily: 'monospace',
+        fontSize: '14px',
+        color: '#ff66ff',
+        stroke: '#000000',
+        strokeThickness: 3,
+      })
+        .setOrigin(0.5, 0)
+        .setDepth(DEPTH.UI);
+      this.addToUILayer(replayText);
+    }
 
     // Initial UI update
     this.updateUI();
@@ -593,15 +673,8 @@ export class GameScene extends Phaser.Scene {
     const startX = 20;
     const startY = this.scale.height - 50;
 
-    // Weapon slot mappings: icon number -> weapon info
-    const weaponSlots = [
-      { iconNum: 1, name: 'Wand', active: true }, // Wand always active
-      { iconNum: 3, name: 'Axe', type: 'axe' },
-      { iconNum: 5, name: 'Dagger', type: 'dagger' },
-      { iconNum: 7, name: 'Orb', type: 'orb' },
-    ];
-
-    weaponSlots.forEach((slot, index) => {
+    // One slot per registered weapon
+    this.weaponManager.getWeapons().forEach((weapon, index) => {
       const x = startX + index * (iconSize + padding) + iconSize / 2;
       const y = startY;
 
@@ -615,7 +688,7 @@ export class GameScene extends Phaser.Scene {
       container.add(frame);
 
       // Weapon icon
-      const icon = this.add.image(0, 0, `weapon_icon_${slot.iconNum}`)
+      const icon = this.add.image(0, 0, `weapon_icon_${weapon.definition.hudIcon}`)
         .setDisplaySize(iconSize - 4, iconSize - 4);
       container.add(icon);
 
@@ -629,12 +702,11 @@ export class GameScene extends Phaser.Scene {
       container.add([levelBadge, levelNum]);
 
       // Store reference with metadata
-      (container as any).weaponType = slot.type;
+      (container as any).weaponType = weapon.type;
       (container as any).levelText = levelNum;
-      (container as any).isActive = slot.active || false;
       
-      // Dim inactive weapons
-      if (!slot.active) {
+      // Dim locked weapons
+      if (!weapon.isUnlocked()) {
         container.setAlpha(0.3);
       }
 
@@ -778,25 +850,19 @@ export class GameScene extends Phaser.Scene {
       // Skip destroyed containers (can happen during scene transition)
       if (!container || !container.active) return;
       
-      const weaponType = (container as any).weaponType as string | undefined;
+      const weaponType = (container as any).weaponType as WeaponType;
       const levelText = (container as any).levelText as Phaser.GameObjects.Text;
-      
-      if (!weaponType) {
-        // Wand is always active
-        container.setAlpha(1);
-        return;
-      }
 
       // Check if weapon is active
-      const isActive = this.weaponManager.hasWeapon(weaponType as any);
+      const isActive = this.weaponManager.hasWeapon(weaponType);
       container.setAlpha(isActive ? 1 : 0.3);
       
       if (isActive && levelText && levelText.active) {
-        const level = this.weaponManager.getWeaponLevel(weaponType as any);
+        const level = this.weaponManager.getWeaponLevel(weaponType);
         levelText.setText(`${level}`);
         
         // Evolved weapons get special treatment
-        if (this.weaponManager.isWeaponEvolved(weaponType as any)) {
+        if (this.weaponManager.isWeaponEvolved(weaponType)) {
           levelText.setColor('#ff00ff');
           levelText.setText('★');
         }
@@ -811,101 +877,58 @@ export class GameScene extends Phaser.Scene {
     // Create achievement tracker
     this.achievementTracker = new AchievementTracker(this);
     this.achievementTracker.reset();
-    
-    // Create XP gem manager
-    this.xpGemManager = new XPGemManager(this, this.player);
-    
+    this.achievementTracker.setEnabled(!this.replayManager.isPlaying());
+    
+    // Create character ability manager for the selected character
+    this.characterAbilityManager = new CharacterAbilityManager(this.player, this.runLoadout.characterId);
+
+    // Combat systems shared with the headless simulation (damage pipeline, enemies, weapons, XP, upgrades)
+    const systems = createRunSystems(this, this.player, this.dungeonGenerator.getGrid());
+    this.runSystems = systems;
+    this.damagePipeline = systems.damagePipeline;
+    this.xpGemManager = systems.xpGemManager;
+    this.enemyProjectileManager = systems.enemyProjectileManager;
+    this.enemySpawner = systems.enemySpawner;
+    this.weaponManager = systems.weaponManager;
+    this.upgradeSystem = systems.upgradeSystem;
+
+    // Character ability damage bonus (rage)
+    this.damagePipeline.addModifier({
+      id: 'ability:rage',
+      stage: DamageStage.BUFFS,
+      apply: (event) => {
+        if (event.source === this.player) {
+          event.amount = this.characterAbilityManager.modifyDamage(event.amount);
+        }
+      },
+    });
+
     // Create gold manager and its texture
     GoldManager.createCoinTexture(this);
     this.goldManager = new GoldManager(this, this.player);
-    this.goldManager.setOnCollect((gold) => {
-      this.sessionGold += gold;
-      this.achievementTracker.trackGold(gold);
-    });
-
-    // Create enemy projectile manager
-    this.enemyProjectileManager = new EnemyProjectileManager(this, this.player);
-
-    // Create enemy spawner
-    this.enemySpawner = new EnemySpawner(this, this.player);
-    this.enemySpawner.setOnEnemyKilled((enemy, xp) => {
-      // Spawn XP gems at enemy position instead of direct XP
-      this.xpGemManager.spawnGems(enemy.x, enemy.y, xp);
-      this.enemiesKilled++;
-      this.score += xp * 10;
-      
-      // Track achievement and spawn gold
-      this.achievementTracker.trackKill(false);
-      this.goldManager.spawnFromEnemy(enemy.x, enemy.y, Math.ceil(xp / 2), 0.4);
-    });
-
-    // Wire up enemy shooting to projectile manager
-    this.enemySpawner.setOnEnemyShoot((x, y, damage) => {
-      this.enemyProjectileManager.fire(x, y, damage);
-    });
-
-    // Track boss kills with explosion effect
-    this.enemySpawner.setOnBossKilled((enemy) => {
-      this.bossesKilled++;
-      // Play boss death sound
-      this.soundManager.play(SoundEffect.BOSS_DEATH);
-      // Visual explosion effect at player position (boss just died near player)
-      this.spawnExplosionEffect(this.player.x, this.player.y);
-      // Track achievement and spawn boss gold
-      this.achievementTracker.trackKill(true);
-      this.goldManager.spawnFromBoss(enemy.x, enemy.y, 25 + this.bossesKilled * 10);
-    });
-
-    // Play sound on enemy death
-    this.enemySpawner.setOnEnemyDeath(() => {
-      this.soundManager.play(SoundEffect.ENEMY_DEATH, { volume: 0.3 });
-    });
 
-    // Play sound and show HP bar on boss spawn
-    this.enemySpawner.setOnBossSpawn((boss) => {
-      this.soundManager.play(SoundEffect.BOSS_SPAWN);
-      this.showBossHPBar(boss);
+    // Hit effects and sounds
+    this.weaponManager.setOnWeaponHit((weapon, enemy) => {
+      const { hitEffect, hitSound } = weapon.definition;
+      if (hitEffect) this.spawnHitEffect(enemy.x, enemy.y);
+      if (hitSound) this.soundManager.play(hitSound.effect, { volume: hitSound.volume });
     });
-
-    // Create projectile manager and link to enemies for auto-aim
-    this.projectileManager = new ProjectileManager(this);
-    this.projectileManager.setEnemyGroup(this.enemySpawner.getEnemies());
-
-    // Create weapon manager for additional weapons
-    this.weaponManager = new WeaponManager(this, this.player);
-    this.weaponManager.setEnemyGroup(this.enemySpawner.getEnemies());
+    this.weaponManager.setOnExplosion((x, y) => this.spawnExplosionEffect(x, y));
     
-    // Note: canAttack callbacks set after spaceStationManager is created
+    // Note: canAttack callback set after spaceStationManager is created
 
-    // Create upgrade system with weapon manager
-    this.upgradeSystem = new UpgradeSystem(this.player, this.projectileManager, this.xpGemManager, this.weaponManager);
+    // Apply character and permanent upgrade bonuses to run systems
+    this.applyRunLoadout();
+
+    // Altars, the station and loot are placed clear of the map's walls
+    const isOpenArea: PlacementCheck = (x, y, radius) => this.dungeonGenerator.isOpenArea(x, y, radius);
 
     // Create altar manager for shrine buffs
-    this.altarManager = new AltarManager(this, this.player);
-    
-    // Wire up altar magnet effect to XP gem manager
-    this.altarManager.setOnMagnetActivated(() => {
-      this.xpGemManager.attractAllGems();
-      this.soundManager.play(SoundEffect.XP_PICKUP);
-    });
-    
-    // Play sound when buff is applied
-    this.altarManager.setOnBuffApplied((_buff) => {
-      this.soundManager.play(SoundEffect.LEVEL_UP); // Reuse level up sound for buff
-    });
-    
-    // Show altar buff notifications on UI layer
-    this.altarManager.setOnShowNotification((message, color, icon) => {
-      this.showNotification(`${icon} ${message}`, color);
-    });
+    this.altarManager = new AltarManager(this, this.player, isOpenArea);
+    this.altarManager.setGetEnemies(() => this.enemySpawner.getEnemies());
     
     // Create space station manager for safe zone mechanic
-    this.spaceStationManager = new SpaceStationManager(this, this.player);
-    
-    // Wire up space station callbacks
-    this.spaceStationManager.setOnShowNotification((message, color) => {
-      this.showNotification(message, color);
-    });
+    this.spaceStationManager = new SpaceStationManager(this, this.player, isOpenArea);
     
     // Gold accessors for station upgrades
     this.spaceStationManager.setGoldAccessors(
@@ -919,33 +942,6 @@ export class GameScene extends Phaser.Scene {
       }
     );
     
-    // Toggle enemy wandering when player enters/leaves safe zone
-    this.spaceStationManager.setOnPlayerEnterRadius(() => {
-      this.setAllEnemiesWandering(true);
-      this.showNotification('🛡️ Entered safe zone - enemies distracted', 0x00ffff);
-    });
-    
-    this.spaceStationManager.setOnPlayerLeaveRadius(() => {
-      this.setAllEnemiesWandering(false);
-    });
-    
-    // Track material collection for UI
-    this.spaceStationManager.setOnMaterialCollected((_total, _type) => {
-      this.soundManager.play(SoundEffect.XP_PICKUP, { volume: 0.6 });
-      this.updateStationUI();
-    });
-    
-    // Handle upgrade events
-    this.spaceStationManager.setOnUpgradeStart(() => {
-      this.soundManager.play(SoundEffect.UI_CLICK);
-      this.setAllEnemiesWandering(false); // Protection disabled during upgrade
-    });
-    
-    this.spaceStationManager.setOnUpgradeComplete((_newLevel) => {
-      this.soundManager.play(SoundEffect.LEVEL_UP);
-      this.updateStationUI();
-    });
-    
     // Wire up enemies group for station radius exclusion
     this.spaceStationManager.setEnemiesGroup(() => this.enemySpawner.getEnemies());
     
@@ -953,44 +949,24 @@ export class GameScene extends Phaser.Scene {
     this.enemySpawner.setIsPlayerInSafeZone(() => this.spaceStationManager.isPlayerInSafeZone());
     
     // Disable attacks when player is in safe zone
-    this.projectileManager.setCanAttackCallback(() => this.spaceStationManager.canPlayerAttack());
     this.weaponManager.setCanAttackCallback(() => this.spaceStationManager.canPlayerAttack());
     
     // Create supply drop manager
-    this.supplyDropManager = new SupplyDropManager(this, this.player);
-    
-    // Wire up supply drop callbacks
-    this.supplyDropManager.setOnShowNotification((message, color) => {
-      this.showNotification(message, color);
-    });
-    
-    this.supplyDropManager.setOnGoldCollected((amount) => {
-      this.sessionGold += amount;
-      this.soundManager.play(SoundEffect.XP_PICKUP, { volume: 0.8 });
-    });
+    this.supplyDropManager = new SupplyDropManager(this, this.player, isOpenArea);
     
-    this.supplyDropManager.setOnMaterialCollected((amount) => {
-      // Add to station materials using the proper method
-      this.spaceStationManager.addMaterials(amount);
-      this.updateStationUI();
-      this.soundManager.play(SoundEffect.XP_PICKUP, { volume: 0.6 });
-    });
-    
-    this.supplyDropManager.setOnHealthCollected((amount) => {
-      this.player.heal(amount);
-      this.soundManager.play(SoundEffect.LEVEL_UP, { volume: 0.5 });
-    });
+    // React to events from the systems above
+    this.subscribeToGameEvents();
     
     // Make UI camera ignore all game world objects (enemies, projectiles, gems, etc.)
     // This ensures UI camera only renders UI elements
     this.uiCamera.ignore(this.enemySpawner.getEnemies());
-    this.uiCamera.ignore(this.projectileManager.getProjectiles());
     this.uiCamera.ignore(this.xpGemManager.getGems());
     this.uiCamera.ignore(this.goldManager.getCoins());
-    this.uiCamera.ignore(this.weaponManager.getAxes());
-    this.uiCamera.ignore(this.weaponManager.getDaggers());
-    this.uiCamera.ignore(this.weaponManager.getOrbs());
+    this.weaponManager.getWeapons().forEach(weapon => this.uiCamera.ignore(weapon.getGroup()));
     this.uiCamera.ignore(this.enemyProjectileManager.getProjectiles());
+    this.uiCamera.ignore(this.enemySpawner.getTelegraphManager().getGraphics());
+    this.enemyProjectileManager.setOnProjectilesCreated((projectiles) => this.uiCamera.ignore(projectiles));
+    this.eventBus.on('world:objectCreated', ({ object }) => this.uiCamera.ignore(object));
     this.uiCamera.ignore(this.altarManager.getAltars());
     this.uiCamera.ignore(this.spaceStationManager.getMaterials());
     
@@ -1009,18 +985,141 @@ export class GameScene extends Phaser.Scene {
   }
 
   /**
-   * Spawn floating damage number at position
+   * Scene-level reactions to game events (rewards, HUD, safe zone)
+   * Sounds and achievements subscribe on their own
    */
-  private spawnDamageNumber(x: number, y: number, damage: number): void {
-    const damageText = this.add.text(x, y - 20, damage.toString(), {
+  private subscribeToGameEvents(): void {
+    // Player
+    this.eventBus.on('player:leveledUp', ({ level }) => this.showLevelUpUI(level));
+    this.eventBus.on('player:died', () => this.gameOver(false));
+    this.eventBus.on('player:damaged', () => this.cameras.main.shake(100, 0.01));
+
+    // Floating numbers for hits on enemies
+    this.eventBus.on('damage:dealt', ({ damage }) => {
+      if (damage.target !== this.player) {
+        this.spawnDamageNumber(damage.target.x, damage.target.y, damage.dealt, damage.isCrit);
+      }
+    });
+
+    // Enemy kills score and drop gold (XP gems are dropped by the run systems)
+    this.eventBus.on('enemy:killed', ({ enemy, xp }) => {
+      this.enemiesKilled++;
+      this.score += xp * 10;
+      this.goldManager.spawnFromEnemy(enemy.x, enemy.y, Math.ceil(xp / 2), 0.4);
+    });
+
+    this.eventBus.on('boss:spawned', ({ boss }) => this.showBossHPBar(boss));
+    this.eventBus.on('boss:phaseChanged', ({ boss, phase, phases }) => this.onBossPhaseChanged(boss, phase, phases));
+
+    this.eventBus.on('boss:killed', ({ boss }) => {
+      this.bossesKilled++;
+      // Visual explosion effect at player position (boss just died near player)
+      this.spawnExplosionEffect(this.player.x, this.player.y);
+      this.goldManager.spawnFromBoss(boss.x, boss.y, 25 + this.bossesKilled * 10);
+    });
+
+    // Coins and supply drops both add to session gold
+    this.eventBus.on('pickup:collected', ({ kind, amount }) => {
+      if (kind === 'gold') {
+        this.sessionGold += amount;
+      }
+    });
+
+    // HUD
+    this.eventBus.on('notification', ({ message, color, icon }) => {
+      this.showNotification(icon ? `${icon} ${message}` : message, color);
+    });
+    this.eventBus.on('ability:triggered', ({ ability, active }) => this.showAbilityTrigger(ability, active));
+    this.eventBus.on('station:materialsChanged', () => this.updateStationUI());
+    this.eventBus.on('station:upgraded', () => this.updateStationUI());
+
+    // Toggle enemy wandering when player enters/leaves safe zone
+    this.eventBus.on('station:entered', () => {
+      this.setAllEnemiesWandering(true);
+      this.showNotification('🛡️ Entered safe zone - enemies distracted', 0x00ffff);
+    });
+    this.eventBus.on('station:left', () => this.setAllEnemiesWandering(false));
+    
+    // Protection disabled during upgrade
+    this.eventBus.on('station:upgradeStarted', () => this.setAllEnemiesWandering(false));
+  }
+
+  /**
+   * Register run loadout and character ability bonuses as permanent stat modifiers
+   */
+  private applyRunLoadout(): void {
+    const loadout = this.runLoadout;
+    const stats = this.player.stats;
+
+    stats.addModifier({ stat: StatType.DAMAGE, type: ModifierType.MULTIPLY, value: loadout.damageMultiplier, source: 'loadout' });
+    stats.addModifier({ stat: StatType.FIRE_RATE, type: ModifierType.MULTIPLY, value: loadout.fireRateMultiplier, source: 'loadout' });
+    stats.addModifier({ stat: StatType.PICKUP_RADIUS, type: ModifierType.MULTIPLY, value: loadout.pickupRadiusMultiplier, source: 'loadout' });
+    stats.addModifier({ stat: StatType.XP_GAIN, type: ModifierType.MULTIPLY, value: loadout.xpMultiplier, source: 'loadout' });
+
+    stats.addModifier({ stat: StatType.XP_GAIN, type: ModifierType.MULTIPLY, value: this.characterAbilityManager.getXPMultiplier(), source: 'ability' });
+    stats.addModifier({ stat: StatType.CRIT_CHANCE, type: ModifierType.ADD, value: this.characterAbilityManager.getCritChanceBonus(), source: 'ability' });
+
+    // Replays saved before level-up charges existed have none
+    this.upgradeSystem.setCharges({
+      rerolls: loadout.rerolls ?? 0,
+      skips: loadout.skips ?? 0,
+      banishes: loadout.banishes ?? 0,
+    });
+  }
+
+  /**
+   * Highlight the ability indicator when the character ability triggers
+   */
+  private showAbilityTrigger(ability: CharacterAbility, active: boolean): void {
+    const text = this.abilityText;
+    if (!text || !text.active) return;
+
+    // Sustained abilities (rage) stay lit while active
+    if (ability.type === CharacterAbilityType.RAGE) {
+      text.setAlpha(active ? 1 : 0.5);
+      text.setText(active ? `${ability.icon} ${ability.name.toUpperCase()}!` : `${ability.icon} ${ability.name}`);
+      if (active) {
+        this.showNotification(`${ability.icon} ${ability.name} activated!`, ability.color);
+      }
+      return;
+    }
+
+    // Short pulse for instant triggers (skip if already pulsing)
+    if (this.tweens.isTweening(text)) return;
+    text.setAlpha(1);
+    this.tweens.add({
+      targets: text,
+      scale: 1.2,
+      duration: 120,
+      yoyo: true,
+      onComplete: () => text.setAlpha(0.5),
+    });
+  }
+
+  /**
+   * Spawn floating damage number at position (critical hits are larger and yellow)
+   */
+  private spawnDamageNumber(x: number, y: number, damage: number, isCrit: boolean = false): void {
+    const damageText = this.add.text(x, y - 20, isCrit ? `${damage}!` : damage.toString(), {
       fontFamily: 'monospace',
-      fontSize: '16px',
-      color: '#ff4444',
+      fontSize: isCrit ? '22px' : '16px',
+      color: isCrit ? '#ffff00' : '#ff4444',
       stroke: '#000000',
-      strokeThickness: 3,
+      strokeThickness: isCrit ? 4 : 3,
     })
       .setOrigin(0.5)
-      .setDepth(DEPTH.EFFECTS);
+      .setDepth(isCrit ? DEPTH.EFFECTS + 1 : DEPTH.EFFECTS);
+
+    if (isCrit) {
+      // Quick pop before floating away
+      damageText.setScale(1.6);
+      this.tweens.add({
+        targets: damageText,
+        scale: 1,
+        duration: 120,
+        ease: 'Back.easeOut',
+      });
+    }
 
     // Animate floating up and fading
     this.tweens.add({
@@ -1034,29 +1133,8 @@ export class GameScene extends Phaser.Scene {
   }
 
   private setupCollision(): void {
-    // Player vs walls
-    this.physics.add.collider(this.player, this.wallLayer);
-
-    // Enemies vs walls
-    this.physics.add.collider(this.enemySpawner.getEnemies(), this.wallLayer);
-
-    // Player vs enemies
-    this.physics.add.overlap(
-      this.player,
-      this.enemySpawner.getEnemies(),
-      this.handlePlayerEnemyCollision,
-      undefined,
-      this
-    );
-
-    // Player vs XP gems
-    this.physics.add.overlap(
-      this.player,
-      this.xpGemManager.getGems(),
-      this.handlePlayerGemCollision,
-      undefined,
-      this
-    );
+    // Walls, enemy bodies and shots, XP gems and weapon hits
+    setupRunCollision(this, this.player, this.runSystems, this.wallLayer);
 
     // Player vs Gold coins
     this.physics.add.overlap(
@@ -1067,69 +1145,6 @@ export class GameScene extends Phaser.Scene {
       this
     );
 
-    // Projectiles vs enemies
-    this.physics.add.overlap(
-      this.projectileManager.getProjectiles(),
-      this.enemySpawner.getEnemies(),
-      this.handleProjectileEnemyCollision,
-      undefined,
-      this
-    );
-
-    // Projectiles vs walls
-    this.physics.add.collider(
-      this.projectileManager.getProjectiles(),
-      this.wallLayer,
-      this.handleProjectileWallCollision,
-      undefined,
-      this
-    );
-
-    // Axes vs enemies (piercing)
-    this.physics.add.overlap(
-      this.weaponManager.getAxes(),
-      this.enemySpawner.getEnemies(),
-      this.handleAxeEnemyCollision,
-      undefined,
-      this
-    );
-
-    // Daggers vs enemies
-    this.physics.add.overlap(
-      this.weaponManager.getDaggers(),
-      this.enemySpawner.getEnemies(),
-      this.handleDaggerEnemyCollision,
-      undefined,
-      this
-    );
-
-    // Orbs vs enemies (continuous damage)
-    this.physics.add.overlap(
-      this.weaponManager.getOrbs(),
-      this.enemySpawner.getEnemies(),
-      this.handleOrbEnemyCollision,
-      undefined,
-      this
-    );
-
-    // Enemy projectiles vs player
-    this.physics.add.overlap(
-      this.enemyProjectileManager.getProjectiles(),
-      this.player,
-      this.handleEnemyProjectilePlayerCollision,
-      undefined,
-      this
-    );
-
-    // Enemy projectiles vs walls
-    this.physics.add.collider(
-      this.enemyProjectileManager.getProjectiles(),
-      this.wallLayer,
-      this.handleEnemyProjectileWallCollision,
-      undefined,
-      this
-    );
-
     // Player vs Materials (space station)
     this.physics.add.overlap(
       this.player,
@@ -1190,38 +1205,6 @@ export class GameScene extends Phaser.Scene {
     }
   };
 
-  private handlePlayerEnemyCollision: Phaser.Types.Physics.Arcade.ArcadePhysicsCallback = (
-    playerObj,
-    enemyObj
-  ): void => {
-    const player = playerObj as Player;
-    const enemy = enemyObj as Enemy;
-    
-    if (player.alive && enemy.alive) {
-      const tookDamage = player.takeDamage(enemy.getDamage());
-      if (tookDamage !== false) {
-        // Screen shake on damage
-        this.cameras.main.shake(100, 0.01);
-        // Play player hit sound
-        this.soundManager.play(SoundEffect.PLAYER_HIT);
-      }
-    }
-  };
-
-  private handlePlayerGemCollision: Phaser.Types.Physics.Arcade.ArcadePhysicsCallback = (
-    _playerObj,
-    gemObj
-  ): void => {
-    const gem = gemObj as Phaser.Physics.Arcade.Sprite & { collect: () => number };
-    
-    if (gem.active) {
-      const xp = gem.collect();
-      this.player.addXP(xp);
-      // Play XP pickup sound
-      this.soundManager.play(SoundEffect.XP_PICKUP, { volume: 0.5 });
-    }
-  };
-
   private handlePlayerGoldCollision: Phaser.Types.Physics.Arcade.ArcadePhysicsCallback = (
     _playerObj,
     coinObj
@@ -1229,33 +1212,8 @@ export class GameScene extends Phaser.Scene {
     const coin = coinObj as Phaser.Physics.Arcade.Sprite & { collect: () => number };
     
     if (coin.active) {
-      const gold = coin.collect();
+      const gold = this.characterAbilityManager.modifyGold(coin.collect());
       this.goldManager.addSessionGold(gold);
-      // Play coin pickup sound (reuse XP sound with higher pitch)
-      this.soundManager.play(SoundEffect.XP_PICKUP, { volume: 0.7 });
-    }
-  };
-
-  private handleProjectileEnemyCollision: Phaser.Types.Physics.Arcade.ArcadePhysicsCallback = (
-    projectileObj,
-    enemyObj
-  ): void => {
-    const projectile = projectileObj as Phaser.Physics.Arcade.Sprite & { getDamage: () => number; deactivate: () => void };
-    const enemy = enemyObj as Enemy;
-    
-    if (projectile.active && enemy.alive) {
-      const damage = projectile.getDamage();
-      enemy.takeDamage(damage);
-      projectile.deactivate();
-      
-      // Show floating damage number
-      this.spawnDamageNumber(enemy.x, enemy.y, damage);
-      
-      // Spawn hit effect
-      this.spawnHitEffect(enemy.x, enemy.y);
-      
-      // Play hit sound
-      this.soundManager.play(SoundEffect.ENEMY_HIT, { volume: 0.4 });
     }
   };
 
@@ -1264,8 +1222,8 @@ export class GameScene extends Phaser.Scene {
    */
   private spawnHitEffect(x: number, y: number, effectType: number = 1): void {
     // Use effect sets 1-4 for hit effects (randomly if not specified)
-    const effectSet = effectType || Phaser.Math.Between(1, 4);
-    const effectFrame = Phaser.Math.Between(1, 3);
+    const effectSet = effectType || rng(RandomStream.COSMETICS).between(1, 4);
+    const effectFrame = rng(RandomStream.COSMETICS).between(1, 3);
     
     const effect = this.add.image(x, y, `effect_${effectSet}_${effectFrame}`);
     effect.setDepth(DEPTH.EFFECTS);
@@ -1279,7 +1237,7 @@ export class GameScene extends Phaser.Scene {
       targets: effect,
       alpha: 0,
       scale: 0.8,
-      rotation: Math.random() * 0.5,
+      rotation: rng(RandomStream.COSMETICS).next() * 0.5,
       duration: 150,
       onComplete: () => effect.destroy()
     });
@@ -1291,14 +1249,14 @@ export class GameScene extends Phaser.Scene {
   private spawnExplosionEffect(x: number, y: number): void {
     // Use effect sets 5-8 for explosions
     for (let i = 0; i < 4; i++) {
-      const effectSet = Phaser.Math.Between(5, 8);
-      const effectFrame = Phaser.Math.Between(1, 3);
-      const offsetX = (Math.random() - 0.5) * 30;
-      const offsetY = (Math.random() - 0.5) * 30;
+      const effectSet = rng(RandomStream.COSMETICS).between(5, 8);
+      const effectFrame = rng(RandomStream.COSMETICS).between(1, 3);
+      const offsetX = (rng(RandomStream.COSMETICS).next() - 0.5) * 30;
+      const offsetY = (rng(RandomStream.COSMETICS).next() - 0.5) * 30;
       
       const effect = this.add.image(x + offsetX, y + offsetY, `effect_${effectSet}_${effectFrame}`);
       effect.setDepth(DEPTH.EFFECTS);
-      effect.setScale(0.6 + Math.random() * 0.3);
+      effect.setScale(0.6 + rng(RandomStream.COSMETICS).next() * 0.3);
       effect.setTint(0xffaa00);
       
       this.tweens.add({
@@ -1312,108 +1270,6 @@ export class GameScene extends Phaser.Scene {
     }
   }
 
-  private handleProjectileWallCollision: Phaser.Types.Physics.Arcade.ArcadePhysicsCallback = (
-    projectileObj,
-    _tile
-  ): void => {
-    const projectile = projectileObj as Phaser.Physics.Arcade.Sprite & { deactivate: () => void };
-    if (projectile.active) {
-      projectile.deactivate();
-    }
-  };
-
-  private handleAxeEnemyCollision: Phaser.Types.Physics.Arcade.ArcadePhysicsCallback = (
-    axeObj,
-    enemyObj
-  ): void => {
-    const axe = axeObj as Phaser.Physics.Arcade.Sprite & { 
-      getDamage: () => number; 
-      canHitEnemy: (enemy: Enemy) => boolean;
-    };
-    const enemy = enemyObj as Enemy;
-    
-    if (axe.active && enemy.alive && axe.canHitEnemy(enemy)) {
-      const damage = axe.getDamage();
-      enemy.takeDamage(damage);
-      this.spawnDamageNumber(enemy.x, enemy.y, damage);
-      this.spawnHitEffect(enemy.x, enemy.y);
-      // Play axe hit sound
-      this.soundManager.play(SoundEffect.WEAPON_AXE, { volume: 0.5 });
-    }
-  };
-
-  private handleDaggerEnemyCollision: Phaser.Types.Physics.Arcade.ArcadePhysicsCallback = (
-    daggerObj,
-    enemyObj
-  ): void => {
-    const dagger = daggerObj as Phaser.Physics.Arcade.Sprite & { 
-      getDamage: () => number; 
-      deactivate: () => void;
-    };
-    const enemy = enemyObj as Enemy;
-    
-    if (dagger.active && enemy.alive) {
-      const damage = dagger.getDamage();
-      enemy.takeDamage(damage);
-      dagger.deactivate();
-      this.spawnDamageNumber(enemy.x, enemy.y, damage);
-      this.spawnHitEffect(enemy.x, enemy.y);
-      // Play dagger hit sound
-      this.soundManager.play(SoundEffect.WEAPON_DAGGER, { volume: 0.4 });
-    }
-  };
-
-  private handleOrbEnemyCollision: Phaser.Types.Physics.Arcade.ArcadePhysicsCallback = (
-    orbObj,
-    enemyObj
-  ): void => {
-    const orb = orbObj as Phaser.Physics.Arcade.Sprite & { 
-      getDamage: () => number;
-      canDamageEnemy: (enemy: Enemy) => boolean;
-    };
-    const enemy = enemyObj as Enemy;
-    
-    if (orb.active && enemy.alive && orb.canDamageEnemy(enemy)) {
-      const damage = orb.getDamage();
-      enemy.takeDamage(damage);
-      this.spawnDamageNumber(enemy.x, enemy.y, damage);
-    }
-  };
-
-  private handleEnemyProjectilePlayerCollision: Phaser.Types.Physics.Arcade.ArcadePhysicsCallback = (
-    projectileObj,
-    playerObj
-  ): void => {
-    const projectile = projectileObj as Phaser.Physics.Arcade.Sprite & { 
-      getDamage: () => number;
-      deactivate: () => void;
-    };
-    const player = playerObj as Player;
-    
-    if (projectile.active && player.alive) {
-      const damage = projectile.getDamage();
-      const tookDamage = player.takeDamage(damage);
-      projectile.deactivate();
-      
-      if (tookDamage !== false) {
-        // Screen shake on damage
-        this.cameras.main.shake(100, 0.01);
-        // Play player hit sound
-        this.soundManager.play(SoundEffect.PLAYER_HIT);
-      }
-    }
-  };
-
-  private handleEnemyProjectileWallCollision: Phaser.Types.Physics.Arcade.ArcadePhysicsCallback = (
-    projectileObj,
-    _tile
-  ): void => {
-    const projectile = projectileObj as Phaser.Physics.Arcade.Sprite & { deactivate: () => void };
-    if (projectile.active) {
-      projectile.deactivate();
-    }
-  };
-
   private setupMenuKey(): void {
     const keyboard = this.input.keyboard;
     if (!keyboard) return;
@@ -1426,10 +1282,13 @@ export class GameScene extends Phaser.Scene {
       }
     });
 
-    // ESC also closes menu
+    // ESC also closes menu (or leaves a replay)
     keyboard.on('keydown-ESC', () => {
       if (this.menuOpen) {
         this.closePlayerMenu();
+      } else if (this.replayManager.isPlaying()) {
+        this.input.setDefaultCursor('default');
+        this.scene.start('UpgradeMenuScene');
       }
     });
   }
@@ -1437,8 +1296,7 @@ export class GameScene extends Phaser.Scene {
   private openPlayerMenu(): void {
     if (this.menuOpen) return;
     this.menuOpen = true;
-    this.isPaused = true;
-    this.physics.pause();
+    this.setGameplayPaused(true);
 
     // Use screen coordinates for UI camera
     const screenWidth = this.scale.width;
@@ -1459,8 +1317,8 @@ export class GameScene extends Phaser.Scene {
     this.menuElements.push(overlay);
 
     // Menu panel background
-    const panelWidth = 500;
-    const panelHeight = 400;
+    const panelWidth = 900;
+    const panelHeight = 620;
     const panel = this.add.rectangle(centerX, centerY, panelWidth, panelHeight, 0x1a1a2e, 0.98)
       .setStrokeStyle(3, 0x4444ff)
       .setDepth(DEPTH.UI + 11);
@@ -1468,7 +1326,7 @@ export class GameScene extends Phaser.Scene {
     this.menuElements.push(panel);
 
     // Title
-    const title = this.add.text(centerX, centerY - 170, '⚔️ PLAYER STATS ⚔️', {
+    const title = this.add.text(centerX, centerY - 280, '⚔️ PLAYER STATS ⚔️', {
       fontFamily: 'monospace',
       fontSize: '28px',
       color: '#ffff00',
@@ -1479,7 +1337,7 @@ export class GameScene extends Phaser.Scene {
     this.menuElements.push(title);
 
     // Close hint
-    const closeHint = this.add.text(centerX, centerY - 140, 'Press M or ESC to close', {
+    const closeHint = this.add.text(centerX, centerY - 250, 'Press M or ESC to close', {
       fontFamily: 'monospace',
       fontSize: '12px',
       color: '#888888',
@@ -1488,10 +1346,10 @@ export class GameScene extends Phaser.Scene {
     this.menuElements.push(closeHint);
 
     // Stats section
-    const leftX = centerX - 110;
-    const rightX = centerX + 110;
-    let yPos = centerY - 100;
-    const lineHeight = 28;
+    const leftX = centerX - 220;
+    const rightX = centerX + 220;
+    let yPos = centerY - 210;
+    const lineHeight = 24;
 
     // Create stat line helper (adds to UI layer automatically)
     const addStatLine = (label: string, value: string, x: number, y: number, color: string = '#ffffff') => {
@@ -1531,7 +1389,7 @@ export class GameScene extends Phaser.Scene {
     addStatLine('Total XP', `${this.player.getTotalXP()}`, leftX, yPos, '#aa88ff');
 
     // Right column - Combat Stats
-    yPos = centerY - 100;
+    yPos = centerY - 210;
     const combatHeader = this.add.text(rightX, yPos, '⚔️ COMBAT', {
       fontFamily: 'monospace',
       fontSize: '16px',
@@ -1547,13 +1405,16 @@ export class GameScene extends Phaser.Scene {
     yPos += lineHeight;
     addStatLine('Current Wave', `${this.enemySpawner.getWaveNumber()}`, rightX, yPos, '#66aaff');
     yPos += lineHeight;
-    addStatLine('Wand Damage', `${this.projectileManager.getDamage()}`, rightX, yPos, '#ffaa00');
+    const wand = this.weaponManager.getWeapon(WeaponType.WAND);
+    addStatLine('Wand Damage', `${wand?.getConfig().damage ?? 0}`, rightX, yPos, '#ffaa00');
+    yPos += lineHeight;
+    addStatLine('Fire Rate', `${wand?.getCooldown() ?? 0}ms`, rightX, yPos, '#ff6600');
     yPos += lineHeight;
-    addStatLine('Fire Rate', `${this.projectileManager.getFireRate()}ms`, rightX, yPos, '#ff6600');
+    addStatLine('Critical', `${Math.round(this.player.getCritChance() * 100)}% x${this.player.getCritMultiplier()}`, rightX, yPos, '#ffff00');
 
-    // Weapons section
-    yPos = centerY + 60;
-    const weaponHeader = this.add.text(centerX, yPos, '🗡️ WEAPONS', {
+    // Weapons section (left column)
+    yPos = centerY - 30;
+    const weaponHeader = this.add.text(leftX, yPos, '🗡️ WEAPONS', {
       fontFamily: 'monospace',
       fontSize: '16px',
       color: '#ffaa00',
@@ -1562,32 +1423,23 @@ export class GameScene extends Phaser.Scene {
     this.menuElements.push(weaponHeader);
     yPos += 30;
 
-    // Main wand
-    const wandText = this.add.text(centerX, yPos, `✨ Magic Wand - Lvl MAX | DMG: ${this.projectileManager.getDamage()}`, {
-      fontFamily: 'monospace',
-      fontSize: '13px',
-      color: '#00ffff',
-    }).setOrigin(0.5).setDepth(DEPTH.UI + 12);
-    this.addToUILayer(wandText);
-    this.menuElements.push(wandText);
-    yPos += 22;
-
-    // Additional weapons
+    // Every unlocked weapon, starting with the wand
     const activeWeapons = this.weaponManager.getActiveWeapons();
-    if (activeWeapons.length > 0) {
-      activeWeapons.forEach(weapon => {
-        const icon = weapon.type === 'axe' ? '🪓' : weapon.type === 'dagger' ? '🗡️' : '🔮';
-        const weaponLine = this.add.text(centerX, yPos, `${icon} ${weapon.name} - Lvl ${weapon.level} | DMG: ${weapon.damage}`, {
-          fontFamily: 'monospace',
-          fontSize: '13px',
-          color: '#aaffaa',
-        }).setOrigin(0.5).setDepth(DEPTH.UI + 12);
-        this.addToUILayer(weaponLine);
-        this.menuElements.push(weaponLine);
-        yPos += 22;
-      });
-    } else {
-      const noWeapons = this.add.text(centerX, yPos, '(Level up to unlock more weapons!)', {
+    activeWeapons.forEach(weapon => {
+      const { icon, name, startsUnlocked } = weapon.definition;
+      const level = weapon.getLevel() >= weapon.getMaxLevel() ? 'MAX' : `${weapon.getLevel()}`;
+      const weaponLine = this.add.text(leftX, yPos, `${icon} ${name} - Lvl ${level} | DMG: ${weapon.getConfig().damage}`, {
+        fontFamily: 'monospace',
+        fontSize: '13px',
+        color: startsUnlocked ? '#00ffff' : '#aaffaa',
+      }).setOrigin(0.5).setDepth(DEPTH.UI + 12);
+      this.addToUILayer(weaponLine);
+      this.menuElements.push(weaponLine);
+      yPos += 22;
+    });
+
+    if (activeWeapons.every(weapon => weapon.definition.startsUnlocked)) {
+      const noWeapons = this.add.text(leftX, yPos, '(Level up to unlock more weapons!)', {
         fontFamily: 'monospace',
         fontSize: '12px',
         color: '#666666',
@@ -1596,11 +1448,85 @@ export class GameScene extends Phaser.Scene {
       this.menuElements.push(noWeapons);
     }
 
+    // Passives section (right column)
+    yPos = centerY - 30;
+    const passiveHeader = this.add.text(rightX, yPos, '💍 PASSIVES', {
+      fontFamily: 'monospace',
+      fontSize: '16px',
+      color: '#ffcc66',
+    }).setOrigin(0.5).setDepth(DEPTH.UI + 12);
+    this.addToUILayer(passiveHeader);
+    this.menuElements.push(passiveHeader);
+    yPos += 30;
+
+    const passives = this.player.passives.getItems();
+    passives.forEach(({ type, level }) => {
+      const { icon, name, maxLevel } = PASSIVE_ITEMS[type];
+      const levelLabel = level >= maxLevel ? 'MAX' : `${level}/${maxLevel}`;
+      const passiveLine = this.add.text(rightX, yPos, `${icon} ${name} - Lvl ${levelLabel}`, {
+        fontFamily: 'monospace',
+        fontSize: '13px',
+        color: '#ffeeaa',
+      }).setOrigin(0.5).setDepth(DEPTH.UI + 12);
+      this.addToUILayer(passiveLine);
+      this.menuElements.push(passiveLine);
+      yPos += 20;
+    });
+
+    if (passives.length === 0) {
+      const noPassives = this.add.text(rightX, yPos, '(No passive items yet)', {
+        fontFamily: 'monospace',
+        fontSize: '12px',
+        color: '#666666',
+      }).setOrigin(0.5).setDepth(DEPTH.UI + 12);
+      this.addToUILayer(noPassives);
+      this.menuElements.push(noPassives);
+      yPos += 20;
+    }
+
+    // Evolution recipes: weapon + passive item (gold = evolved, green = ready, white = both owned)
+    yPos += 14;
+    const recipeHeader = this.add.text(rightX, yPos, '✨ EVOLUTIONS', {
+      fontFamily: 'monospace',
+      fontSize: '16px',
+      color: '#ff66ff',
+    }).setOrigin(0.5).setDepth(DEPTH.UI + 12);
+    this.addToUILayer(recipeHeader);
+    this.menuElements.push(recipeHeader);
+    yPos += 26;
+
+    this.weaponManager.getWeapons().forEach(weapon => {
+      const evolution = weapon.definition.evolution;
+      if (!evolution) return;
+
+      const passive = evolution.requiredPassive ? PASSIVE_ITEMS[evolution.requiredPassive] : null;
+      const ingredients = passive ? `${weapon.definition.icon} + ${passive.icon}` : weapon.definition.icon;
+      const hasPassive = !evolution.requiredPassive || this.player.passives.has(evolution.requiredPassive);
+      let color = '#777777';
+      if (weapon.isEvolved()) {
+        color = '#ffd700';
+      } else if (weapon.canEvolve(this.player.currentLevel)) {
+        color = '#44ff44';
+      } else if (weapon.isUnlocked() && hasPassive) {
+        color = '#ffffff';
+      }
+
+      const recipeLine = this.add.text(
+        rightX,
+        yPos,
+        `${ingredients} → ${evolution.icon} ${evolution.name} (Lv${evolution.minWeaponLevel}, P${evolution.minPlayerLevel})`,
+        { fontFamily: 'monospace', fontSize: '12px', color }
+      ).setOrigin(0.5).setDepth(DEPTH.UI + 12);
+      this.addToUILayer(recipeLine);
+      this.menuElements.push(recipeLine);
+      yPos += 18;
+    });
+
     // Game time
     const elapsed = Math.floor((this.time.now - this.gameStartTime) / 1000);
     const minutes = Math.floor(elapsed / 60);
     const seconds = elapsed % 60;
-    const timeText = this.add.text(centerX, centerY + 165, `⏱️ Time: ${minutes}:${seconds.toString().padStart(2, '0')} / 5:00`, {
+    const timeText = this.add.text(centerX, centerY + 285, `⏱️ Time: ${minutes}:${seconds.toString().padStart(2, '0')} / 5:00`, {
       fontFamily: 'monospace',
       fontSize: '14px',
       color: '#ffffff',
@@ -1618,8 +1544,20 @@ export class GameScene extends Phaser.Scene {
     this.menuElements = [];
 
     // Resume game
-    this.isPaused = false;
-    this.physics.resume();
+    this.setGameplayPaused(false);
+  }
+
+  /**
+   * Stop or restart game time: physics, timers and the update loop
+   */
+  private setGameplayPaused(paused: boolean): void {
+    this.isPaused = paused;
+    this.timestep.setPaused(paused);
+    if (paused) {
+      this.physics.pause();
+    } else {
+      this.physics.resume();
+    }
   }
 
   private createDebugInfo(): void {
@@ -1644,12 +1582,8 @@ export class GameScene extends Phaser.Scene {
   }
 
   private showLevelUpUI(level: number): void {
-    // Play level up sound
-    this.soundManager.play(SoundEffect.LEVEL_UP);
-    
     // Pause game
-    this.isPaused = true;
-    this.physics.pause();
+    this.setGameplayPaused(true);
 
     // Collect all XP gems when leveling up
     this.xpGemManager.attractAllGems();
@@ -1708,29 +1642,194 @@ export class GameScene extends Phaser.Scene {
     uiElements.push(subtitleText);
 
     // Get 3 random upgrades
-    const upgrades = this.upgradeSystem.getRandomUpgrades(3);
-    const cardWidth = 160;
-    const cardHeight = 180;
+    let upgrades = this.upgradeSystem.getRandomUpgrades(3);
+    const cardWidth = 180;
+    const cardHeight = 230;
     const cardSpacing = 20;
     const totalWidth = (cardWidth * 3) + (cardSpacing * 2);
     const startX = centerX - totalWidth / 2 + cardWidth / 2;
     const cardY = centerY + 20;
 
-    // Create upgrade cards
-    upgrades.forEach((upgrade, index) => {
-      const cardX = startX + index * (cardWidth + cardSpacing);
-      this.createUpgradeCard(cardX, cardY, cardWidth, cardHeight, upgrade, uiElements, () => {
-        // Apply upgrade
-        this.upgradeSystem.applyUpgrade(upgrade);
-        
-        // Clean up UI
-        uiElements.forEach(el => el.destroy());
-        
-        // Resume game
-        this.isPaused = false;
-        this.physics.resume();
+    // Cards and buttons are rebuilt after every reroll or banish
+    let handElements: Phaser.GameObjects.GameObject[] = [];
+    let banishing = false;
+    let closed = false;
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+
+      // Clean up UI
+      uiElements.forEach(el => el.destroy());
+      handElements.forEach(el => el.destroy());
+
+      // Resume game
+      this.setGameplayPaused(false);
+    };
+
+    const record = (upgradeName: string, action?: LevelUpAction) => {
+      if (!this.replayManager.isPlaying()) {
+        this.replayManager.recordChoice(level, upgradeName, action);
+      }
+    };
+
+    const selectUpgrade = (upgrade: Upgrade) => {
+      if (closed) return;
+
+      if (banishing) {
+        if (this.upgradeSystem.banish(upgrade)) {
+          record(upgrade.name, 'banish');
+          upgrades = this.upgradeSystem.getRandomUpgrades(3);
+        }
+        banishing = false;
+        renderHand();
+        return;
+      }
+
+      // Apply upgrade and record the choice for replays
+      this.upgradeSystem.applyUpgrade(upgrade);
+      record(upgrade.name);
+      close();
+    };
+
+    const reroll = () => {
+      if (closed || !this.upgradeSystem.useReroll()) return;
+      record('', 'reroll');
+      upgrades = this.upgradeSystem.getRandomUpgrades(3);
+      banishing = false;
+      renderHand();
+    };
+
+    const skip = () => {
+      if (closed || !this.upgradeSystem.useSkip()) return;
+      record('', 'skip');
+      close();
+    };
+
+    const renderHand = () => {
+      handElements.forEach(el => el.destroy());
+      handElements = [];
+
+      // Nothing left to offer (everything maxed or banished)
+      if (upgrades.length === 0) {
+        close();
+        return;
+      }
+
+      subtitleText.setText(banishing ? 'Choose a card to banish:' : 'Choose an upgrade:');
+      subtitleText.setColor(banishing ? '#ff6666' : '#ffffff');
+
+      // Create upgrade cards
+      upgrades.forEach((upgrade, index) => {
+        const cardX = startX + index * (cardWidth + cardSpacing);
+        this.createUpgradeCard(cardX, cardY, cardWidth, cardHeight, upgrade, handElements, () => {
+          // Cards can't be clicked while watching a replay
+          if (!this.replayManager.isPlaying()) {
+            selectUpgrade(upgrade);
+          }
+        });
       });
-    });
+
+      // Reroll / skip / banish buttons with their remaining charges
+      const charges = this.upgradeSystem.getCharges();
+      const buttonY = cardY + cardHeight / 2 + 45;
+      const buttons = [
+        { label: `🎲 Reroll (${charges.rerolls})`, enabled: charges.rerolls > 0, onClick: reroll },
+        { label: `⏭️ Skip (${charges.skips})`, enabled: charges.skips > 0, onClick: skip },
+        {
+          label: banishing ? '✖ Cancel' : `🚫 Banish (${charges.banishes})`,
+          enabled: charges.banishes > 0,
+          onClick: () => {
+            banishing = !banishing;
+            renderHand();
+          },
+        },
+      ];
+      buttons.forEach((button, index) => {
+        const buttonX = startX + index * (cardWidth + cardSpacing);
+        this.createLevelUpButton(buttonX, buttonY, cardWidth, button.label, button.enabled, handElements, () => {
+          if (!this.replayManager.isPlaying()) button.onClick();
+        });
+      });
+    };
+
+    renderHand();
+
+    // Replay repeats the recorded steps after short pauses so they can be seen
+    // (counted in real time, the scene's clock is paused with the game)
+    if (this.replayManager.isPlaying()) {
+      const steps = this.replayManager.getChoices(level);
+      const playStep = (index: number) => {
+        this.tweens.addCounter({
+          duration: 600,
+          onComplete: () => {
+            if (closed) return;
+
+            const step = steps[index];
+            const card = upgrades.find(u => u.name === step?.upgrade);
+            if (step?.action === 'reroll') {
+              reroll();
+            } else if (step?.action === 'skip') {
+              skip();
+            } else if (step?.action === 'banish') {
+              if (card) {
+                banishing = true;
+                selectUpgrade(card);
+              }
+            } else {
+              const upgrade = card ?? upgrades[0];
+              if (upgrade) {
+                selectUpgrade(upgrade);
+              } else {
+                close();
+              }
+            }
+
+            if (!closed) playStep(index + 1);
+          },
+        });
+      };
+      playStep(0);
+    }
+  }
+
+  /**
+   * Small button under the level-up cards (dimmed when out of charges)
+   */
+  private createLevelUpButton(
+    x: number,
+    y: number,
+    width: number,
+    label: string,
+    enabled: boolean,
+    uiElements: Phaser.GameObjects.GameObject[],
+    onClick: () => void
+  ): Phaser.GameObjects.Container {
+    const container = this.add.container(x, y);
+    container.setDepth(DEPTH.UI + 12);
+    this.addToUILayer(container);
+    uiElements.push(container);
+
+    const bg = this.add.rectangle(0, 0, width, 32, enabled ? 0x333344 : 0x222222, 0.95)
+      .setStrokeStyle(2, enabled ? 0x8888ff : 0x444444);
+    const text = this.add.text(0, 0, label, {
+      fontFamily: 'monospace',
+      fontSize: '13px',
+      color: enabled ? '#ffffff' : '#666666',
+    }).setOrigin(0.5);
+    container.add([bg, text]);
+
+    if (enabled) {
+      bg.setInteractive({ useHandCursor: true });
+      bg.on('pointerover', () => bg.setFillStyle(0x444466));
+      bg.on('pointerout', () => bg.setFillStyle(0x333344));
+      bg.on('pointerup', () => {
+        this.soundManager.play(SoundEffect.UI_CLICK);
+        onClick();
+      });
+    }
+
+    return container;
   }
 
   private createUpgradeCard(
@@ -1747,29 +1846,73 @@ export class GameScene extends Phaser.Scene {
     this.addToUILayer(container);
     uiElements.push(container);
 
-    // Card background
+    // Evolutions get a pulsing glow so the guaranteed card stands out
+    const rarity = upgrade.rarity ? RARITIES[upgrade.rarity] : null;
+    if (upgrade.isEvolution) {
+      const glow = this.add.rectangle(0, 0, width + 14, height + 14, upgrade.color, 0.35);
+      container.add(glow);
+      this.tweens.add({
+        targets: glow,
+        alpha: { from: 0.15, to: 0.6 },
+        duration: 600,
+        yoyo: true,
+        repeat: -1,
+        ease: 'Sine.easeInOut',
+      });
+      glow.once(Phaser.GameObjects.Events.DESTROY, () => this.tweens.killTweensOf(glow));
+    }
+
+    // Card background framed in its rarity's colour (stat cards only, the rest in their own)
+    const frameColor = rarity?.color ?? upgrade.color;
     const bg = this.add.rectangle(0, 0, width, height, 0x333344, 0.95)
-      .setStrokeStyle(3, upgrade.color);
+      .setStrokeStyle(upgrade.isEvolution ? 5 : 3, frameColor);
     container.add(bg);
 
+    // Rarity label
+    const label = upgrade.isEvolution ? '★ EVOLUTION ★' : rarity?.name.toUpperCase();
+    if (label) {
+      const rarityText = this.add.text(0, -height / 2 + 12, label, {
+        fontFamily: 'monospace',
+        fontSize: '10px',
+        color: `#${frameColor.toString(16).padStart(6, '0')}`,
+        stroke: '#000000',
+        strokeThickness: 2,
+      }).setOrigin(0.5);
+      container.add(rarityText);
+    }
+
+    // NEW / MAX badge in the corner
+    if (upgrade.badge) {
+      const badgeX = width / 2 - 22;
+      const badgeY = -height / 2 + 12;
+      const badgeBg = this.add.rectangle(badgeX, badgeY, 34, 14, upgrade.badge === 'NEW' ? 0x44aa44 : 0xffaa00);
+      const badgeText = this.add.text(badgeX, badgeY, upgrade.badge, {
+        fontFamily: 'monospace',
+        fontSize: '9px',
+        color: '#000000',
+        fontStyle: 'bold',
+      }).setOrigin(0.5);
+      container.add([badgeBg, badgeText]);
+    }
+
     // Icon
-    const icon = this.add.text(0, -50, upgrade.icon, {
+    const icon = this.add.text(0, -70, upgrade.icon, {
       fontSize: '40px',
     }).setOrigin(0.5);
     container.add(icon);
 
     // Name
-    const name = this.add.text(0, 0, upgrade.name, {
+    const name = this.add.text(0, -28, upgrade.name, {
       fontFamily: 'monospace',
       fontSize: '14px',
-      color: '#ffffff',
+      color: `#${upgrade.color.toString(16).padStart(6, '0')}`,
       align: 'center',
       wordWrap: { width: width - 20 },
     }).setOrigin(0.5);
     container.add(name);
 
     // Description
-    const desc = this.add.text(0, 40, upgrade.description, {
+    const desc = this.add.text(0, 4, upgrade.description, {
       fontFamily: 'monospace',
       fontSize: '10px',
       color: '#aaaaaa',
@@ -1778,6 +1921,16 @@ export class GameScene extends Phaser.Scene {
     }).setOrigin(0.5);
     container.add(desc);
 
+    // Concrete before -> after values
+    this.upgradeSystem.getPreview(upgrade).slice(0, 5).forEach((change, index) => {
+      const line = this.add.text(0, 38 + index * 15, `${change.label} ${change.before} → ${change.after}`, {
+        fontFamily: 'monospace',
+        fontSize: '10px',
+        color: '#88ff88',
+      }).setOrigin(0.5);
+      container.add(line);
+    });
+
     // Make interactive
     bg.setInteractive({ useHandCursor: true });
     
@@ -1809,7 +1962,7 @@ export class GameScene extends Phaser.Scene {
 
     // Spawn portal near player
     const spawnDistance = 150;
-    const angle = Math.random() * Math.PI * 2;
+    const angle = rng(RandomStream.LOOT).angle();
     const portalX = this.player.x + Math.cos(angle) * spawnDistance;
     const portalY = this.player.y + Math.sin(angle) * spawnDistance;
 
@@ -1934,6 +2087,25 @@ export class GameScene extends Phaser.Scene {
     }).setOrigin(0.5);
     
     this.bossHPBarContainer.add([bg, hpBg, this.bossHPBar, bossName, this.bossHPText]);
+
+    // Phase markers where each later phase begins, plus the current phase
+    if (boss instanceof Boss && boss.getPhaseCount() > 1) {
+      boss.getPhaseThresholds().forEach((threshold) => {
+        const markerX = -barWidth / 2 + barWidth * threshold;
+        const marker = this.add.rectangle(markerX, 0, 2, barHeight + 6, 0xffffff, 0.9);
+        this.bossHPBarContainer?.add(marker);
+      });
+
+      this.bossPhaseText = this.add.text(barWidth / 2, -25, `PHASE ${boss.getPhaseNumber()}/${boss.getPhaseCount()}`, {
+        fontFamily: 'monospace',
+        fontSize: '12px',
+        color: '#ffcc00',
+        stroke: '#000000',
+        strokeThickness: 2,
+      }).setOrigin(1, 0.5);
+      this.bossHPBarContainer.add(this.bossPhaseText);
+    }
+
     this.addToUILayer(this.bossHPBarContainer);
   }
   
@@ -1962,6 +2134,23 @@ export class GameScene extends Phaser.Scene {
     this.bossHPText.setText(`${this.currentBoss.hp}/${this.currentBoss.maxHealth}`);
   }
   
+  /**
+   * Boss entered a new phase: update the indicator and make it felt
+   */
+  private onBossPhaseChanged(boss: Enemy, phase: number, phases: number): void {
+    this.cameras.main.shake(400, 0.015);
+    this.showNotification(`⚠️ The boss grows stronger! (Phase ${phase}) ⚠️`, 0xff4400);
+
+    if (boss !== this.currentBoss || !this.bossPhaseText) return;
+    this.bossPhaseText.setText(`PHASE ${phase}/${phases}`);
+    this.tweens.add({
+      targets: this.bossPhaseText,
+      scale: { from: 1.6, to: 1 },
+      duration: 400,
+      ease: 'Back.easeOut',
+    });
+  }
+
   /**
    * Hide boss HP bar
    */
@@ -1972,6 +2161,7 @@ export class GameScene extends Phaser.Scene {
     }
     this.bossHPBar = null;
     this.bossHPText = null;
+    this.bossPhaseText = null;
     this.currentBoss = null;
   }
 
@@ -2039,6 +2229,31 @@ export class GameScene extends Phaser.Scene {
     // Restore default cursor before leaving scene
     this.input.setDefaultCursor('default');
 
+    // Watching a replay doesn't award anything
+    if (this.replayManager.isPlaying()) {
+      this.scene.start(SCENE_KEYS.GAME_OVER, {
+        score: this.score,
+        enemiesKilled: this.enemiesKilled,
+        timeSurvived: timeSurvived,
+        levelReached: this.player.currentLevel,
+        victory: victory,
+        goldEarned: this.sessionGold,
+        bossesKilled: this.bossesKilled,
+        seed: this.runSeed,
+        isReplay: true,
+      });
+      return;
+    }
+
+    // Save replay of this run
+    ReplayManager.saveReplay(
+      this.replayManager.finishRecording(this.runSeed ?? '', this.mapType, this.runLoadout, {
+        score: this.score,
+        duration: timeSurvived,
+        victory: victory,
+      })
+    );
+
     // Track achievements
     this.achievementTracker.trackTime(timeSurvived);
     if (victory) {
@@ -2065,29 +2280,33 @@ export class GameScene extends Phaser.Scene {
       victory: victory,
       goldEarned: this.sessionGold,
       bossesKilled: this.bossesKilled,
+      seed: this.runSeed,
     });
   }
 
   update(time: number, delta: number): void {
     if (this.isPaused) return;
 
+    // Feed recorded input during replays, otherwise record keyboard input
+    if (this.replayManager.isPlaying()) {
+      this.player.setInputOverride(this.replayManager.nextInput());
+    } else {
+      this.replayManager.recordInput(this.player.getKeyboardInput());
+    }
+
     // Update player
     this.player.update(time, delta);
 
     // Update enemy spawner
     this.enemySpawner.update(time, delta);
 
-    // Update projectile manager (auto-aims at nearest enemy)
-    this.projectileManager.update(
-      delta,
-      this.player.x,
-      this.player.y
-    );
-
     // Update XP gem manager
     this.xpGemManager.update(delta);
 
-    // Update weapon manager (axes, daggers, orbs)
+    // Update character ability (rage threshold)
+    this.characterAbilityManager.update(delta);
+
+    // Update weapon manager (auto-aims at nearest enemy)
     this.weaponManager.update(delta);
 
     // Update enemy projectiles
@@ -2,11 +2,21 @@ import Phaser from 'phaser';
 import { SCENE_KEYS } from '../config/Constants';
 import { GAME_WIDTH, GAME_HEIGHT } from '../config/GameConfig';
 import { MetaProgressionManager } from '../systems/MetaProgressionManager';
+import { RandomManager, SEED_LENGTH } from '../systems/RandomManager';
+import { MapType } from '../systems/DungeonGenerator';
 
 /**
  * MainMenuScene - Title screen with start game button
  */
 export class MainMenuScene extends Phaser.Scene {
+  // Seed entry (empty = random seed)
+  private seedInput: string = '';
+  private seedText!: Phaser.GameObjects.Text;
+  private editingSeed: boolean = false;
+
+  // Map the next run is played on
+  private mapType: MapType = MapType.ARENA;
+
   constructor() {
     super({ key: SCENE_KEYS.MAIN_MENU });
   }
@@ -17,6 +27,7 @@ export class MainMenuScene extends Phaser.Scene {
 
     // Ensure cursor is visible
     this.input.setDefaultCursor('default');
+    this.editingSeed = false;
 
     // Animated background particles
     this.createBackgroundParticles();
@@ -60,7 +71,7 @@ export class MainMenuScene extends Phaser.Scene {
     this.createButton(centerX, centerY + 30, '▶ START GAME', () => {
       this.cameras.main.fadeOut(500, 0, 0, 0);
       this.time.delayedCall(500, () => {
-        this.scene.start(SCENE_KEYS.GAME);
+        this.scene.start(SCENE_KEYS.GAME, { seed: this.seedInput || undefined, mapType: this.mapType });
       });
     });
 
@@ -72,6 +83,10 @@ export class MainMenuScene extends Phaser.Scene {
       });
     }, 0x6a4a6a, 0x8a6a8a);
 
+    // Seed entry and map choice
+    this.createSeedInput(centerX - 110, centerY + 130);
+    this.createMapToggle(centerX + 170, centerY + 130);
+
     // Gold display
     const metaManager = MetaProgressionManager.getInstance();
     const goldDisplay = this.add.text(centerX, centerY - 10, `💰 ${metaManager.getGold()} Gold`, {
@@ -121,6 +136,73 @@ export class MainMenuScene extends Phaser.Scene {
     this.cameras.main.fadeIn(800, 0, 0, 0);
   }
 
+  /**
+   * Clickable seed field - click to type a seed, Enter/Escape to finish
+   */
+  private createSeedInput(x: number, y: number): void {
+    this.seedText = this.add.text(x, y, '', {
+      fontFamily: 'monospace',
+      fontSize: '14px',
+      color: '#88aaff',
+      stroke: '#000000',
+      strokeThickness: 2,
+    });
+    this.seedText.setOrigin(0.5);
+    this.seedText.setInteractive({ useHandCursor: true });
+    this.seedText.on('pointerup', () => {
+      this.editingSeed = !this.editingSeed;
+      this.updateSeedText();
+    });
+    this.updateSeedText();
+
+    this.input.keyboard?.on('keydown', (event: KeyboardEvent) => {
+      if (!this.editingSeed) return;
+
+      if (event.key === 'Enter' || event.key === 'Escape') {
+        this.editingSeed = false;
+      } else if (event.key === 'Backspace') {
+        this.seedInput = this.seedInput.slice(0, -1);
+      } else if (event.key.length === 1 && this.seedInput.length < SEED_LENGTH) {
+        this.seedInput = RandomManager.normalizeSeed(this.seedInput + event.key);
+      }
+      this.updateSeedText();
+    });
+  }
+
+  /**
+   * Clickable map choice - switches between the open arena and caves
+   */
+  private createMapToggle(x: number, y: number): void {
+    const mapText = this.add.text(x, y, '', {
+      fontFamily: 'monospace',
+      fontSize: '14px',
+      color: '#88aaff',
+      stroke: '#000000',
+      strokeThickness: 2,
+    });
+    mapText.setOrigin(0.5);
+    mapText.setInteractive({ useHandCursor: true });
+
+    const updateText = () => {
+      mapText.setText(`🗺️ Map: ${this.mapType === MapType.CAVE ? 'CAVES' : 'ARENA'} (click to change)`);
+    };
+    mapText.on('pointerup', () => {
+      this.mapType = this.mapType === MapType.CAVE ? MapType.ARENA : MapType.CAVE;
+      updateText();
+    });
+    updateText();
+  }
+
+  private updateSeedText(): void {
+    if (this.editingSeed) {
+      this.seedText.setText(`🎲 Seed: ${this.seedInput}_`);
+      this.seedText.setColor('#ffffff');
+    } else {
+      this.seedText.setText(`🎲 Seed: ${this.seedInput || 'RANDOM'} (click to edit)`);
+      this.seedText.setColor('#88aaff');
+    }
+  }
+
   private createBackgroundParticles(): void {
     // Create floating particles for atmosphere
     for (let i = 0; i < 30; i++) {
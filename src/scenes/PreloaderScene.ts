@@ -373,7 +373,47 @@ export class PreloaderScene extends Phaser.Scene {
     
     gemGraphics.generateTexture('xp_gem', 16, 16);
     gemGraphics.destroy();
-    
+
+    // Holy water pool (soft blue puddle, scaled to the pool radius)
+    const poolGraphics = this.make.graphics({ x: 0, y: 0 });
+    poolGraphics.fillStyle(0x3399ff, 0.35);
+    poolGraphics.fillCircle(32, 32, 32);
+    poolGraphics.fillStyle(0x66ccff, 0.35);
+    poolGraphics.fillCircle(32, 32, 24);
+    poolGraphics.lineStyle(2, 0xaaeeff, 0.8);
+    poolGraphics.strokeCircle(32, 32, 31);
+    poolGraphics.generateTexture('holy_water_pool', 64, 64);
+    poolGraphics.destroy();
+
+    // Proximity mine (dark casing with a red light)
+    const mineGraphics = this.make.graphics({ x: 0, y: 0 });
+    mineGraphics.fillStyle(0x333333, 1);
+    mineGraphics.fillCircle(8, 8, 7);
+    mineGraphics.lineStyle(1, 0x888888, 1);
+    mineGraphics.strokeCircle(8, 8, 7);
+    mineGraphics.fillStyle(0xff3333, 1);
+    mineGraphics.fillCircle(8, 8, 2);
+    mineGraphics.generateTexture('mine', 16, 16);
+    mineGraphics.destroy();
+
+    // Beam (white so it can be tinted; stretched along x to the beam length)
+    const beamGraphics = this.make.graphics({ x: 0, y: 0 });
+    beamGraphics.fillStyle(0xffffff, 0.3);
+    beamGraphics.fillRect(0, 0, 16, 8);
+    beamGraphics.fillStyle(0xffffff, 1);
+    beamGraphics.fillRect(0, 2, 16, 4);
+    beamGraphics.generateTexture('beam', 16, 8);
+    beamGraphics.destroy();
+
+    // Enemy bullet (white orb so patterns can tint it)
+    const bulletGraphics = this.make.graphics({ x: 0, y: 0 });
+    bulletGraphics.fillStyle(0xffffff, 0.4);
+    bulletGraphics.fillCircle(8, 8, 8);
+    bulletGraphics.fillStyle(0xffffff, 1);
+    bulletGraphics.fillCircle(8, 8, 5);
+    bulletGraphics.generateTexture('enemy_bullet', 16, 16);
+    bulletGraphics.destroy();
+
     // Create generated textures for space station and materials
     // (fallbacks in case large image files fail to load)
     this.createSpaceStationTextures();
@@ -6,6 +6,7 @@ import {
   PERMANENT_UPGRADES, 
   CHARACTERS,
 } from '../systems/MetaProgressionManager';
+import { ReplayManager, ReplaySlot } from '../systems/ReplayManager';
 
 type MenuTab = 'upgrades' | 'characters' | 'achievements' | 'stats';
 
@@ -444,6 +445,9 @@ export class UpgradeMenuScene extends Phaser.Scene {
       this.contentContainer.add(container);
     });
     
+    // Saved replays
+    this.showReplays(centerX, startY + 270);
+    
     // Reset button at bottom
     const resetBtn = this.createButton(GAME_WIDTH - 120, GAME_HEIGHT - 40, '🗑️ RESET', () => {
       // Show confirmation
@@ -452,6 +456,40 @@ export class UpgradeMenuScene extends Phaser.Scene {
     this.contentContainer.add(resetBtn);
   }
 
+  private showReplays(centerX: number, y: number): void {
+    const title = this.add.text(centerX, y, '🎬 Replays', {
+      fontFamily: 'monospace',
+      fontSize: '16px',
+      color: '#ff66ff',
+    }).setOrigin(0.5);
+    this.contentContainer.add(title);
+    
+    const slots: { slot: ReplaySlot; label: string }[] = [
+      { slot: 'best', label: 'Best Run' },
+      { slot: 'last', label: 'Last Run' },
+    ];
+    
+    slots.forEach((entry, i) => {
+      const rowY = y + 40 + i * 40;
+      const replay = ReplayManager.loadReplay(entry.slot);
+      const info = replay
+        ? `${entry.label}: ${replay.score.toLocaleString()} pts | ${this.formatTime(replay.duration)} | ${replay.victory ? 'Victory' : 'Defeat'} | Seed ${replay.seed}`
+        : `${entry.label}: none recorded`;
+      
+      const label = this.add.text(centerX - 300, rowY, info, {
+        fontFamily: 'monospace',
+        fontSize: '12px',
+        color: replay ? '#ffffff' : '#666666',
+      }).setOrigin(0, 0.5);
+      
+      const watchBtn = this.createSmallButton(centerX + 300, rowY, '▶ WATCH', replay !== null, () => {
+        this.scene.start(SCENE_KEYS.GAME, { replay });
+      });
+      
+      this.contentContainer.add([label, watchBtn]);
+    });
+  }
+
   private showResetConfirmation(): void {
     const overlay = this.add.rectangle(GAME_WIDTH/2, GAME_HEIGHT/2, GAME_WIDTH, GAME_HEIGHT, 0x000000, 0.8);
     overlay.setDepth(100);
@@ -0,0 +1,101 @@
+import Phaser from 'phaser';
+import { Player, MovementInput } from '../entities/Player';
+import { Enemy } from '../entities/Enemy';
+import { Upgrade } from '../systems/UpgradeSystem';
+import { MAP_WIDTH, MAP_HEIGHT } from '../config/Constants';
+
+const THREAT_RADIUS = 180;     // Enemies closer than this push the bot away
+const EDGE_MARGIN = 200;       // Steer back toward the center near map edges
+const INPUT_DEADZONE = 0.3;    // Minimum steering component to press a key
+
+/**
+ * SimulationBot - Scripted player for headless balance runs
+ * Kites away from nearby enemies, drifts toward gems, and takes upgrades by priority
+ */
+export class SimulationBot {
+  private player: Player;
+
+  constructor(player: Player) {
+    this.player = player;
+  }
+
+  /**
+   * Decide movement input for this step
+   */
+  public getInput(enemies: Phaser.GameObjects.Group, gems: Phaser.GameObjects.Group): MovementInput {
+    let steerX = 0;
+    let steerY = 0;
+
+    // Flee from nearby enemies (closer = stronger)
+    enemies.getChildren().forEach((obj) => {
+      const enemy = obj as Enemy;
+      if (!enemy.active || !enemy.alive) return;
+
+      const dx = this.player.x - enemy.x;
+      const dy = this.player.y - enemy.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      if (distance > 0 && distance < THREAT_RADIUS) {
+        const weight = (THREAT_RADIUS - distance) / THREAT_RADIUS;
+        steerX += (dx / distance) * weight * (enemy.isBoss ? 3 : 1);
+        steerY += (dy / distance) * weight * (enemy.isBoss ? 3 : 1);
+      }
+    });
+
+    // With no threats, drift toward the nearest gem
+    if (steerX === 0 && steerY === 0) {
+      const gem = this.findNearest(gems);
+      if (gem) {
+        steerX = gem.x - this.player.x;
+        steerY = gem.y - this.player.y;
+      }
+    }
+
+    // Stay away from the map edges
+    if (this.player.x < EDGE_MARGIN) steerX += 1;
+    if (this.player.x > MAP_WIDTH - EDGE_MARGIN) steerX -= 1;
+    if (this.player.y < EDGE_MARGIN) steerY += 1;
+    if (this.player.y > MAP_HEIGHT - EDGE_MARGIN) steerY -= 1;
+
+    const length = Math.sqrt(steerX * steerX + steerY * steerY);
+    if (length === 0) {
+      return { left: false, right: false, up: false, down: false };
+    }
+
+    const nx = steerX / length;
+    const ny = steerY / length;
+    return {
+      left: nx < -INPUT_DEADZONE,
+      right: nx > INPUT_DEADZONE,
+      up: ny < -INPUT_DEADZONE,
+      down: ny > INPUT_DEADZONE,
+    };
+  }
+
+  /**
+   * Pick a level-up card: evolutions first, then weapons, then stats
+   */
+  public chooseUpgrade(upgrades: Upgrade[]): Upgrade | null {
+    return upgrades.find(u => u.isEvolution)
+      ?? upgrades.find(u => u.isWeapon)
+      ?? upgrades[0]
+      ?? null;
+  }
+
+  private findNearest(group: Phaser.GameObjects.Group): Phaser.GameObjects.Sprite | null {
+    let nearest: Phaser.GameObjects.Sprite | null = null;
+    let nearestDistance = Infinity;
+
+    group.getChildren().forEach((obj) => {
+      const sprite = obj as Phaser.GameObjects.Sprite;
+      if (!sprite.active) return;
+
+      const distance = Phaser.Math.Distance.Between(this.player.x, this.player.y, sprite.x, sprite.y);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = sprite;
+      }
+    });
+
+    return nearest;
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * SimulationMetrics - Collects balance metrics for a single headless run
+ */
+
+export interface TimeToKillStats {
+  kills: number;
+  averageMs: number;
+  minMs: number;
+  maxMs: number;
+}
+
+export interface RunMetrics {
+  seed: string;
+  durationMs: number;
+  survived: boolean;
+  deathTimeMs: number | null;
+  finalLevel: number;
+  waveReached: number;
+  totalKills: number;
+  levelCurve: { level: number; timeMs: number }[];
+  timeToKill: Record<string, TimeToKillStats>;
+  damageTaken: Record<string, number>;
+  upgradesTaken: string[];
+}
+
+export interface SimulationSummary {
+  runs: number;
+  survivalRate: number;
+  averageDeathTimeMs: number | null;
+  averageFinalLevel: number;
+  averageKills: number;
+  averageLevelTimeMs: Record<number, number>;
+  timeToKill: Record<string, TimeToKillStats>;
+  damageTaken: Record<string, number>;
+}
+
+export class SimulationMetrics {
+  private seed: string;
+  private levelCurve: { level: number; timeMs: number }[] = [];
+  private killTimes: Map<string, number[]> = new Map();
+  private damageTaken: Map<string, number> = new Map();
+  private upgradesTaken: string[] = [];
+  private deathTimeMs: number | null = null;
+
+  constructor(seed: string) {
+    this.seed = seed;
+  }
+
+  public recordLevelUp(level: number, timeMs: number): void {
+    this.levelCurve.push({ level, timeMs });
+  }
+
+  public recordKill(enemyType: string, aliveMs: number): void {
+    const times = this.killTimes.get(enemyType) ?? [];
+    times.push(aliveMs);
+    this.killTimes.set(enemyType, times);
+  }
+
+  public recordDamage(source: string, amount: number): void {
+    this.damageTaken.set(source, (this.damageTaken.get(source) ?? 0) + amount);
+  }
+
+  public recordUpgrade(name: string): void {
+    this.upgradesTaken.push(name);
+  }
+
+  public recordDeath(timeMs: number): void {
+    this.deathTimeMs = timeMs;
+  }
+
+  /**
+   * Build the final metrics for this run
+   */
+  public finish(durationMs: number, finalLevel: number, waveReached: number): RunMetrics {
+    const timeToKill: Record<string, TimeToKillStats> = {};
+    let totalKills = 0;
+
+    this.killTimes.forEach((times, type) => {
+      timeToKill[type] = summarizeTimes(times);
+      totalKills += times.length;
+    });
+
+    return {
+      seed: this.seed,
+      durationMs,
+      survived: this.deathTimeMs === null,
+      deathTimeMs: this.deathTimeMs,
+      finalLevel,
+      waveReached,
+      totalKills,
+      levelCurve: this.levelCurve,
+      timeToKill,
+      damageTaken: Object.fromEntries(this.damageTaken),
+      upgradesTaken: this.upgradesTaken,
+    };
+  }
+}
+
+function summarizeTimes(times: number[]): TimeToKillStats {
+  const total = times.reduce((sum, t) => sum + t, 0);
+  return {
+    kills: times.length,
+    averageMs: times.length > 0 ? Math.round(total / times.length) : 0,
+    minMs: times.length > 0 ? Math.round(Math.min(...times)) : 0,
+    maxMs: times.length > 0 ? Math.round(Math.max(...times)) : 0,
+  };
+}
+
+/**
+ * Aggregate metrics across many runs
+ */
+export function summarizeRuns(runs: RunMetrics[]): SimulationSummary {
+  const count = Math.max(1, runs.length);
+  const deaths = runs.filter(r => r.deathTimeMs !== null).map(r => r.deathTimeMs as number);
+
+  // Average time to reach each level (over runs that reached it)
+  const levelTimes = new Map<number, number[]>();
+  runs.forEach(run => run.levelCurve.forEach(({ level, timeMs }) => {
+    const times = levelTimes.get(level) ?? [];
+    times.push(timeMs);
+    levelTimes.set(level, times);
+  }));
+  const averageLevelTimeMs: Record<number, number> = {};
+  levelTimes.forEach((times, level) => {
+    averageLevelTimeMs[level] = Math.round(times.reduce((sum, t) => sum + t, 0) / times.length);
+  });
+
+  // Merge time-to-kill weighted by kills
+  const timeToKill: Record<string, TimeToKillStats> = {};
+  runs.forEach(run => Object.entries(run.timeToKill).forEach(([type, stats]) => {
+    const merged = timeToKill[type];
+    if (!merged) {
+      timeToKill[type] = { ...stats };
+      return;
+    }
+    const kills = merged.kills + stats.kills;
+    merged.averageMs = Math.round((merged.averageMs * merged.kills + stats.averageMs * stats.kills) / kills);
+    merged.minMs = Math.min(merged.minMs, stats.minMs);
+    merged.maxMs = Math.max(merged.maxMs, stats.maxMs);
+    merged.kills = kills;
+  }));
+
+  // Average damage taken per source per run
+  const damageTaken: Record<string, number> = {};
+  runs.forEach(run => Object.entries(run.damageTaken).forEach(([source, amount]) => {
+    damageTaken[source] = (damageTaken[source] ?? 0) + amount / count;
+  }));
+  Object.keys(damageTaken).forEach(source => {
+    damageTaken[source] = Math.round(damageTaken[source]);
+  });
+
+  return {
+    runs: runs.length,
+    survivalRate: runs.filter(r => r.survived).length / count,
+    averageDeathTimeMs: deaths.length > 0
+      ? Math.round(deaths.reduce((sum, t) => sum + t, 0) / deaths.length)
+      : null,
+    averageFinalLevel: runs.reduce((sum, r) => sum + r.finalLevel, 0) / count,
+    averageKills: runs.reduce((sum, r) => sum + r.totalKills, 0) / count,
+    averageLevelTimeMs,
+    timeToKill,
+    damageTaken,
+  };
+}
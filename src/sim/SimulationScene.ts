@@ -0,0 +1,268 @@
+import Phaser from 'phaser';
+import { MAP_WIDTH, MAP_HEIGHT, GAME_DURATION, PLAYER_MAX_HP } from '../config/Constants';
+import { Player } from '../entities/Player';
+import { Enemy, ENEMY_TYPES, BOSS_TYPES } from '../entities/Enemy';
+import { EnemySpawner } from '../systems/EnemySpawner';
+import { XPGemManager } from '../systems/XPGemManager';
+import { UpgradeSystem, Upgrade } from '../systems/UpgradeSystem';
+import { WeaponManager } from '../systems/WeaponManager';
+import { EnemyProjectileManager } from '../systems/EnemyProjectileManager';
+import { RandomManager } from '../systems/RandomManager';
+import { GameEventBus } from '../systems/GameEventBus';
+import { createRunSystems, setupRunCollision, RunSystems } from '../systems/RunSetup';
+import { FixedTimestep } from '../systems/FixedTimestep';
+import { ReplayManager, ReplayData } from '../systems/ReplayManager';
+import { MapType } from '../systems/DungeonGenerator';
+import type { RunLoadout } from '../systems/MetaProgressionManager';
+import { SimulationBot } from './SimulationBot';
+import { SimulationMetrics, RunMetrics } from './SimulationMetrics';
+
+export const SIMULATION_SCENE_KEY = 'SimulationScene';
+
+/**
+ * What the bot starts with: the base player, no character or meta upgrades
+ */
+const SIMULATION_LOADOUT: RunLoadout = {
+  characterId: '',
+  maxHp: PLAYER_MAX_HP,
+  moveSpeedMultiplier: 1,
+  damageMultiplier: 1,
+  fireRateMultiplier: 1,
+  pickupRadiusMultiplier: 1,
+  xpMultiplier: 1,
+  criticalChance: 0,
+  startingLevel: 1,
+  rerolls: 0,
+  skips: 0,
+  banishes: 0,
+};
+
+/**
+ * Options for a single simulated run
+ */
+export interface SimulationRunOptions {
+  seed?: string;
+  durationMs?: number;
+  replay?: ReplayData;     // Play back a recorded run instead of letting the bot drive
+  levelUpDelayMs?: number; // Real time each level-up keeps the game paused (default: one frame)
+  onComplete: (metrics: RunMetrics, replay: ReplayData) => void;
+}
+
+/**
+ * SimulationScene - Runs the combat systems with a bot player and no rendering
+ * Stepped by the headless runner (scripts/simulate.ts) on the same fixed timestep
+ * as GameScene, and recorded like it so runs can be replayed
+ */
+export class SimulationScene extends Phaser.Scene {
+  private options!: SimulationRunOptions;
+  private player!: Player;
+  private bot!: SimulationBot;
+  private metrics!: SimulationMetrics;
+  private timestep!: FixedTimestep;
+  private replayManager!: ReplayManager;
+  private seed: string = '';
+
+  private enemySpawner!: EnemySpawner;
+  private xpGemManager!: XPGemManager;
+  private upgradeSystem!: UpgradeSystem;
+  private weaponManager!: WeaponManager;
+  private enemyProjectileManager!: EnemyProjectileManager;
+  private runSystems!: RunSystems;
+
+  private elapsed: number = 0;
+  private durationMs: number = GAME_DURATION;
+  private finished: boolean = false;
+  private spawnTimes: Map<Enemy, number> = new Map();
+
+  // Level-ups waiting on a pick while the game is paused
+  private levelUps: { level: number; hand: Upgrade[] }[] = [];
+  private levelUpWait: number = 0;
+
+  constructor() {
+    super({ key: SIMULATION_SCENE_KEY });
+  }
+
+  init(options: SimulationRunOptions): void {
+    this.options = options;
+    this.durationMs = options.durationMs ?? GAME_DURATION;
+    this.elapsed = 0;
+    this.finished = false;
+    this.spawnTimes = new Map();
+    this.levelUps = [];
+  }
+
+  create(): void {
+    this.seed = RandomManager.getInstance().startRun(this.options.replay?.seed ?? this.options.seed);
+    this.metrics = new SimulationMetrics(this.seed);
+    this.replayManager = new ReplayManager(this.options.replay);
+
+    this.timestep = new FixedTimestep(this);
+    this.timestep.setOnIdle((delta) => this.updateLevelUps(delta));
+
+    this.createPlaceholderAnimations();
+    this.physics.world.setBounds(0, 0, MAP_WIDTH, MAP_HEIGHT);
+
+    // Player in the middle of the open arena
+    this.player = new Player(this, MAP_WIDTH / 2, MAP_HEIGHT / 2);
+    this.bot = new SimulationBot(this.player);
+
+    const eventBus = GameEventBus.getInstance();
+    eventBus.clear();
+
+    // Level-ups pause the game like GameScene's level-up screen
+    eventBus.on('player:leveledUp', ({ level }) => {
+      this.metrics.recordLevelUp(level, Math.round(this.elapsed));
+      this.levelUps.push({ level, hand: this.upgradeSystem.getRandomUpgrades(3) });
+      if (!this.timestep.isPaused()) {
+        this.levelUpWait = this.options.levelUpDelayMs ?? 0;
+        this.setPaused(true);
+      }
+    });
+
+    // Damage taken by source, from the final hit after shields
+    eventBus.on('damage:dealt', ({ damage }) => {
+      if (damage.target !== this.player) return;
+      const source = damage.weapon === 'contact' && damage.source instanceof Enemy
+        ? damage.source.getConfig().type
+        : damage.weapon;
+      this.metrics.recordDamage(source, damage.dealt);
+    });
+
+    this.createSystems();
+    setupRunCollision(this, this.player, this.runSystems);
+  }
+
+  /**
+   * Entities play animations by key; register one-frame stand-ins so
+   * death animations complete and dead enemies get cleaned up
+   */
+  private createPlaceholderAnimations(): void {
+    const frames = [{ key: '__DEFAULT' }];
+    const looping = ['player_idle', 'player_walk_down', 'player_walk_up', 'player_walk_side'];
+    const once = ['player_death'];
+
+    [...Object.values(ENEMY_TYPES), ...Object.values(BOSS_TYPES)].forEach((config) => {
+      looping.push(`${config.type}_run_sd`, `${config.type}_run_su`);
+      once.push(`${config.type}_death_sd`);
+    });
+
+    looping.forEach((key) => {
+      if (!this.anims.exists(key)) this.anims.create({ key, frames, frameRate: 10, repeat: -1 });
+    });
+    once.forEach((key) => {
+      if (!this.anims.exists(key)) this.anims.create({ key, frames, frameRate: 10, repeat: 0 });
+    });
+  }
+
+  /**
+   * Same combat systems as GameScene, on an open field
+   */
+  private createSystems(): void {
+    const systems = createRunSystems(this, this.player);
+    this.runSystems = systems;
+    this.xpGemManager = systems.xpGemManager;
+    this.enemyProjectileManager = systems.enemyProjectileManager;
+    this.enemySpawner = systems.enemySpawner;
+    this.weaponManager = systems.weaponManager;
+    this.upgradeSystem = systems.upgradeSystem;
+
+    GameEventBus.getInstance().on('enemy:killed', ({ enemy }) => {
+      const spawnTime = this.spawnTimes.get(enemy) ?? this.elapsed;
+      this.metrics.recordKill(enemy.getConfig().type, this.elapsed - spawnTime);
+      this.spawnTimes.delete(enemy);
+    });
+  }
+
+  /**
+   * Once the level-up delay has passed, take the bot's (or the recorded) pick from each hand
+   */
+  private updateLevelUps(delta: number): void {
+    this.levelUpWait -= delta;
+    if (this.levelUps.length === 0 || this.levelUpWait > 0) return;
+
+    this.levelUps.forEach(({ level, hand }) => {
+      const upgrade = this.replayManager.isPlaying()
+        ? hand.find(u => u.name === this.replayManager.getChoices(level)[0]?.upgrade) ?? null
+        : this.bot.chooseUpgrade(hand);
+      if (upgrade) {
+        this.upgradeSystem.applyUpgrade(upgrade);
+        this.metrics.recordUpgrade(upgrade.name);
+        if (!this.replayManager.isPlaying()) {
+          this.replayManager.recordChoice(level, upgrade.name);
+        }
+      }
+    });
+    this.levelUps = [];
+    this.setPaused(false);
+  }
+
+  private setPaused(paused: boolean): void {
+    this.timestep.setPaused(paused);
+    if (paused) {
+      this.physics.pause();
+    } else {
+      this.physics.resume();
+    }
+  }
+
+  update(time: number, delta: number): void {
+    if (this.finished || this.timestep.isPaused()) return;
+
+    this.elapsed += delta;
+
+    // Bot (or the recording) replaces the keyboard
+    if (this.replayManager.isPlaying()) {
+      this.player.setInputOverride(this.replayManager.nextInput());
+    } else {
+      const input = this.bot.getInput(this.enemySpawner.getEnemies(), this.xpGemManager.getGems());
+      this.replayManager.recordInput(input);
+      this.player.setInputOverride(input);
+    }
+    this.player.update(time, delta);
+
+    this.enemySpawner.update(time, delta);
+    this.trackSpawns();
+    this.xpGemManager.update(delta);
+    this.weaponManager.update(delta);
+    this.enemyProjectileManager.update(delta);
+
+    if (!this.player.alive) {
+      this.metrics.recordDeath(Math.round(this.elapsed));
+      this.complete();
+    } else if (this.elapsed >= this.durationMs) {
+      this.complete();
+    }
+  }
+
+  /**
+   * Remember when each enemy first appeared (for time-to-kill)
+   */
+  private trackSpawns(): void {
+    this.enemySpawner.getEnemies().getChildren().forEach((obj) => {
+      const enemy = obj as Enemy;
+      if (!this.spawnTimes.has(enemy)) {
+        this.spawnTimes.set(enemy, this.elapsed);
+      }
+    });
+
+    // Forget despawned enemies
+    this.spawnTimes.forEach((_time, enemy) => {
+      if (!enemy.active) this.spawnTimes.delete(enemy);
+    });
+  }
+
+  private complete(): void {
+    this.finished = true;
+    const metrics = this.metrics.finish(
+      Math.round(this.elapsed),
+      this.player.currentLevel,
+      this.enemySpawner.getWaveNumber()
+    );
+    const replay = this.options.replay ?? this.replayManager.finishRecording(this.seed, MapType.ARENA, SIMULATION_LOADOUT, {
+      score: metrics.totalKills,
+      duration: metrics.durationMs,
+      victory: metrics.survived,
+    });
+    this.options.onComplete(metrics, replay);
+  }
+}
@@ -1,6 +1,7 @@
 import Phaser from 'phaser';
 import { DEPTH } from '../config/Constants';
 import { MetaProgressionManager, Achievement } from './MetaProgressionManager';
+import { GameEventBus } from './GameEventBus';
 
 /**
  * AchievementTracker - Tracks achievements during gameplay and shows notifications
@@ -10,6 +11,7 @@ export class AchievementTracker {
   private metaManager: MetaProgressionManager;
   private notificationQueue: Achievement[] = [];
   private isShowingNotification: boolean = false;
+  private enabled: boolean = true;
   
   // Run stats for tracking
   private runStats = {
@@ -27,6 +29,24 @@ export class AchievementTracker {
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
     this.metaManager = MetaProgressionManager.getInstance();
+    this.subscribeToGameEvents();
+  }
+
+  /**
+   * Track run progress from gameplay events
+   */
+  private subscribeToGameEvents(): void {
+    const eventBus = GameEventBus.getInstance();
+    
+    eventBus.on('enemy:killed', ({ enemy }) => this.trackKill(enemy.isBoss));
+    eventBus.on('pickup:collected', ({ kind, amount }) => {
+      if (kind === 'gold') this.trackGold(amount);
+    });
+    eventBus.on('player:leveledUp', ({ level }) => this.trackLevelUp(level));
+    eventBus.on('player:damaged', () => this.trackDamage(this.runStats.timeSurvived));
+    eventBus.on('upgrade:applied', () => this.trackUpgrade());
+    eventBus.on('weapon:unlocked', () => this.trackWeaponUnlock());
+    eventBus.on('weapon:evolved', () => this.trackWeaponEvolution());
   }
 
   /**
@@ -174,10 +194,19 @@ export class AchievementTracker {
     this.runStats.upgradesTaken++;
   }
 
+  /**
+   * Enable or disable unlocking (disabled while watching replays)
+   */
+  public setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
   /**
    * Check and unlock an achievement if not already unlocked
    */
   private checkAndUnlock(id: string): void {
+    if (!this.enabled) return;
+    
     const achievement = this.metaManager.unlockAchievement(id);
     if (achievement) {
       this.queueNotification(achievement);
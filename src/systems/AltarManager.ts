@@ -1,6 +1,12 @@
 import Phaser from 'phaser';
 import { Player } from '../entities/Player';
 import { DEPTH, TILE_SIZE, MAP_WIDTH, MAP_HEIGHT } from '../config/Constants';
+import { rng, RandomStream } from './RandomManager';
+import { GameEventBus } from './GameEventBus';
+import { StatType, ModifierType } from './StatBlock';
+import { StatusEffectType } from './StatusEffects';
+import type { Enemy } from '../entities/Enemy';
+import type { PlacementCheck } from './DungeonGenerator';
 
 /**
  * Buff types that altars can provide
@@ -12,6 +18,7 @@ export enum AltarBuffType {
   SHIELD = 'shield',
   XP_BOOST = 'xp_boost',
   MAGNET = 'magnet',
+  FROST_NOVA = 'frost_nova',
 }
 
 /**
@@ -24,6 +31,7 @@ interface AltarBuff {
   icon: string;
   color: number;
   duration?: number; // ms, undefined = instant
+  stat?: StatType; // Stat multiplied by value while a timed buff lasts
   value: number;
 }
 
@@ -46,6 +54,7 @@ const ALTAR_BUFFS: AltarBuff[] = [
     icon: '⚔️',
     color: 0xff6600,
     duration: 30000,
+    stat: StatType.DAMAGE,
     value: 1.5, // 50% increase
   },
   {
@@ -55,6 +64,7 @@ const ALTAR_BUFFS: AltarBuff[] = [
     icon: '💨',
     color: 0x00ff88,
     duration: 20000,
+    stat: StatType.MOVE_SPEED,
     value: 1.3, // 30% increase
   },
   {
@@ -64,7 +74,8 @@ const ALTAR_BUFFS: AltarBuff[] = [
     icon: '🛡️',
     color: 0x4488ff,
     duration: 5000,
-    value: 1,
+    stat: StatType.DAMAGE_TAKEN,
+    value: 0, // No damage taken
   },
   {
     type: AltarBuffType.XP_BOOST,
@@ -73,6 +84,7 @@ const ALTAR_BUFFS: AltarBuff[] = [
     icon: '📚',
     color: 0xaa44ff,
     duration: 45000,
+    stat: StatType.XP_GAIN,
     value: 2, // Double XP
   },
   {
@@ -83,8 +95,26 @@ const ALTAR_BUFFS: AltarBuff[] = [
     color: 0xffff00,
     value: 1,
   },
+  {
+    type: AltarBuffType.FROST_NOVA,
+    name: 'Frost Nova',
+    description: 'Freeze nearby enemies for 3s',
+    icon: '❄️',
+    color: 0x88ddff,
+    value: 3000, // Freeze duration in ms
+  },
 ];
 
+/**
+ * Radius of the Frost Nova freeze around the player
+ */
+const FROST_NOVA_RADIUS = 300;
+
+/**
+ * Stat modifier id for a timed altar buff (one per type, so reactivating refreshes it)
+ */
+const buffModifierId = (type: AltarBuffType): string => `altar:${type}`;
+
 /**
  * Altar sprite with interaction data
  */
@@ -106,7 +136,6 @@ export class AltarManager {
   private scene: Phaser.Scene;
   private player: Player;
   private altars: Phaser.GameObjects.Group;
-  private activeBuffs: Map<AltarBuffType, { endTime: number; value: number }> = new Map();
   
   // Spawn configuration
   private spawnInterval: number = 60000; // Spawn altar every 60 seconds
@@ -117,14 +146,23 @@ export class AltarManager {
   // Channeling configuration (player must stand in altar radius for this duration)
   private channelDuration: number = 2500; // 2.5 seconds to activate
   
-  // Callbacks
-  private onBuffApplied?: (buff: AltarBuff) => void;
-  private onMagnetActivated?: () => void;
-  private onShowNotification?: (message: string, color: number, icon: string) => void;
+  private eventBus: GameEventBus;
+  private getEnemies?: () => Phaser.GameObjects.Group;
+  private isOpenArea?: PlacementCheck;
 
-  constructor(scene: Phaser.Scene, player: Player) {
+  /**
+   * @param isOpenArea Keeps altars clear of the map's walls (none = open field)
+   */
+  constructor(scene: Phaser.Scene, player: Player, isOpenArea?: PlacementCheck) {
     this.scene = scene;
     this.player = player;
+    this.isOpenArea = isOpenArea;
+    this.eventBus = GameEventBus.getInstance();
+    this.eventBus.on('stat:expired', ({ modifier }) => {
+      if (modifier.source === 'altar') {
+        this.showBuffExpiredNotification(modifier.id);
+      }
+    });
     
     this.altars = this.scene.add.group();
     
@@ -165,10 +203,7 @@ export class AltarManager {
     }
     
     // Check player proximity to altars
-    this.checkAltarInteraction();
-    
-    // Update active buffs (remove expired ones)
-    this.updateActiveBuffs();
+    this.checkAltarInteraction(delta);
   }
 
   private spawnAltar(): void {
@@ -177,7 +212,7 @@ export class AltarManager {
     if (!spawnPos) return;
 
     // Select random buff
-    const buff = ALTAR_BUFFS[Math.floor(Math.random() * ALTAR_BUFFS.length)];
+    const buff = rng(RandomStream.LOOT).pick(ALTAR_BUFFS);
 
     // Create altar sprite
     const altar = this.scene.physics.add.sprite(spawnPos.x, spawnPos.y, 'altar_idle') as Altar;
@@ -221,8 +256,8 @@ export class AltarManager {
     // Try multiple times to find valid position
     for (let attempt = 0; attempt < 10; attempt++) {
       // Spawn 200-400 pixels from player
-      const distance = 200 + Math.random() * 200;
-      const angle = Math.random() * Math.PI * 2;
+      const distance = 200 + rng(RandomStream.LOOT).next() * 200;
+      const angle = rng(RandomStream.LOOT).angle();
       
       const x = playerX + Math.cos(angle) * distance;
       const y = playerY + Math.sin(angle) * distance;
@@ -230,6 +265,8 @@ export class AltarManager {
       // Check bounds (with margin)
       const margin = TILE_SIZE * 3;
       if (x > margin && x < MAP_WIDTH - margin && y > margin && y < MAP_HEIGHT - margin) {
+        // Not inside or against walls
+        if (this.isOpenArea && !this.isOpenArea(x, y, TILE_SIZE)) continue;
         return { x, y };
       }
     }
@@ -237,7 +274,7 @@ export class AltarManager {
     return null;
   }
 
-  private checkAltarInteraction(): void {
+  private checkAltarInteraction(delta: number): void {
     this.altars.getChildren().forEach((obj) => {
       const altar = obj as Altar;
       
@@ -250,7 +287,6 @@ export class AltarManager {
       
       if (distance < altar.interactionRange) {
         // Player is in range - update channel progress
-        const delta = this.scene.game.loop.delta;
         altar.channelProgress += delta;
         
         // Update visual progress indicator
@@ -342,18 +378,19 @@ export class AltarManager {
     // Visual feedback
     this.createActivationEffect(altar.x, altar.y, altar.buff.color);
     
-    // Callback
-    if (this.onBuffApplied) {
-      this.onBuffApplied(altar.buff);
-    }
+    const { name, icon, color, duration } = altar.buff;
+    this.eventBus.emit('buff:applied', { source: 'altar', name, icon, color, duration });
     
     // Special handling for magnet
-    if (altar.buff.type === AltarBuffType.MAGNET && this.onMagnetActivated) {
-      this.onMagnetActivated();
+    if (altar.buff.type === AltarBuffType.MAGNET) {
+      this.eventBus.emit('magnet:activated');
     }
     
     // Remove altar after animation
     altar.once(Phaser.Animations.Events.ANIMATION_COMPLETE, () => {
+      // Frees its slot now, the fade is only for show
+      this.altars.remove(altar);
+
       // Fade out
       this.scene.tweens.add({
         targets: [altar, altar.glowEffect],
@@ -378,11 +415,15 @@ export class AltarManager {
       case AltarBuffType.SPEED_BOOST:
       case AltarBuffType.SHIELD:
       case AltarBuffType.XP_BOOST:
-        // Store timed buff
-        if (buff.duration) {
-          this.activeBuffs.set(buff.type, {
-            endTime: this.scene.time.now + buff.duration,
+        // Timed stat buff (expires on its own)
+        if (buff.stat && buff.duration) {
+          this.player.stats.addModifier({
+            id: buffModifierId(buff.type),
+            stat: buff.stat,
+            type: ModifierType.MULTIPLY,
             value: buff.value,
+            source: 'altar',
+            duration: buff.duration,
           });
         }
         break;
@@ -390,19 +431,24 @@ export class AltarManager {
       case AltarBuffType.MAGNET:
         // Instant effect, handled by callback
         break;
+
+      case AltarBuffType.FROST_NOVA:
+        this.freezeNearbyEnemies(buff.value);
+        break;
     }
     
     // Show buff notification
     this.showBuffNotification(buff);
   }
 
-  private updateActiveBuffs(): void {
-    const now = this.scene.time.now;
-    
-    this.activeBuffs.forEach((data, type) => {
-      if (now >= data.endTime) {
-        this.activeBuffs.delete(type);
-        this.showBuffExpiredNotification(type);
+  private freezeNearbyEnemies(duration: number): void {
+    this.getEnemies?.().getChildren().forEach((obj) => {
+      const enemy = obj as Enemy;
+      if (!enemy.alive) return;
+
+      const distance = Phaser.Math.Distance.Between(this.player.x, this.player.y, enemy.x, enemy.y);
+      if (distance <= FROST_NOVA_RADIUS) {
+        enemy.statusEffects.apply({ type: StatusEffectType.FREEZE, duration, source: this.player });
       }
     });
   }
@@ -471,42 +517,12 @@ export class AltarManager {
     const durationText = buff.duration ? ` (${buff.duration / 1000}s)` : '';
     const message = `${buff.name}${durationText}\n${buff.description}`;
     
-    // Use callback if set (will display on UI layer)
-    if (this.onShowNotification) {
-      this.onShowNotification(message, buff.color, buff.icon);
-      return;
-    }
-    
-    // Fallback: show notification directly (won't be on UI layer)
-    const screenWidth = this.scene.scale.width;
-    const notification = this.scene.add.text(
-      screenWidth / 2,
-      150,
-      `${buff.icon} ${message}`,
-      {
-        fontFamily: 'monospace',
-        fontSize: '20px',
-        color: '#ffffff',
-        stroke: '#000000',
-        strokeThickness: 4,
-        align: 'center',
-      }
-    )
-      .setOrigin(0.5)
-      .setDepth(DEPTH.UI + 5);
-
-    this.scene.tweens.add({
-      targets: notification,
-      alpha: 0,
-      y: 130,
-      duration: 2500,
-      delay: 1000,
-      onComplete: () => notification.destroy()
-    });
+    // HUD displays it on the UI layer
+    this.eventBus.emit('notification', { message, color: buff.color, icon: buff.icon });
   }
 
-  private showBuffExpiredNotification(type: AltarBuffType): void {
-    const buff = ALTAR_BUFFS.find(b => b.type === type);
+  private showBuffExpiredNotification(modifierId: string): void {
+    const buff = ALTAR_BUFFS.find(b => buffModifierId(b.type) === modifierId);
     if (!buff) return;
 
     const screenWidth = this.scene.scale.width;
@@ -540,15 +556,7 @@ export class AltarManager {
    * Check if a buff is currently active
    */
   public hasActiveBuff(type: AltarBuffType): boolean {
-    return this.activeBuffs.has(type);
-  }
-
-  /**
-   * Get the multiplier for a buff type (1.0 if not active)
-   */
-  public getBuffMultiplier(type: AltarBuffType): number {
-    const buff = this.activeBuffs.get(type);
-    return buff ? buff.value : 1.0;
+    return this.player.stats.hasModifier(buffModifierId(type));
   }
 
   /**
@@ -559,38 +567,10 @@ export class AltarManager {
   }
 
   /**
-   * Get damage multiplier from buff
-   */
-  public getDamageMultiplier(): number {
-    return this.getBuffMultiplier(AltarBuffType.DAMAGE_BOOST);
-  }
-
-  /**
-   * Get speed multiplier from buff
+   * Set enemy group getter (for Frost Nova)
    */
-  public getSpeedMultiplier(): number {
-    return this.getBuffMultiplier(AltarBuffType.SPEED_BOOST);
-  }
-
-  /**
-   * Get XP multiplier from buff
-   */
-  public getXPMultiplier(): number {
-    return this.getBuffMultiplier(AltarBuffType.XP_BOOST);
-  }
-
-  /**
-   * Set callback for when buff is applied
-   */
-  public setOnBuffApplied(callback: (buff: AltarBuff) => void): void {
-    this.onBuffApplied = callback;
-  }
-
-  /**
-   * Set callback for magnet effect (attract all XP)
-   */
-  public setOnMagnetActivated(callback: () => void): void {
-    this.onMagnetActivated = callback;
+  public setGetEnemies(getter: () => Phaser.GameObjects.Group): void {
+    this.getEnemies = getter;
   }
 
   /**
@@ -599,11 +579,4 @@ export class AltarManager {
   public getAltars(): Phaser.GameObjects.Group {
     return this.altars;
   }
-
-  /**
-   * Set callback for showing notifications on UI layer
-   */
-  public setOnShowNotification(callback: (message: string, color: number, icon: string) => void): void {
-    this.onShowNotification = callback;
-  }
 }
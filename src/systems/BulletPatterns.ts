@@ -0,0 +1,119 @@
+/**
+ * Shapes of enemy bullet volleys
+ */
+export enum BulletPatternType {
+  AIMED_BURST = 'aimed_burst', // Shots one after another, each aimed at the player
+  SPREAD = 'spread',           // Fan centered on the player
+  RING = 'ring',               // Evenly spaced all the way around
+  SPIRAL = 'spiral',           // Ring that turns a little every volley
+  WAVE = 'wave',               // Fan of bullets that sway side to side
+}
+
+/**
+ * Declarative description of an enemy attack's bullets
+ */
+export interface BulletPattern {
+  type: BulletPatternType;
+  count: number;          // Bullets per volley (shots in an aimed burst, arms of a spiral)
+  speed: number;          // Starting speed in px/s
+  volleys?: number;       // How many times the volley is fired (default 1, bursts use count)
+  interval?: number;      // ms between volleys or burst shots
+  spread?: number;        // Radians covered by a spread or wave fan
+  rotation?: number;      // Radians a spiral turns each volley
+  acceleration?: number;  // px/s² (negative slows bullets down)
+  waveAmplitude?: number; // px of side-to-side sway (waves)
+  waveFrequency?: number; // Sways per second (waves)
+  texture?: string;
+  tint?: number;
+  scale?: number;
+}
+
+/**
+ * Where a pattern's volleys come from (later volleys follow it, and stop if it's gone)
+ */
+export interface BulletOrigin {
+  x: number;
+  y: number;
+  active: boolean;
+}
+
+/**
+ * Fires a pattern from an origin (angle fixes the aim, otherwise each volley aims at the player)
+ */
+export type BulletFireCallback = (origin: BulletOrigin, pattern: BulletPattern, damage: number, angle?: number) => void;
+
+/**
+ * Patterns enemies and bosses reference by key
+ */
+export const BULLET_PATTERNS: Record<string, BulletPattern> = {
+  // Regular enemies
+  aimed: { type: BulletPatternType.AIMED_BURST, count: 1, speed: 150 },
+  teleport_ring: { type: BulletPatternType.RING, count: 6, speed: 110, tint: 0xff44ff, texture: 'enemy_bullet' },
+
+  // Bosses
+  slime_ring: { type: BulletPatternType.RING, count: 12, speed: 140, tint: 0x66ff66, texture: 'enemy_bullet', scale: 1.3 },
+  slime_ring_heavy: {
+    type: BulletPatternType.RING, count: 18, speed: 80, acceleration: 120, volleys: 2, interval: 400,
+    tint: 0x66ff66, texture: 'enemy_bullet', scale: 1.3,
+  },
+  skeleton_fan: {
+    type: BulletPatternType.SPREAD, count: 7, speed: 170, spread: Math.PI / 2, volleys: 3, interval: 250,
+    tint: 0xffffcc, texture: 'enemy_bullet',
+  },
+  skeleton_burst: { type: BulletPatternType.AIMED_BURST, count: 5, speed: 220, interval: 120, tint: 0xffffcc, texture: 'enemy_bullet' },
+  eye_spiral: {
+    type: BulletPatternType.SPIRAL, count: 2, speed: 130, volleys: 20, interval: 120, rotation: 0.35,
+    tint: 0xff66aa, texture: 'enemy_bullet',
+  },
+  eye_spiral_dense: {
+    type: BulletPatternType.SPIRAL, count: 4, speed: 150, volleys: 25, interval: 120, rotation: 0.3,
+    tint: 0xff66aa, texture: 'enemy_bullet',
+  },
+  eye_ring: { type: BulletPatternType.RING, count: 16, speed: 140, tint: 0xff66aa, texture: 'enemy_bullet' },
+  eye_wave: {
+    type: BulletPatternType.WAVE, count: 5, speed: 140, spread: Math.PI / 3, volleys: 3, interval: 400,
+    waveAmplitude: 30, waveFrequency: 2, tint: 0xaa66ff, texture: 'enemy_bullet',
+  },
+  eye_ring_accelerating: {
+    type: BulletPatternType.RING, count: 24, speed: 60, acceleration: 140,
+    tint: 0xff66aa, texture: 'enemy_bullet', scale: 1.2,
+  },
+};
+
+/**
+ * Number of volleys a pattern fires
+ */
+export function getVolleyCount(pattern: BulletPattern): number {
+  return pattern.type === BulletPatternType.AIMED_BURST ? pattern.count : pattern.volleys ?? 1;
+}
+
+/**
+ * ms from the first volley to the last
+ */
+export function getPatternDuration(pattern: BulletPattern): number {
+  return (getVolleyCount(pattern) - 1) * (pattern.interval ?? 0);
+}
+
+/**
+ * Bullet directions for one volley
+ * @param aim Angle toward the target (or the fixed aim)
+ * @param volley Index of the volley, counting from 0
+ */
+export function getVolleyAngles(pattern: BulletPattern, aim: number, volley: number): number[] {
+  const count = pattern.count;
+  switch (pattern.type) {
+    case BulletPatternType.AIMED_BURST:
+      return [aim];
+    case BulletPatternType.SPREAD:
+    case BulletPatternType.WAVE: {
+      const spread = pattern.spread ?? 0;
+      if (count <= 1) return [aim];
+      return Array.from({ length: count }, (_, i) => aim - spread / 2 + (spread * i) / (count - 1));
+    }
+    case BulletPatternType.RING:
+    case BulletPatternType.SPIRAL: {
+      const start = aim + (pattern.type === BulletPatternType.SPIRAL ? (pattern.rotation ?? 0) * volley : 0);
+      return Array.from({ length: count }, (_, i) => start + (i / count) * Math.PI * 2);
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { Player } from '../entities/Player';
+import { GameEventBus } from './GameEventBus';
+import type { DamageEvent } from './DamagePipeline';
+
+/**
+ * Character ability types (see CHARACTERS specialAbility text)
+ */
+export enum CharacterAbilityType {
+  CRITICAL = 'critical',
+  XP_BOOST = 'xp_boost',
+  RAGE = 'rage',
+  GOLD_FIND = 'gold_find',
+  LIFESTEAL = 'lifesteal',
+}
+
+export interface CharacterAbility {
+  type: CharacterAbilityType;
+  name: string;
+  icon: string;
+  color: number;
+  value: number;
+  threshold?: number; // HP percent for rage
+}
+
+/**
+ * Ability definitions keyed by character id
+ */
+export const CHARACTER_ABILITIES: Record<string, CharacterAbility> = {
+  rogue: {
+    type: CharacterAbilityType.CRITICAL,
+    name: 'Precision',
+    icon: '🗡️',
+    color: 0xffff00,
+    value: 0.1, // +10% crit chance
+  },
+  mage: {
+    type: CharacterAbilityType.XP_BOOST,
+    name: 'Arcane Mind',
+    icon: '📖',
+    color: 0x00ffff,
+    value: 0.2, // +20% XP
+  },
+  berserker: {
+    type: CharacterAbilityType.RAGE,
+    name: 'Rage',
+    icon: '😡',
+    color: 0xff4444,
+    value: 0.5, // +50% damage
+    threshold: 0.3,
+  },
+  merchant: {
+    type: CharacterAbilityType.GOLD_FIND,
+    name: 'Gold Find',
+    icon: '💰',
+    color: 0xffd700,
+    value: 0.5, // +50% gold
+  },
+  vampire: {
+    type: CharacterAbilityType.LIFESTEAL,
+    name: 'Bloodthirst',
+    icon: '🩸',
+    color: 0xcc0044,
+    value: 3, // HP per kill
+  },
+};
+
+/**
+ * CharacterAbilityManager - Applies the selected character's special ability during a run
+ */
+export class CharacterAbilityManager {
+  private player: Player;
+  private ability: CharacterAbility | null;
+  private rageActive: boolean = false;
+  private eventBus: GameEventBus;
+
+  constructor(player: Player, characterId: string) {
+    this.player = player;
+    this.ability = CHARACTER_ABILITIES[characterId] ?? null;
+    this.eventBus = GameEventBus.getInstance();
+
+    this.eventBus.on('damage:dealt', ({ damage }) => this.onDamageDealt(damage));
+    this.eventBus.on('pickup:collected', ({ kind }) => {
+      if (kind === 'xp') this.onXPCollected();
+    });
+  }
+
+  /**
+   * Track HP-based abilities (rage)
+   */
+  public update(_delta: number): void {
+    if (this.ability?.type !== CharacterAbilityType.RAGE) return;
+
+    const shouldRage = this.player.alive && this.player.hpPercent < (this.ability.threshold ?? 0.3);
+    if (shouldRage !== this.rageActive) {
+      this.rageActive = shouldRage;
+      this.trigger(shouldRage);
+    }
+  }
+
+  /**
+   * Bonus crit chance granted by the ability
+   */
+  public getCritChanceBonus(): number {
+    return this.ability?.type === CharacterAbilityType.CRITICAL ? this.ability.value : 0;
+  }
+
+  /**
+   * XP multiplier granted by the ability
+   */
+  public getXPMultiplier(): number {
+    return this.ability?.type === CharacterAbilityType.XP_BOOST ? 1 + this.ability.value : 1;
+  }
+
+  /**
+   * Modify outgoing player damage
+   */
+  public modifyDamage(damage: number): number {
+    if (this.ability?.type === CharacterAbilityType.RAGE && this.rageActive) {
+      return Math.floor(damage * (1 + this.ability.value));
+    }
+    return damage;
+  }
+
+  /**
+   * Modify collected gold
+   */
+  public modifyGold(amount: number): number {
+    if (this.ability?.type !== CharacterAbilityType.GOLD_FIND) return amount;
+
+    this.trigger(true);
+    return Math.ceil(amount * (1 + this.ability.value));
+  }
+
+  /**
+   * Called for every hit that lands - crits show Precision, kills feed lifesteal
+   */
+  private onDamageDealt(damage: DamageEvent): void {
+    if (damage.source !== this.player) return;
+
+    if (damage.isCrit && this.ability?.type === CharacterAbilityType.CRITICAL) {
+      this.trigger(true);
+    }
+
+    if (damage.killed && this.ability?.type === CharacterAbilityType.LIFESTEAL) {
+      if (!this.player.alive || this.player.hp >= this.player.maxHealth) return;
+
+      this.player.heal(this.ability.value);
+      this.trigger(true);
+    }
+  }
+
+  /**
+   * Called when XP is collected
+   */
+  private onXPCollected(): void {
+    if (this.ability?.type === CharacterAbilityType.XP_BOOST) {
+      this.trigger(true);
+    }
+  }
+
+  private trigger(active: boolean): void {
+    if (this.ability) {
+      this.eventBus.emit('ability:triggered', { ability: this.ability, active });
+    }
+  }
+
+  // Getters
+  public getAbility(): CharacterAbility | null {
+    return this.ability;
+  }
+
+  public isRageActive(): boolean {
+    return this.rageActive;
+  }
+}
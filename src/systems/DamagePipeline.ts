@@ -0,0 +1,240 @@
+import type { Entity } from '../entities/Entity';
+import type { Player } from '../entities/Player';
+import type { WeaponType } from './WeaponManager';
+import { GameEventBus } from './GameEventBus';
+import { StatType } from './StatBlock';
+import { rng, RandomStream } from './RandomManager';
+import type { StatusEffectApplication } from './StatusEffects';
+
+/**
+ * Damage types (resistances and status effects key off these)
+ */
+export enum DamageType {
+  PHYSICAL = 'physical',
+  MAGIC = 'magic',
+  FIRE = 'fire',
+  POISON = 'poison',
+  ICE = 'ice',
+  LIGHTNING = 'lightning',
+}
+
+/**
+ * What dealt the damage - a player weapon, an enemy body / bullet / blast, or a damage over time effect
+ */
+export type DamageWeapon = WeaponType | 'contact' | 'enemy_projectile' | 'explosion' | 'status';
+
+/**
+ * Order modifiers run in (lower first)
+ */
+export enum DamageStage {
+  BUFFS = 100,
+  CRIT = 200,
+  SHIELD = 300,
+  ARMOR = 400,
+  RESISTANCE = 500,
+  EFFECTS = 600, // On-hit status effects
+}
+
+/**
+ * A single hit as it travels through the pipeline
+ */
+export interface DamageEvent {
+  source: Entity | null; // Who dealt it (null = environment)
+  target: Entity;
+  weapon: DamageWeapon;
+  damageType: DamageType;
+  baseAmount: number; // Before any modifier
+  amount: number; // Modifiers change this
+  isCrit: boolean;
+  canCrit: boolean;
+  knockback: number; // Pixels pushed away from the source
+  cancelled: boolean; // Blocked entirely (shields, immunity)
+  statusEffects: StatusEffectApplication[]; // Applied to the target if the hit lands
+  dealt: number; // HP actually removed, set once applied
+  killed: boolean;
+}
+
+/**
+ * Fields a caller provides when dealing damage
+ */
+export interface DamageRequest {
+  source: Entity | null;
+  target: Entity;
+  weapon: DamageWeapon;
+  damageType: DamageType;
+  amount: number;
+  canCrit?: boolean;
+  knockback?: number;
+  statusEffects?: StatusEffectApplication[];
+}
+
+/**
+ * Changes a hit before it lands
+ */
+export interface DamageModifier {
+  id: string;
+  stage: DamageStage;
+  apply: (event: DamageEvent) => void;
+}
+
+/**
+ * DamagePipeline - Every hit in a run goes through here
+ *
+ * Builds a DamageEvent, runs it through the registered modifiers in stage order,
+ * applies the final amount to the target and announces the result on the event bus
+ * ('damage:dealt', only when HP was lost) for damage numbers, lifesteal and stats tracking.
+ */
+export class DamagePipeline {
+  private modifiers: DamageModifier[] = [];
+
+  /**
+   * Register a modifier (replaces one with the same id)
+   * @returns Function that removes the modifier
+   */
+  public addModifier(modifier: DamageModifier): () => void {
+    this.removeModifier(modifier.id);
+    this.modifiers.push(modifier);
+    // Stable sort keeps registration order within a stage
+    this.modifiers.sort((a, b) => a.stage - b.stage);
+    return () => this.removeModifier(modifier.id);
+  }
+
+  public removeModifier(id: string): void {
+    this.modifiers = this.modifiers.filter(modifier => modifier.id !== id);
+  }
+
+  /**
+   * Run a hit through the modifiers and apply it
+   */
+  public deal(request: DamageRequest): DamageEvent {
+    const event: DamageEvent = {
+      source: request.source,
+      target: request.target,
+      weapon: request.weapon,
+      damageType: request.damageType,
+      baseAmount: request.amount,
+      amount: request.amount,
+      isCrit: false,
+      canCrit: request.canCrit ?? true,
+      knockback: request.knockback ?? 0,
+      cancelled: false,
+      statusEffects: [...(request.statusEffects ?? [])],
+      dealt: 0,
+      killed: false,
+    };
+
+    for (const modifier of this.modifiers) {
+      modifier.apply(event);
+      if (event.cancelled) break;
+    }
+
+    event.amount = Math.max(0, Math.round(event.amount));
+    if (event.cancelled || event.amount === 0 || !event.target.alive) {
+      return event;
+    }
+
+    const hpBefore = event.target.hp;
+    event.killed = event.target.takeDamage(event.amount);
+    event.dealt = hpBefore - event.target.hp;
+
+    if (event.dealt > 0 && event.knockback > 0 && event.source && !event.killed) {
+      event.target.knockback(event.source.x, event.source.y, event.knockback);
+    }
+
+    if (!event.killed) {
+      event.statusEffects.forEach(effect => event.target.statusEffects.apply({ source: event.source, ...effect }));
+    }
+
+    // Hits that removed no HP (invincibility frames) stay silent
+    if (event.dealt > 0) {
+      GameEventBus.getInstance().emit('damage:dealt', { damage: event });
+    }
+    return event;
+  }
+}
+
+/**
+ * Standard modifiers for the player's stats: damage buffs, crits and on-hit
+ * effects on outgoing hits, shields (damage taken) on incoming ones
+ */
+export function createPlayerDamageModifiers(player: Player): DamageModifier[] {
+  return [
+    {
+      id: 'player:damage',
+      stage: DamageStage.BUFFS,
+      apply: (event) => {
+        if (event.source === player) {
+          event.amount *= player.stats.get(StatType.DAMAGE);
+        }
+      },
+    },
+    {
+      id: 'player:crit',
+      stage: DamageStage.CRIT,
+      apply: (event) => {
+        if (event.source !== player || !event.canCrit) return;
+
+        const chance = player.getCritChance();
+        if (chance > 0 && rng(RandomStream.COMBAT).next() < chance) {
+          event.isCrit = true;
+          event.amount *= player.getCritMultiplier();
+        }
+      },
+    },
+    {
+      id: 'player:shield',
+      stage: DamageStage.SHIELD,
+      apply: (event) => {
+        if (event.target !== player) return;
+
+        event.amount *= player.stats.get(StatType.DAMAGE_TAKEN);
+        if (event.amount <= 0) event.cancelled = true;
+      },
+    },
+    {
+      id: 'player:onHit',
+      stage: DamageStage.EFFECTS,
+      apply: (event) => {
+        // Damage over time ticks never re-trigger on-hit effects
+        if (event.source !== player || event.weapon === 'status') return;
+
+        player.getOnHitEffects().forEach(({ chance, effect }) => {
+          if (rng(RandomStream.COMBAT).next() < chance) {
+            event.statusEffects.push(effect);
+          }
+        });
+      },
+    },
+  ];
+}
+
+/**
+ * Target defenses: flat armor against each blow, then per damage type resistances
+ */
+export function createDefenseModifiers(): DamageModifier[] {
+  return [
+    {
+      id: 'defense:armor',
+      stage: DamageStage.ARMOR,
+      apply: (event) => {
+        // Armor stops blows, not burns and poison ticks
+        const armor = event.target.getArmor();
+        if (armor <= 0 || event.weapon === 'status') return;
+
+        // Every hit still chips at least 1
+        event.amount = Math.max(1, event.amount - armor);
+      },
+    },
+    {
+      id: 'defense:resistance',
+      stage: DamageStage.RESISTANCE,
+      apply: (event) => {
+        const resistance = event.target.getResistance(event.damageType);
+        if (resistance === 0) return;
+
+        event.amount *= 1 - resistance;
+        if (event.amount <= 0) event.cancelled = true;
+      },
+    },
+  ];
+}
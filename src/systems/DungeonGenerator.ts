@@ -1,4 +1,5 @@
-import { MAP_WIDTH_TILES, MAP_HEIGHT_TILES } from '../config/Constants';
+import { MAP_WIDTH_TILES, MAP_HEIGHT_TILES, TILE_SIZE } from '../config/Constants';
+import { rng, RandomStream } from './RandomManager';
 
 /**
  * Tile types for dungeon generation
@@ -8,6 +9,19 @@ export enum TileType {
   WALL = 1,
 }
 
+/**
+ * Map layouts a run can be played on
+ */
+export enum MapType {
+  ARENA = 'arena', // Open field inside border walls
+  CAVE = 'cave',   // Cellular automata caves
+}
+
+/**
+ * Whether a world position has open floor within the given radius (in pixels)
+ */
+export type PlacementCheck = (x: number, y: number, radius: number) => boolean;
+
 /**
  * Decoration types for visual variety
  */
@@ -44,9 +58,15 @@ export class DungeonGenerator {
    * Generate a new dungeon
    * @returns 2D array of tile types
    */
-  public generate(): TileType[][] {
-    // Create open arena - all floor tiles with border walls only
-    this.createOpenArena();
+  public generate(mapType: MapType = MapType.ARENA): TileType[][] {
+    if (mapType === MapType.CAVE) {
+      this.generateCave();
+    } else {
+      this.createOpenArena();
+    }
+
+    // Generate decorations
+    this.generateDecorations();
     return this.grid;
   }
 
@@ -65,9 +85,6 @@ export class DungeonGenerator {
         }
       }
     }
-    
-    // Generate decorations
-    this.generateDecorations();
   }
 
   /**
@@ -95,17 +112,20 @@ export class DungeonGenerator {
     
     for (let i = 0; i < decorationCount; i++) {
       // Random position (avoiding borders and spawn area)
-      const x = 3 + Math.floor(Math.random() * (this.width - 6));
-      const y = 3 + Math.floor(Math.random() * (this.height - 6));
+      const x = 3 + Math.floor(rng(RandomStream.MAP).next() * (this.width - 6));
+      const y = 3 + Math.floor(rng(RandomStream.MAP).next() * (this.height - 6));
       
       // Check if too close to spawn
       const distToSpawn = Math.sqrt(
         Math.pow(x - spawnPos.x, 2) + Math.pow(y - spawnPos.y, 2)
       );
       if (distToSpawn < safeRadius) continue;
+
+      // Only on open floor
+      if (this.grid[y][x] !== TileType.FLOOR) continue;
       
       // Weighted random type selection
-      let random = Math.random() * totalWeight;
+      let random = rng(RandomStream.MAP).next() * totalWeight;
       let selectedType: Decoration['type'] = 'rock';
       for (const dt of decorationTypes) {
         random -= dt.weight;
@@ -119,16 +139,15 @@ export class DungeonGenerator {
         x,
         y,
         type: selectedType,
-        variant: Math.floor(Math.random() * 3), // 0-2 variants
+        variant: Math.floor(rng(RandomStream.MAP).next() * 3), // 0-2 variants
       });
     }
   }
 
   /**
-   * Generate a cave-style dungeon (original algorithm, not currently used)
-   * @returns 2D array of tile types
+   * Generate a cave-style dungeon
    */
-  public generateCave(): TileType[][] {
+  private generateCave(): void {
     // Step 1: Random initialization
     this.initializeRandom();
 
@@ -143,7 +162,8 @@ export class DungeonGenerator {
     // Step 4: Ensure player spawn area is clear
     this.clearSpawnArea();
 
-    return this.grid;
+    // Step 5: Wall off caves the player can't walk to
+    this.fillSealedPockets();
   }
 
   /**
@@ -170,7 +190,7 @@ export class DungeonGenerator {
         if (x === 0 || y === 0 || x === this.width - 1 || y === this.height - 1) {
           this.grid[y][x] = TileType.WALL;
         } else {
-          this.grid[y][x] = Math.random() < this.initialFloorChance 
+          this.grid[y][x] = rng(RandomStream.MAP).next() < this.initialFloorChance 
             ? TileType.FLOOR 
             : TileType.WALL;
         }
@@ -264,6 +284,37 @@ export class DungeonGenerator {
     }
   }
 
+  /**
+   * Turn floor that isn't connected to the spawn area into wall, so every floor
+   * tile can be walked to (orthogonal steps only: the player can't squeeze diagonally)
+   */
+  private fillSealedPockets(): void {
+    const spawn = this.getSpawnPosition();
+    const connected: boolean[][] = this.grid.map(row => row.map(() => false));
+    const stack = [spawn];
+    connected[spawn.y][spawn.x] = true;
+
+    while (stack.length > 0) {
+      const { x, y } = stack.pop()!;
+      for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (this.isWalkable(nx, ny) && !connected[ny][nx]) {
+          connected[ny][nx] = true;
+          stack.push({ x: nx, y: ny });
+        }
+      }
+    }
+
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        if (!connected[y][x]) {
+          this.grid[y][x] = TileType.WALL;
+        }
+      }
+    }
+  }
+
   /**
    * Check if coordinates are within bounds
    */
@@ -287,7 +338,7 @@ export class DungeonGenerator {
 
     if (floorTiles.length === 0) return null;
 
-    return floorTiles[Math.floor(Math.random() * floorTiles.length)];
+    return rng(RandomStream.MAP).pick(floorTiles);
   }
 
   /**
@@ -308,6 +359,24 @@ export class DungeonGenerator {
     return this.grid[y][x] === TileType.FLOOR;
   }
 
+  /**
+   * Check if every tile within a radius (in pixels) of a world position is walkable,
+   * for placing pickups and structures clear of walls
+   */
+  public isOpenArea(worldX: number, worldY: number, radius: number): boolean {
+    const minX = Math.floor((worldX - radius) / TILE_SIZE);
+    const maxX = Math.floor((worldX + radius) / TILE_SIZE);
+    const minY = Math.floor((worldY - radius) / TILE_SIZE);
+    const maxY = Math.floor((worldY + radius) / TILE_SIZE);
+
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        if (!this.isWalkable(x, y)) return false;
+      }
+    }
+    return true;
+  }
+
   /**
    * Get the grid
    */
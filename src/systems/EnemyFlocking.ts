@@ -0,0 +1,161 @@
+import Phaser from 'phaser';
+import { Enemy, EnemyBehavior } from '../entities/Enemy';
+
+const CELL_SIZE = 64;           // Spatial hash cell, at least as wide as a neighbourhood
+const NEIGHBOR_RADIUS = 48;     // How far alignment and cohesion look, past the enemy's own body
+const SEPARATION_PADDING = 4;   // Gap kept between bodies
+const BOSS_MASS_MULTIPLIER = 10;
+
+/**
+ * How strongly an enemy type steers with its neighbours
+ */
+export interface FlockingWeights {
+  separation: number; // Push away from overlapping neighbours
+  alignment: number;  // Match the heading of neighbours of the same behavior
+  cohesion: number;   // Drift toward the center of neighbours of the same behavior
+  mass: number;       // Heavier enemies push lighter ones aside and barely get pushed back
+}
+
+/**
+ * Weights per behavior
+ */
+export const FLOCKING_WEIGHTS: Record<EnemyBehavior, FlockingWeights> = {
+  [EnemyBehavior.CHASER]: { separation: 1, alignment: 0.1, cohesion: 0, mass: 1 },
+  [EnemyBehavior.SHOOTER]: { separation: 1.2, alignment: 0, cohesion: 0, mass: 1 },
+  [EnemyBehavior.RUSHER]: { separation: 0.8, alignment: 0, cohesion: 0, mass: 0.8 },
+  [EnemyBehavior.TANK]: { separation: 0.3, alignment: 0, cohesion: 0, mass: 4 },
+  [EnemyBehavior.SWARM]: { separation: 0.8, alignment: 0.6, cohesion: 0.4, mass: 0.7 },
+  [EnemyBehavior.BOMBER]: { separation: 1, alignment: 0.1, cohesion: 0, mass: 2 },
+  [EnemyBehavior.TELEPORTER]: { separation: 1, alignment: 0, cohesion: 0, mass: 1 },
+};
+
+/**
+ * EnemyFlocking - Separation, alignment and cohesion steering between enemies
+ *
+ * Enemies are bucketed into a spatial hash once per frame, so each enemy only
+ * looks at the few cells around it rather than the whole horde.
+ */
+export class EnemyFlocking {
+  private enemies: Phaser.GameObjects.Group;
+  private cells: Map<number, Enemy[]> = new Map();
+  private steering: Phaser.Math.Vector2 = new Phaser.Math.Vector2();
+
+  constructor(enemies: Phaser.GameObjects.Group) {
+    this.enemies = enemies;
+  }
+
+  /**
+   * Rebuild the spatial hash from current positions
+   */
+  public update(): void {
+    this.cells.forEach((cell) => (cell.length = 0));
+
+    this.enemies.getChildren().forEach((obj) => {
+      const enemy = obj as Enemy;
+      if (!enemy.active || !enemy.alive) return;
+
+      const key = this.getCellKey(Math.floor(enemy.x / CELL_SIZE), Math.floor(enemy.y / CELL_SIZE));
+      const cell = this.cells.get(key);
+      if (cell) {
+        cell.push(enemy);
+      } else {
+        this.cells.set(key, [enemy]);
+      }
+    });
+  }
+
+  /**
+   * Steering to add to an enemy's heading, in units of its move speed
+   * The returned vector is reused between calls
+   */
+  public getSteering(enemy: Enemy): Phaser.Math.Vector2 {
+    const steering = this.steering.set(0, 0);
+    const weights = this.getWeights(enemy);
+    const mass = this.getMass(enemy);
+    const radius = this.getRadius(enemy);
+    const behavior = enemy.getConfig().behavior;
+    const range = radius + NEIGHBOR_RADIUS;
+
+    let separationX = 0;
+    let separationY = 0;
+    let headingX = 0;
+    let headingY = 0;
+    let centerX = 0;
+    let centerY = 0;
+    let flockSize = 0;
+
+    const minCellX = Math.floor((enemy.x - range) / CELL_SIZE);
+    const maxCellX = Math.floor((enemy.x + range) / CELL_SIZE);
+    const minCellY = Math.floor((enemy.y - range) / CELL_SIZE);
+    const maxCellY = Math.floor((enemy.y + range) / CELL_SIZE);
+
+    for (let cellX = minCellX; cellX <= maxCellX; cellX++) {
+      for (let cellY = minCellY; cellY <= maxCellY; cellY++) {
+        const cell = this.cells.get(this.getCellKey(cellX, cellY));
+        if (!cell) continue;
+
+        for (const other of cell) {
+          if (other === enemy || !other.active || !other.body) continue;
+
+          const dx = enemy.x - other.x;
+          const dy = enemy.y - other.y;
+          const distance = Math.sqrt(dx * dx + dy * dy);
+
+          // Separation: pushed out of overlaps, mostly by whoever is heavier
+          const minDistance = radius + this.getRadius(other) + SEPARATION_PADDING;
+          if (distance < minDistance && distance > 0.01) {
+            const otherMass = this.getMass(other);
+            const push = (1 - distance / minDistance) * ((2 * otherMass) / (mass + otherMass));
+            separationX += (dx / distance) * push;
+            separationY += (dy / distance) * push;
+          }
+
+          // Alignment and cohesion only with their own kind
+          if (distance < range && other.getConfig().behavior === behavior) {
+            const velocity = (other.body as Phaser.Physics.Arcade.Body).velocity;
+            const speed = velocity.length();
+            if (speed > 1) {
+              headingX += velocity.x / speed;
+              headingY += velocity.y / speed;
+            }
+            centerX += other.x;
+            centerY += other.y;
+            flockSize++;
+          }
+        }
+      }
+    }
+
+    steering.x += separationX * weights.separation;
+    steering.y += separationY * weights.separation;
+
+    if (flockSize > 0) {
+      steering.x += (headingX / flockSize) * weights.alignment;
+      steering.y += (headingY / flockSize) * weights.alignment;
+      steering.x += ((centerX / flockSize - enemy.x) / range) * weights.cohesion;
+      steering.y += ((centerY / flockSize - enemy.y) / range) * weights.cohesion;
+    }
+
+    return steering;
+  }
+
+  private getWeights(enemy: Enemy): FlockingWeights {
+    return FLOCKING_WEIGHTS[enemy.getConfig().behavior];
+  }
+
+  private getMass(enemy: Enemy): number {
+    return this.getWeights(enemy).mass * (enemy.isBoss ? BOSS_MASS_MULTIPLIER : 1);
+  }
+
+  /**
+   * Half the body width (bodies scale with bosses and elites)
+   */
+  private getRadius(enemy: Enemy): number {
+    const body = enemy.body as Phaser.Physics.Arcade.Body | null;
+    return body ? body.halfWidth : 0;
+  }
+
+  private getCellKey(cellX: number, cellY: number): number {
+    return cellX * 100003 + cellY;
+  }
+}
@@ -1,27 +1,41 @@
 import Phaser from 'phaser';
 import { DEPTH } from '../config/Constants';
 import { Player } from '../entities/Player';
+import { BulletOrigin, BulletPattern, BulletPatternType, getVolleyAngles, getVolleyCount } from './BulletPatterns';
+
+const INITIAL_POOL_SIZE = 50;
+const POOL_GROW_STEP = 25;  // Projectiles added whenever the pool runs dry
+const MAX_POOL_SIZE = 400;  // Bullets past this are dropped rather than allocated
+const MIN_BULLET_SPEED = 20; // Decelerating bullets never stall completely
+const DEFAULT_TEXTURE = 'projectile_4';
+const DEFAULT_TINT = 0xff4444;
+const DEFAULT_SCALE = 0.8;
 
 /**
- * Enemy projectile that travels toward the player
+ * Enemy projectile that travels in a straight line, optionally speeding up or swaying
  */
 class EnemyProjectile extends Phaser.Physics.Arcade.Sprite {
   private damage: number = 10;
   private lifespan: number = 0;
   private maxLifespan: number = 3000;
+  private heading: number = 0;
+  private speed: number = 150;
+  private acceleration: number = 0;
+  private waveAmplitude: number = 0;
+  private waveFrequency: number = 0;
 
   constructor(scene: Phaser.Scene, x: number, y: number) {
-    super(scene, x, y, 'projectile_4'); // Use a different projectile sprite for enemies
-    
+    super(scene, x, y, DEFAULT_TEXTURE); // Use a different projectile sprite for enemies
+
     scene.add.existing(this);
     scene.physics.add.existing(this);
-    
+
     this.setDepth(DEPTH.PROJECTILES);
     this.setActive(false);
     this.setVisible(false);
-    this.setScale(0.8);
-    this.setTint(0xff4444); // Red tint for enemy projectiles
-    
+    this.setScale(DEFAULT_SCALE);
+    this.setTint(DEFAULT_TINT); // Red tint for enemy projectiles
+
     const body = this.body as Phaser.Physics.Arcade.Body;
     if (body) {
       body.enable = false;
@@ -30,35 +44,63 @@ class EnemyProjectile extends Phaser.Physics.Arcade.Sprite {
     }
   }
 
-  public fire(x: number, y: number, targetX: number, targetY: number, damage: number, speed: number = 150): void {
-    const dirX = targetX - x;
-    const dirY = targetY - y;
-    const length = Math.sqrt(dirX * dirX + dirY * dirY);
-    if (length === 0) return;
-    
-    const normalX = dirX / length;
-    const normalY = dirY / length;
-    
+  public fire(x: number, y: number, angle: number, damage: number, pattern: BulletPattern): void {
+    this.damage = damage;
+    this.lifespan = 0;
+    this.heading = angle;
+    this.speed = pattern.speed;
+    this.acceleration = pattern.acceleration ?? 0;
+    this.waveAmplitude = pattern.type === BulletPatternType.WAVE ? pattern.waveAmplitude ?? 0 : 0;
+    this.waveFrequency = pattern.waveFrequency ?? 0;
+
+    // Sprite can differ per pattern
+    const texture = pattern.texture ?? DEFAULT_TEXTURE;
+    if (this.texture.key !== texture) {
+      this.setTexture(texture);
+      const body = this.body as Phaser.Physics.Arcade.Body;
+      body?.setCircle(6, this.width / 2 - 6, this.height / 2 - 6);
+    }
+    this.setTint(pattern.tint ?? DEFAULT_TINT);
+    this.setScale(pattern.scale ?? DEFAULT_SCALE);
+
     this.setPosition(x, y);
     this.setActive(true);
     this.setVisible(true);
-    this.damage = damage;
-    this.lifespan = 0;
-    
+
     const body = this.body as Phaser.Physics.Arcade.Body;
     if (body) body.enable = true;
-    
-    this.setVelocity(normalX * speed, normalY * speed);
-    this.setRotation(Math.atan2(normalY, normalX));
+
+    this.setRotation(angle);
+    this.applyVelocity();
   }
 
   public update(delta: number): void {
     if (!this.active) return;
-    
+
     this.lifespan += delta;
     if (this.lifespan >= this.maxLifespan) {
       this.deactivate();
+      return;
     }
+
+    if (this.acceleration !== 0 || this.waveAmplitude !== 0) {
+      this.speed = Math.max(MIN_BULLET_SPEED, this.speed + this.acceleration * (delta / 1000));
+      this.applyVelocity();
+    }
+  }
+
+  /**
+   * Forward speed plus the sideways sway of wave bullets
+   */
+  private applyVelocity(): void {
+    const cos = Math.cos(this.heading);
+    const sin = Math.sin(this.heading);
+    let sway = 0;
+    if (this.waveAmplitude !== 0) {
+      const omega = Math.PI * 2 * this.waveFrequency;
+      sway = this.waveAmplitude * omega * Math.cos(omega * (this.lifespan / 1000));
+    }
+    this.setVelocity(cos * this.speed - sin * sway, sin * this.speed + cos * sway);
   }
 
   public deactivate(): void {
@@ -74,16 +116,32 @@ class EnemyProjectile extends Phaser.Physics.Arcade.Sprite {
   }
 }
 
+/**
+ * A pattern still firing its later volleys
+ */
+interface ActivePattern {
+  origin: BulletOrigin;
+  pattern: BulletPattern;
+  damage: number;
+  angle?: number;
+  volley: number; // Next volley to fire
+  timer: number;  // ms until it fires
+}
+
 /**
  * EnemyProjectileManager - Manages all enemy projectiles
  */
 export class EnemyProjectileManager {
+  private scene: Phaser.Scene;
   private projectiles: Phaser.GameObjects.Group;
   private player: Player;
+  private activePatterns: ActivePattern[] = [];
+  private onProjectilesCreatedCallback?: (projectiles: Phaser.GameObjects.GameObject[]) => void;
 
   constructor(scene: Phaser.Scene, player: Player) {
+    this.scene = scene;
     this.player = player;
-    
+
     // Create projectile pool
     this.projectiles = scene.add.group({
       classType: EnemyProjectile,
@@ -91,18 +149,25 @@ export class EnemyProjectileManager {
     });
 
     // Pre-create projectiles
-    for (let i = 0; i < 50; i++) {
-      this.projectiles.add(new EnemyProjectile(scene, 0, 0));
-    }
+    this.growPool(INITIAL_POOL_SIZE);
   }
 
   /**
    * Fire a projectile from an enemy toward the player
    */
   public fire(x: number, y: number, damage: number, speed: number = 150): void {
-    const projectile = this.projectiles.getFirstDead(false) as EnemyProjectile | null;
-    if (projectile) {
-      projectile.fire(x, y, this.player.x, this.player.y, damage, speed);
+    this.firePattern({ x, y, active: true }, { type: BulletPatternType.AIMED_BURST, count: 1, speed }, damage);
+  }
+
+  /**
+   * Fire a bullet pattern; volleys after the first are fired from update()
+   * @param angle Fixed aim (otherwise every volley aims at the player)
+   */
+  public firePattern(origin: BulletOrigin, pattern: BulletPattern, damage: number, angle?: number): void {
+    const active: ActivePattern = { origin, pattern, damage, angle, volley: 0, timer: 0 };
+    this.fireVolley(active);
+    if (active.volley < getVolleyCount(pattern)) {
+      this.activePatterns.push(active);
     }
   }
 
@@ -113,6 +178,53 @@ export class EnemyProjectileManager {
     this.projectiles.getChildren().forEach(obj => {
       (obj as EnemyProjectile).update(delta);
     });
+
+    // Later volleys, dropped once their shooter is gone
+    this.activePatterns = this.activePatterns.filter((active) => {
+      if (!active.origin.active) return false;
+
+      active.timer -= delta;
+      while (active.timer <= 0 && active.volley < getVolleyCount(active.pattern)) {
+        this.fireVolley(active);
+      }
+      return active.volley < getVolleyCount(active.pattern);
+    });
+  }
+
+  private fireVolley(active: ActivePattern): void {
+    const { origin, pattern } = active;
+    const aim = active.angle ?? Phaser.Math.Angle.Between(origin.x, origin.y, this.player.x, this.player.y);
+
+    getVolleyAngles(pattern, aim, active.volley).forEach((angle) => {
+      this.getFreeProjectile()?.fire(origin.x, origin.y, angle, active.damage, pattern);
+    });
+
+    active.volley++;
+    active.timer += pattern.interval ?? 0;
+  }
+
+  /**
+   * A free projectile, growing the pool in steps while under the cap
+   */
+  private getFreeProjectile(): EnemyProjectile | null {
+    const projectile = this.projectiles.getFirstDead(false) as EnemyProjectile | null;
+    if (projectile) return projectile;
+
+    const room = MAX_POOL_SIZE - this.projectiles.getLength();
+    if (room <= 0) return null;
+
+    this.growPool(Math.min(POOL_GROW_STEP, room));
+    return this.projectiles.getFirstDead(false) as EnemyProjectile | null;
+  }
+
+  private growPool(count: number): void {
+    const created: EnemyProjectile[] = [];
+    for (let i = 0; i < count; i++) {
+      const projectile = new EnemyProjectile(this.scene, 0, 0);
+      this.projectiles.add(projectile);
+      created.push(projectile);
+    }
+    this.onProjectilesCreatedCallback?.(created);
   }
 
   /**
@@ -121,4 +233,11 @@ export class EnemyProjectileManager {
   public getProjectiles(): Phaser.GameObjects.Group {
     return this.projectiles;
   }
+
+  /**
+   * Set callback for projectiles added when the pool grows (e.g. to hide them from the UI camera)
+   */
+  public setOnProjectilesCreated(callback: (projectiles: Phaser.GameObjects.GameObject[]) => void): void {
+    this.onProjectilesCreatedCallback = callback;
+  }
 }
@@ -1,5 +1,6 @@
 import Phaser from 'phaser';
 import { Enemy, ENEMY_TYPES, BOSS_TYPES, EnemyConfig } from '../entities/Enemy';
+import { Boss, BOSS_PHASES } from '../entities/Boss';
 import { Player } from '../entities/Player';
 import {
   ENEMY_SPAWN_DISTANCE,
@@ -9,6 +10,12 @@ import {
   SPAWN_INTERVAL_DECREASE_RATE,
   MAX_ENEMIES_ON_SCREEN,
 } from '../config/Constants';
+import { rng, RandomStream } from './RandomManager';
+import { GameEventBus } from './GameEventBus';
+import { BulletFireCallback } from './BulletPatterns';
+import { TelegraphManager } from './TelegraphManager';
+import { EnemyFlocking } from './EnemyFlocking';
+import { FlowField } from './FlowField';
 
 /**
  * EnemySpawner - Manages enemy spawning and despawning
@@ -17,6 +24,9 @@ export class EnemySpawner {
   private scene: Phaser.Scene;
   private player: Player;
   private enemies: Phaser.GameObjects.Group;
+  private telegraphManager: TelegraphManager;
+  private flocking: EnemyFlocking;
+  private flowField?: FlowField;
   
   private spawnInterval: number;
   private timeSinceLastSpawn: number = 0;
@@ -25,17 +35,17 @@ export class EnemySpawner {
   private lastBossWave: number = 0;
   private bossSpawnedThisWave: boolean = false;
   
+  private eventBus: GameEventBus;
+  
   // Callbacks
-  private onEnemyKilledCallback?: (enemy: Enemy, xp: number) => void;
-  private onEnemyShootCallback?: (x: number, y: number, damage: number) => void;
-  private onBossKilledCallback?: (enemy: Enemy) => void;
-  private onEnemyDeathCallback?: () => void;
-  private onBossSpawnCallback?: (boss: Enemy) => void;
+  private onEnemyShootCallback?: BulletFireCallback;
+  private onEnemyExplodeCallback?: (x: number, y: number, radius: number, damage: number) => void;
   private isPlayerInSafeZoneCallback?: () => boolean;
 
   constructor(scene: Phaser.Scene, player: Player) {
     this.scene = scene;
     this.player = player;
+    this.eventBus = GameEventBus.getInstance();
     this.spawnInterval = INITIAL_SPAWN_INTERVAL;
     
     // Create enemies group with physics
@@ -43,6 +53,12 @@ export class EnemySpawner {
       classType: Enemy,
       runChildUpdate: true,
     });
+
+    // Warnings enemies show before their attacks land
+    this.telegraphManager = new TelegraphManager(scene);
+
+    // Keeps the horde from collapsing into one blob
+    this.flocking = new EnemyFlocking(this.enemies);
   }
 
   /**
@@ -60,6 +76,15 @@ export class EnemySpawner {
     // Despawn far enemies
     this.despawnFarEnemies();
 
+    // Re-bucket enemies for next frame's steering
+    this.flocking.update();
+
+    // Keep paths leading to the player
+    this.flowField?.update(this.player.x, this.player.y);
+
+    // Resolve telegraphed attacks
+    this.telegraphManager.update(delta);
+
     // Update spawn interval (gets faster over time)
     this.updateDifficulty(time);
   }
@@ -75,13 +100,18 @@ export class EnemySpawner {
     if (!spawnPos) return;
 
     // Select enemy type based on wave
-    const enemyConfig = this.selectEnemyType();
-    
-    // Create enemy
+    this.spawnEnemyAt(spawnPos.x, spawnPos.y, this.selectEnemyType());
+    this.totalEnemiesSpawned++;
+  }
+
+  /**
+   * Create a regular enemy and wire up its callbacks
+   */
+  private spawnEnemyAt(x: number, y: number, enemyConfig: EnemyConfig): Enemy {
     const enemy = new Enemy(
       this.scene,
-      spawnPos.x,
-      spawnPos.y,
+      x,
+      y,
       this.player,
       enemyConfig
     );
@@ -99,6 +129,16 @@ export class EnemySpawner {
       enemy.setOnShoot(this.onEnemyShootCallback);
     }
 
+    // Set up blast callback for bombers
+    if (this.onEnemyExplodeCallback) {
+      enemy.setOnExplode(this.onEnemyExplodeCallback);
+    }
+    enemy.setTelegraphs(this.telegraphManager);
+    enemy.setFlocking(this.flocking);
+    if (this.flowField) {
+      enemy.setFlowField(this.flowField);
+    }
+
     // If player is in safe zone, set enemy to wander immediately
     if (this.isPlayerInSafeZoneCallback?.()) {
       enemy.setWandering(true);
@@ -106,7 +146,7 @@ export class EnemySpawner {
 
     // Add to group
     this.enemies.add(enemy);
-    this.totalEnemiesSpawned++;
+    return enemy;
   }
 
   private getSpawnPosition(): { x: number; y: number } | null {
@@ -114,10 +154,10 @@ export class EnemySpawner {
     const playerY = this.player.y;
 
     // Random angle around player
-    const angle = Math.random() * Math.PI * 2;
+    const angle = rng(RandomStream.SPAWNS).angle();
     
     // Random distance (at least spawn distance, within despawn distance)
-    const distance = ENEMY_SPAWN_DISTANCE + Math.random() * 100;
+    const distance = ENEMY_SPAWN_DISTANCE + rng(RandomStream.SPAWNS).next() * 100;
 
     const x = playerX + Math.cos(angle) * distance;
     const y = playerY + Math.sin(angle) * distance;
@@ -128,6 +168,11 @@ export class EnemySpawner {
       return null;
     }
 
+    // Not inside walls or sealed-off pockets
+    if (this.flowField && !this.flowField.isReachable(x, y)) {
+      return null;
+    }
+
     return { x, y };
   }
 
@@ -152,8 +197,8 @@ export class EnemySpawner {
       // 20% chance for elite at wave 7, increasing by 5% per wave (max 50%)
       const eliteChance = Math.min(0.5, 0.2 + (this.waveNumber - 7) * 0.05);
       
-      if (Math.random() < eliteChance) {
-        const randomElite = eliteTypes[Math.floor(Math.random() * eliteTypes.length)];
+      if (rng(RandomStream.SPAWNS).next() < eliteChance) {
+        const randomElite = rng(RandomStream.SPAWNS).pick(eliteTypes);
         return ENEMY_TYPES[randomElite];
       }
       
@@ -161,7 +206,7 @@ export class EnemySpawner {
     }
 
     // Random selection
-    const randomType = availableTypes[Math.floor(Math.random() * availableTypes.length)];
+    const randomType = rng(RandomStream.SPAWNS).pick(availableTypes);
     return ENEMY_TYPES[randomType];
   }
 
@@ -211,7 +256,8 @@ export class EnemySpawner {
     // Select boss type based on wave
     const bossKeys = Object.keys(BOSS_TYPES);
     const bossIndex = Math.floor((this.waveNumber / 3 - 1) % bossKeys.length);
-    const bossConfig = BOSS_TYPES[bossKeys[bossIndex]];
+    const bossKey = bossKeys[bossIndex];
+    const bossConfig = BOSS_TYPES[bossKey];
 
     // Scale boss stats with wave number
     const scaleFactor = 1 + (this.waveNumber - 3) * 0.15;
@@ -222,12 +268,13 @@ export class EnemySpawner {
       xpValue: Math.floor(bossConfig.xpValue * scaleFactor),
     };
 
-    const boss = new Enemy(
+    const boss = new Boss(
       this.scene,
       spawnPos.x,
       spawnPos.y,
       this.player,
-      scaledConfig
+      scaledConfig,
+      BOSS_PHASES[bossKey] ?? []
     );
 
     // Ensure boss scrolls with camera (fix for enemies stuck to screen)
@@ -240,22 +287,30 @@ export class EnemySpawner {
 
     boss.setOnDeath((deadBoss) => {
       this.onEnemyDeath(deadBoss);
-      if (this.onBossKilledCallback) {
-        this.onBossKilledCallback(deadBoss);
-      }
+      this.eventBus.emit('boss:killed', { boss: deadBoss });
     });
 
     if (this.onEnemyShootCallback) {
       boss.setOnShoot(this.onEnemyShootCallback);
     }
+    boss.setTelegraphs(this.telegraphManager);
+    boss.setFlocking(this.flocking);
+    if (this.flowField) {
+      boss.setFlowField(this.flowField);
+    }
+
+    // Summoned adds still respect the enemy cap
+    boss.setOnSummon((x, y, enemyType) => {
+      const config = ENEMY_TYPES[enemyType];
+      if (config && this.enemies.getLength() < MAX_ENEMIES_ON_SCREEN) {
+        this.spawnEnemyAt(x, y, config);
+      }
+    });
 
     this.enemies.add(boss);
     this.bossSpawnedThisWave = true;
 
-    // Trigger boss spawn callback with boss reference
-    if (this.onBossSpawnCallback) {
-      this.onBossSpawnCallback(boss);
-    }
+    this.eventBus.emit('boss:spawned', { boss });
 
     // Show boss warning
     this.showBossWarning();
@@ -303,14 +358,8 @@ export class EnemySpawner {
   }
 
   private onEnemyDeath(enemy: Enemy): void {
-    // Trigger callback (for XP, score, etc.)
-    if (this.onEnemyKilledCallback) {
-      this.onEnemyKilledCallback(enemy, enemy.getXPValue());
-    }
-    // Trigger death sound callback
-    if (this.onEnemyDeathCallback) {
-      this.onEnemyDeathCallback();
-    }
+    // Listeners handle XP, score, gold, sounds, etc.
+    this.eventBus.emit('enemy:killed', { enemy, xp: enemy.getXPValue() });
   }
 
   /**
@@ -320,53 +369,47 @@ export class EnemySpawner {
     return this.enemies;
   }
 
-  /**
-   * Set callback for when enemy is killed
-   */
-  public setOnEnemyKilled(callback: (enemy: Enemy, xp: number) => void): void {
-    this.onEnemyKilledCallback = callback;
-  }
-
   /**
    * Set callback for when shooter enemy fires
    */
-  public setOnEnemyShoot(callback: (x: number, y: number, damage: number) => void): void {
+  public setOnEnemyShoot(callback: BulletFireCallback): void {
     this.onEnemyShootCallback = callback;
   }
 
   /**
-   * Get current wave number
+   * Set callback for when a bomber's blast goes off
    */
-  public getWaveNumber(): number {
-    return this.waveNumber;
+  public setOnEnemyExplode(callback: (x: number, y: number, radius: number, damage: number) => void): void {
+    this.onEnemyExplodeCallback = callback;
   }
 
   /**
-   * Get total enemies killed
+   * Set the map's flow field so enemies path around walls
    */
-  public getEnemiesKilled(): number {
-    return this.totalEnemiesSpawned - this.enemies.getLength();
+  public setFlowField(flowField: FlowField): void {
+    this.flowField = flowField;
+    this.flowField.update(this.player.x, this.player.y);
   }
 
   /**
-   * Set callback for when a boss is killed
+   * Get the telegraph layer (e.g. to hide it from the UI camera)
    */
-  public setOnBossKilled(callback: (enemy: Enemy) => void): void {
-    this.onBossKilledCallback = callback;
+  public getTelegraphManager(): TelegraphManager {
+    return this.telegraphManager;
   }
 
   /**
-   * Set callback for when any enemy dies (for sound effects)
+   * Get current wave number
    */
-  public setOnEnemyDeath(callback: () => void): void {
-    this.onEnemyDeathCallback = callback;
+  public getWaveNumber(): number {
+    return this.waveNumber;
   }
 
   /**
-   * Set callback for when a boss spawns (receives boss enemy reference)
+   * Get total enemies killed
    */
-  public setOnBossSpawn(callback: (boss: Enemy) => void): void {
-    this.onBossSpawnCallback = callback;
+  public getEnemiesKilled(): number {
+    return this.totalEnemiesSpawned - this.enemies.getLength();
   }
 
   /**
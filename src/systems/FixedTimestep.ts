@@ -0,0 +1,98 @@
+import Phaser from 'phaser';
+
+export const FIXED_TIMESTEP = 1000 / 60; // ms of game time per step (one Arcade physics step)
+const MAX_STEPS_PER_FRAME = 5;           // A longer stall is dropped rather than caught up
+
+/**
+ * FixedTimestep - Runs a scene on fixed steps of game time
+ *
+ * Takes over the scene's systems step so the clock, physics, animations and the
+ * scene's update all advance FIXED_TIMESTEP at a time, however long rendered frames
+ * take. The same inputs on the same steps then play out the same run on any machine.
+ *
+ * While paused no game time passes: input and tweens still tick (menus keep working)
+ * but the clock, physics and the scene's update stand still.
+ */
+export class FixedTimestep {
+  private systems: Phaser.Scenes.Systems;
+  private clock: Phaser.Time.Clock;
+  private step: (time: number, delta: number) => void;
+  private time: number;
+  private accumulator: number = 0;
+  private paused: boolean = false;
+  private onIdle?: (delta: number) => void;
+
+  constructor(scene: Phaser.Scene) {
+    const systems = scene.sys;
+    this.systems = systems;
+    this.clock = scene.time;
+    this.step = systems.step;
+    this.time = scene.time.now;
+
+    systems.step = (_time: number, delta: number) => this.advance(delta);
+
+    // Systems and the clock outlive the scene, so hand them back as found for its next run
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, () => {
+      systems.step = this.step;
+      this.clock.paused = false;
+    });
+  }
+
+  /**
+   * Stop or restart game time (level-up screen, menus), pausing the scene's clock with it
+   */
+  public setPaused(paused: boolean): void {
+    this.paused = paused;
+    this.clock.paused = paused;
+    this.accumulator = 0;
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Called once per frame while paused, with the frame's real time in ms
+   * (a safe point to unpause: never in the middle of a step)
+   */
+  public setOnIdle(callback: (delta: number) => void): void {
+    this.onIdle = callback;
+  }
+
+  /**
+   * Run however many whole steps the frame's real time covers
+   */
+  private advance(delta: number): void {
+    if (this.paused) {
+      this.onIdle?.(delta);
+      this.idle();
+      return;
+    }
+
+    this.accumulator += delta;
+    let steps = 0;
+    while (this.accumulator >= FIXED_TIMESTEP && steps < MAX_STEPS_PER_FRAME) {
+      this.accumulator -= FIXED_TIMESTEP;
+      this.time += FIXED_TIMESTEP;
+      this.step.call(this.systems, this.time, FIXED_TIMESTEP);
+      steps++;
+
+      // Paused during the step (level-up): the rest of the frame is dropped
+      if (this.paused) return;
+    }
+
+    if (steps === MAX_STEPS_PER_FRAME) {
+      this.accumulator = Math.min(this.accumulator, FIXED_TIMESTEP);
+    }
+  }
+
+  /**
+   * Tick the scene's plugins (input, tweens) without running the scene or letting game time pass
+   */
+  private idle(): void {
+    const events = this.systems.events;
+    events.emit(Phaser.Scenes.Events.PRE_UPDATE, this.time, 0);
+    events.emit(Phaser.Scenes.Events.UPDATE, this.time, 0);
+    events.emit(Phaser.Scenes.Events.POST_UPDATE, this.time, 0);
+  }
+}
@@ -0,0 +1,274 @@
+import { TILE_SIZE } from '../config/Constants';
+import { TileType } from './DungeonGenerator';
+
+const NODES_PER_UPDATE = 1024; // Tiles settled per frame while a new field is being built
+const DIAGONAL_COST = Math.SQRT2;
+
+// Neighbour offsets: orthogonal first, then diagonal
+const NEIGHBOR_X = [1, -1, 0, 0, 1, 1, -1, -1];
+const NEIGHBOR_Y = [0, 0, 1, -1, 1, -1, 1, -1];
+
+/**
+ * FlowField - Walking distances to the player over the dungeon grid, so enemies
+ * can follow corridors around walls instead of pushing straight into them
+ *
+ * The field is rebuilt whenever the player moves onto a new tile. The rebuild is
+ * spread over several frames; enemies keep using the last finished field until
+ * the new one is ready.
+ */
+export class FlowField {
+  private width: number;
+  private height: number;
+  private tileSize: number;
+  private walkable: Uint8Array;
+
+  // Finished field
+  private distances: Float64Array;
+  private targetTile: number = -1;
+  private lineOfSight: Map<number, boolean> = new Map(); // Per tile, toward targetTile
+
+  // Field being built
+  private building: Float64Array;
+  private buildTarget: number = -1;
+  private frontierTiles: number[] = [];
+  private frontierCosts: number[] = [];
+
+  constructor(grid: TileType[][], tileSize: number = TILE_SIZE) {
+    this.height = grid.length;
+    this.width = grid[0]?.length ?? 0;
+    this.tileSize = tileSize;
+
+    this.walkable = new Uint8Array(this.width * this.height);
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        this.walkable[y * this.width + x] = grid[y][x] === TileType.FLOOR ? 1 : 0;
+      }
+    }
+
+    this.distances = new Float64Array(this.width * this.height).fill(Infinity);
+    this.building = new Float64Array(this.width * this.height).fill(Infinity);
+  }
+
+  /**
+   * Follow the target, continuing any rebuild in progress
+   */
+  public update(targetX: number, targetY: number): void {
+    const tile = this.getTileIndex(targetX, targetY);
+    if (tile >= 0 && this.walkable[tile]) {
+      if (tile === this.targetTile) {
+        this.buildTarget = -1; // Back where the finished field leads, drop any rebuild
+      } else if (tile !== this.buildTarget) {
+        this.startBuild(tile);
+      }
+    }
+
+    if (this.buildTarget < 0) return;
+
+    // Without a field yet, build it all at once
+    this.expand(this.targetTile < 0 ? Infinity : NODES_PER_UPDATE);
+  }
+
+  /**
+   * Heading along the shortest walkable path, or null to head straight for the
+   * target (clear line of sight, no field yet, or no path at all)
+   */
+  public getDirection(x: number, y: number): number | null {
+    const tile = this.getTileIndex(x, y);
+    if (tile < 0 || this.hasLineOfSight(x, y)) return null;
+
+    const tileX = tile % this.width;
+    const tileY = Math.floor(tile / this.width);
+    let best = -1;
+    let bestDistance = this.distances[tile];
+
+    for (let i = 0; i < NEIGHBOR_X.length; i++) {
+      const neighbor = this.getNeighbor(tileX, tileY, i);
+      if (neighbor >= 0 && this.distances[neighbor] < bestDistance) {
+        best = neighbor;
+        bestDistance = this.distances[neighbor];
+      }
+    }
+
+    if (best < 0) return null;
+
+    const centerX = ((best % this.width) + 0.5) * this.tileSize;
+    const centerY = (Math.floor(best / this.width) + 0.5) * this.tileSize;
+    return Math.atan2(centerY - y, centerX - x);
+  }
+
+  /**
+   * Whether a straight line from this point's tile to the target's tile stays on floor
+   * (assumed until the first field is built)
+   */
+  public hasLineOfSight(x: number, y: number): boolean {
+    if (this.targetTile < 0) return true;
+    const tile = this.getTileIndex(x, y);
+    if (tile < 0) return false;
+
+    let visible = this.lineOfSight.get(tile);
+    if (visible === undefined) {
+      visible = this.traceLine(tile, this.targetTile);
+      this.lineOfSight.set(tile, visible);
+    }
+    return visible;
+  }
+
+  /**
+   * Whether the target can be walked to from here (used to keep spawns out of walls and sealed pockets)
+   */
+  public isReachable(x: number, y: number): boolean {
+    const tile = this.getTileIndex(x, y);
+    if (tile < 0 || !this.walkable[tile]) return false;
+    return this.targetTile < 0 || this.distances[tile] < Infinity;
+  }
+
+  private startBuild(target: number): void {
+    this.buildTarget = target;
+    this.building.fill(Infinity);
+    this.building[target] = 0;
+    this.frontierTiles = [target];
+    this.frontierCosts = [0];
+  }
+
+  /**
+   * Dijkstra over the grid, settling up to `budget` tiles
+   */
+  private expand(budget: number): void {
+    let settled = 0;
+    while (this.frontierTiles.length > 0 && settled < budget) {
+      const cost = this.frontierCosts[0];
+      const tile = this.popFrontier();
+      if (cost > this.building[tile]) continue; // Stale entry, already reached cheaper
+      settled++;
+
+      const tileX = tile % this.width;
+      const tileY = Math.floor(tile / this.width);
+      for (let i = 0; i < NEIGHBOR_X.length; i++) {
+        const neighbor = this.getNeighbor(tileX, tileY, i);
+        if (neighbor < 0) continue;
+
+        const next = cost + (i < 4 ? 1 : DIAGONAL_COST);
+        if (next < this.building[neighbor]) {
+          this.building[neighbor] = next;
+          this.pushFrontier(neighbor, next);
+        }
+      }
+    }
+
+    if (this.frontierTiles.length > 0) return;
+
+    // Finished: swap it in
+    const finished = this.building;
+    this.building = this.distances;
+    this.distances = finished;
+    this.targetTile = this.buildTarget;
+    this.buildTarget = -1;
+    this.lineOfSight.clear();
+  }
+
+  /**
+   * Walkable neighbour in direction i, or -1 (diagonals can't cut wall corners)
+   */
+  private getNeighbor(tileX: number, tileY: number, i: number): number {
+    const x = tileX + NEIGHBOR_X[i];
+    const y = tileY + NEIGHBOR_Y[i];
+    if (!this.isWalkableTile(x, y)) return -1;
+    if (i >= 4 && (!this.isWalkableTile(x, tileY) || !this.isWalkableTile(tileX, y))) return -1;
+    return y * this.width + x;
+  }
+
+  /**
+   * Step tile by tile along the line between two tile centers
+   */
+  private traceLine(from: number, to: number): boolean {
+    let x = from % this.width;
+    let y = Math.floor(from / this.width);
+    const endX = to % this.width;
+    const endY = Math.floor(to / this.width);
+    const dx = Math.abs(endX - x);
+    const dy = Math.abs(endY - y);
+    const stepX = x < endX ? 1 : -1;
+    const stepY = y < endY ? 1 : -1;
+    let error = dx - dy;
+
+    while (x !== endX || y !== endY) {
+      if (!this.isWalkableTile(x, y)) return false;
+
+      const doubled = error * 2;
+      const moveX = doubled > -dy;
+      const moveY = doubled < dx;
+      // Bodies snag on wall corners, so a diagonal step needs both sides open
+      if (moveX && moveY && (!this.isWalkableTile(x + stepX, y) || !this.isWalkableTile(x, y + stepY))) return false;
+      if (moveX) {
+        error -= dy;
+        x += stepX;
+      }
+      if (moveY) {
+        error += dx;
+        y += stepY;
+      }
+    }
+    return this.isWalkableTile(x, y);
+  }
+
+  private isWalkableTile(x: number, y: number): boolean {
+    return x >= 0 && y >= 0 && x < this.width && y < this.height && this.walkable[y * this.width + x] === 1;
+  }
+
+  private getTileIndex(x: number, y: number): number {
+    const tileX = Math.floor(x / this.tileSize);
+    const tileY = Math.floor(y / this.tileSize);
+    if (tileX < 0 || tileY < 0 || tileX >= this.width || tileY >= this.height) return -1;
+    return tileY * this.width + tileX;
+  }
+
+  // Binary min-heap over (tile, cost) pairs
+  private pushFrontier(tile: number, cost: number): void {
+    const tiles = this.frontierTiles;
+    const costs = this.frontierCosts;
+    let i = tiles.length;
+    tiles.push(tile);
+    costs.push(cost);
+
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (costs[parent] <= cost) break;
+      tiles[i] = tiles[parent];
+      costs[i] = costs[parent];
+      i = parent;
+    }
+    tiles[i] = tile;
+    costs[i] = cost;
+  }
+
+  private popFrontier(): number {
+    const tiles = this.frontierTiles;
+    const costs = this.frontierCosts;
+    const top = tiles[0];
+    const lastTile = tiles.pop()!;
+    const lastCost = costs.pop()!;
+    if (tiles.length === 0) return top;
+
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let smallest = i;
+      let smallestCost = lastCost;
+      if (left < tiles.length && costs[left] < smallestCost) {
+        smallest = left;
+        smallestCost = costs[left];
+      }
+      if (right < tiles.length && costs[right] < smallestCost) {
+        smallest = right;
+      }
+      if (smallest === i) break;
+      tiles[i] = tiles[smallest];
+      costs[i] = costs[smallest];
+      i = smallest;
+    }
+    tiles[i] = lastTile;
+    costs[i] = lastCost;
+    return top;
+  }
+}
@@ -0,0 +1,129 @@
+import type Phaser from 'phaser';
+import type { Entity } from '../entities/Entity';
+import type { Enemy } from '../entities/Enemy';
+import type { Upgrade } from './UpgradeSystem';
+import type { WeaponType } from './WeaponManager';
+import type { CharacterAbility } from './CharacterAbilityManager';
+import type { StatModifier } from './StatBlock';
+import type { DamageEvent, DamageType } from './DamagePipeline';
+import type { StatusEffectType } from './StatusEffects';
+import type { PassiveItemType } from './PassiveItems';
+
+/**
+ * What was picked up, and where it came from
+ */
+export type PickupKind = 'xp' | 'gold' | 'material' | 'health';
+export type PickupSource = 'gem' | 'coin' | 'supply_drop' | 'station';
+
+/**
+ * Which system granted a buff
+ */
+export type BuffSource = 'altar' | 'supply_drop';
+
+/**
+ * Gameplay events and their payloads (void = no payload)
+ */
+export interface GameEvents {
+  'enemy:killed': { enemy: Enemy; xp: number };
+  'boss:spawned': { boss: Enemy };
+  'boss:killed': { boss: Enemy };
+  'boss:phaseChanged': { boss: Enemy; phase: number; phases: number };
+  'damage:dealt': { damage: DamageEvent };
+  'status:tick': { target: Entity; effect: StatusEffectType; amount: number; damageType: DamageType; source: Entity | null };
+  'player:damaged': { amount: number; hp: number };
+  'player:leveledUp': { level: number };
+  'player:died': void;
+  'pickup:collected': { kind: PickupKind; amount: number; source: PickupSource };
+  'magnet:activated': void;
+  'buff:applied': { source: BuffSource; name: string; icon: string; color: number; duration?: number };
+  'stat:expired': { modifier: StatModifier };
+  'ability:triggered': { ability: CharacterAbility; active: boolean };
+  'upgrade:applied': { upgrade: Upgrade };
+  'weapon:unlocked': { type: WeaponType };
+  'weapon:evolved': { type: WeaponType };
+  'passive:leveled': { type: PassiveItemType; level: number };
+  'station:entered': void;
+  'station:left': void;
+  'station:upgradeStarted': void;
+  'station:upgraded': { level: number };
+  'station:materialsChanged': { total: number };
+  'notification': { message: string; color: number; icon?: string };
+  'world:objectCreated': { object: Phaser.GameObjects.GameObject }; // Drawn in the world after setup (the UI camera must skip it)
+}
+
+export type GameEventName = keyof GameEvents;
+export type GameEventListener<K extends GameEventName> = (payload: GameEvents[K]) => void;
+type GameEventArgs<K extends GameEventName> = GameEvents[K] extends void ? [] : [payload: GameEvents[K]];
+
+/**
+ * GameEventBus - Typed multi-subscriber event bus for gameplay events
+ * Managers emit into it; HUD, sound and achievements subscribe independently.
+ * Cleared at the start of every run so listeners never outlive their scene.
+ */
+export class GameEventBus {
+  private static instance: GameEventBus;
+  private listeners: { [K in GameEventName]?: GameEventListener<K>[] } = {};
+
+  private constructor() {}
+
+  static getInstance(): GameEventBus {
+    if (!GameEventBus.instance) {
+      GameEventBus.instance = new GameEventBus();
+    }
+    return GameEventBus.instance;
+  }
+
+  /**
+   * Subscribe to an event
+   * @returns Function that removes the listener
+   */
+  public on<K extends GameEventName>(event: K, listener: GameEventListener<K>): () => void {
+    const list: GameEventListener<K>[] = this.listeners[event] ?? [];
+    list.push(listener);
+    this.listeners[event] = list as (typeof this.listeners)[K];
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  public once<K extends GameEventName>(event: K, listener: GameEventListener<K>): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  /**
+   * Remove a listener
+   */
+  public off<K extends GameEventName>(event: K, listener: GameEventListener<K>): void {
+    const list: GameEventListener<K>[] | undefined = this.listeners[event];
+    if (!list) return;
+
+    const index = list.indexOf(listener);
+    if (index !== -1) {
+      list.splice(index, 1);
+    }
+  }
+
+  /**
+   * Notify every listener of an event, in subscription order
+   */
+  public emit<K extends GameEventName>(event: K, ...args: GameEventArgs<K>): void {
+    const list: GameEventListener<K>[] | undefined = this.listeners[event];
+    if (!list || list.length === 0) return;
+
+    // Copy so listeners can unsubscribe while being notified
+    const payload = args[0] as GameEvents[K];
+    [...list].forEach(listener => listener(payload));
+  }
+
+  /**
+   * Remove all listeners (called when a run starts)
+   */
+  public clear(): void {
+    this.listeners = {};
+  }
+}
@@ -1,6 +1,12 @@
 import Phaser from 'phaser';
 import { DEPTH } from '../config/Constants';
 import { Player } from '../entities/Player';
+import { rng, RandomStream } from './RandomManager';
+import { GameEventBus } from './GameEventBus';
+import { StatType } from './StatBlock';
+
+const POP_DURATION = 300;     // ms the coin takes to spin out from the kill
+const COLLECT_DURATION = 150; // ms of golden flash once picked up
 
 /**
  * Gold Coin - Collectible that gives gold to player (persists after run)
@@ -14,6 +20,14 @@ class GoldCoin extends Phaser.Physics.Arcade.Sprite {
   private target?: Player;
   private glowTimer: number = 0;
 
+  // Pop-out and pickup run on game time like gems (see XPGem)
+  private popFromX: number = 0;
+  private popFromY: number = 0;
+  private popToX: number = 0;
+  private popToY: number = 0;
+  private popTime: number = 0;
+  private collectTime: number = -1; // -1 while not collected
+
   constructor(scene: Phaser.Scene, x: number, y: number) {
     // Use a circular graphics object as placeholder (gold colored)
     super(scene, x, y, 'gold_coin');
@@ -43,6 +57,7 @@ class GoldCoin extends Phaser.Physics.Arcade.Sprite {
     this.attractSpeed = 0;
     this.isAttracting = false;
     this.glowTimer = 0;
+    this.collectTime = -1;
     this.setTint(0xffffff);
     
     // Enable physics body
@@ -53,20 +68,14 @@ class GoldCoin extends Phaser.Physics.Arcade.Sprite {
     }
     
     // Pop-out animation with spin
-    const randomAngle = Math.random() * Math.PI * 2;
-    const popDistance = 20 + Math.random() * 30;
-    const targetX = x + Math.cos(randomAngle) * popDistance;
-    const targetY = y + Math.sin(randomAngle) * popDistance;
-    
-    this.scene.tweens.add({
-      targets: this,
-      x: targetX,
-      y: targetY,
-      scale: { from: 0, to: 1 },
-      angle: { from: 0, to: 360 },
-      duration: 300,
-      ease: 'Back.easeOut',
-    });
+    const randomAngle = rng(RandomStream.LOOT).angle();
+    const popDistance = 20 + rng(RandomStream.LOOT).next() * 30;
+    this.popFromX = x;
+    this.popFromY = y;
+    this.popToX = x + Math.cos(randomAngle) * popDistance;
+    this.popToY = y + Math.sin(randomAngle) * popDistance;
+    this.popTime = 0;
+    this.setScale(0);
   }
 
   /**
@@ -83,17 +92,39 @@ class GoldCoin extends Phaser.Physics.Arcade.Sprite {
   public updateCoin(delta: number): void {
     if (!this.active) return;
 
+    if (this.collectTime >= 0) {
+      this.collectTime += delta;
+      const progress = Math.min(1, this.collectTime / COLLECT_DURATION);
+      this.setScale(1 + progress * 0.5);
+      this.setAlpha(1 - progress);
+      if (progress >= 1) this.deactivate();
+      return;
+    }
+
     // Sparkle effect
     this.glowTimer += delta;
     if (this.glowTimer > 200) {
       this.glowTimer = 0;
-      const brightness = 0.8 + Math.random() * 0.2;
+      const brightness = 0.8 + rng(RandomStream.COSMETICS).next() * 0.2;
       const r = Math.floor(255 * brightness);
       const g = Math.floor(215 * brightness);
       const b = Math.floor(0);
       this.setTint(Phaser.Display.Color.GetColor(r, g, b));
     }
 
+    if (this.popTime < POP_DURATION) {
+      this.popTime += delta;
+      const progress = Math.min(1, this.popTime / POP_DURATION);
+      const eased = Phaser.Math.Easing.Back.Out(progress);
+      this.setPosition(
+        Phaser.Math.Linear(this.popFromX, this.popToX, eased),
+        Phaser.Math.Linear(this.popFromY, this.popToY, eased)
+      );
+      this.setScale(eased);
+      this.setAngle(eased * 360);
+      return;
+    }
+
     if (!this.isAttracting || !this.target) return;
 
     // Accelerate toward player
@@ -119,14 +150,13 @@ class GoldCoin extends Phaser.Physics.Arcade.Sprite {
   public collect(): number {
     const value = this.goldValue;
     
-    // Collection effect - golden flash
-    this.scene.tweens.add({
-      targets: this,
-      scale: 1.5,
-      alpha: 0,
-      duration: 150,
-      onComplete: () => this.deactivate()
-    });
+    // Collection effect - golden flash (played by updateCoin); no second pickup meanwhile
+    this.collectTime = 0;
+    this.setVelocity(0, 0);
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) {
+      body.enable = false;
+    }
     
     return value;
   }
@@ -142,6 +172,7 @@ class GoldCoin extends Phaser.Physics.Arcade.Sprite {
     this.setAlpha(1);
     this.setAngle(0);
     this.isAttracting = false;
+    this.collectTime = -1;
     
     const body = this.body as Phaser.Physics.Arcade.Body;
     if (body) {
@@ -161,9 +192,8 @@ export class GoldManager {
   private scene: Phaser.Scene;
   private coins: Phaser.GameObjects.Group;
   private player: Player;
-  private attractRadius: number = 60;
+  private attractRadius: number = 60; // Base radius, scaled by the pickup radius stat
   private sessionGold: number = 0;
-  private onCollectCallback?: (gold: number) => void;
 
   constructor(scene: Phaser.Scene, player: Player, poolSize: number = 50) {
     this.scene = scene;
@@ -229,7 +259,7 @@ export class GoldManager {
    */
   public spawnFromEnemy(x: number, y: number, baseGold: number, dropChance: number = 0.3): void {
     // Random chance to drop gold
-    if (Math.random() > dropChance) return;
+    if (rng(RandomStream.LOOT).next() > dropChance) return;
     
     // Bosses always drop gold
     const goldAmount = Math.max(1, Math.floor(baseGold));
@@ -258,8 +288,8 @@ export class GoldManager {
     
     for (let i = 0; i < coinCount; i++) {
       this.scene.time.delayedCall(i * 80, () => {
-        const offsetX = (Math.random() - 0.5) * 40;
-        const offsetY = (Math.random() - 0.5) * 40;
+        const offsetX = (rng(RandomStream.LOOT).next() - 0.5) * 40;
+        const offsetY = (rng(RandomStream.LOOT).next() - 0.5) * 40;
         this.spawnCoin(x + offsetX, y + offsetY, goldPerCoin);
       });
     }
@@ -269,6 +299,7 @@ export class GoldManager {
    * Update all coins
    */
   public update(delta: number): void {
+    const radius = this.attractRadius * this.player.stats.get(StatType.PICKUP_RADIUS);
     this.coins.getChildren().forEach((obj) => {
       const coin = obj as GoldCoin;
       if (!coin.active) return;
@@ -279,7 +310,7 @@ export class GoldManager {
         this.player.x, this.player.y
       );
 
-      if (distance < this.attractRadius) {
+      if (distance < radius) {
         coin.startAttract(this.player);
       }
 
@@ -313,6 +344,13 @@ export class GoldManager {
     this.attractRadius = radius;
   }
 
+  /**
+   * Get attract radius
+   */
+  public getAttractRadius(): number {
+    return this.attractRadius;
+  }
+
   /**
    * Get session gold collected
    */
@@ -325,16 +363,7 @@ export class GoldManager {
    */
   public addSessionGold(amount: number): void {
     this.sessionGold += amount;
-    if (this.onCollectCallback) {
-      this.onCollectCallback(amount);
-    }
-  }
-
-  /**
-   * Set callback for gold collection
-   */
-  public setOnCollect(callback: (gold: number) => void): void {
-    this.onCollectCallback = callback;
+    GameEventBus.getInstance().emit('pickup:collected', { kind: 'gold', amount, source: 'coin' });
   }
 
   /**
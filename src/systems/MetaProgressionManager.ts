@@ -3,6 +3,8 @@
  * Uses localStorage for persistence
  */
 
+import { BASE_REROLLS, BASE_SKIPS, BASE_BANISHES } from '../config/Constants';
+
 const SAVE_KEY = 'roguelike_meta_progression';
 
 /**
@@ -17,6 +19,9 @@ export enum PermanentUpgradeType {
   GOLD_GAIN = 'perm_gold_gain',
   STARTING_LEVEL = 'perm_starting_level',
   CRITICAL_CHANCE = 'perm_critical_chance',
+  REROLL = 'perm_reroll',
+  SKIP = 'perm_skip',
+  BANISH = 'perm_banish',
 }
 
 export interface PermanentUpgrade {
@@ -120,6 +125,39 @@ export const PERMANENT_UPGRADES: PermanentUpgrade[] = [
     valuePerLevel: 5,
     valueType: 'percent',
   },
+  {
+    type: PermanentUpgradeType.REROLL,
+    name: 'Fortune',
+    description: '+1 reroll per run',
+    icon: '🎲',
+    maxLevel: 5,
+    baseCost: 100,
+    costMultiplier: 1.8,
+    valuePerLevel: 1,
+    valueType: 'flat',
+  },
+  {
+    type: PermanentUpgradeType.SKIP,
+    name: 'Patience',
+    description: '+1 skip per run',
+    icon: '⏭️',
+    maxLevel: 3,
+    baseCost: 75,
+    costMultiplier: 2.0,
+    valuePerLevel: 1,
+    valueType: 'flat',
+  },
+  {
+    type: PermanentUpgradeType.BANISH,
+    name: 'Exile',
+    description: '+1 banish per run',
+    icon: '🚫',
+    maxLevel: 3,
+    baseCost: 150,
+    costMultiplier: 2.0,
+    valuePerLevel: 1,
+    valueType: 'flat',
+  },
 ];
 
 /**
@@ -269,6 +307,24 @@ export interface MetaProgressionData {
   };
 }
 
+/**
+ * Starting stats for a run, derived from the selected character and permanent upgrades
+ */
+export interface RunLoadout {
+  characterId: string;
+  maxHp: number;
+  moveSpeedMultiplier: number;
+  damageMultiplier: number;
+  fireRateMultiplier: number;
+  pickupRadiusMultiplier: number;
+  xpMultiplier: number;
+  criticalChance: number;
+  startingLevel: number;
+  rerolls: number;
+  skips: number;
+  banishes: number;
+}
+
 /**
  * Default save data
  */
@@ -291,6 +347,9 @@ const DEFAULT_SAVE: MetaProgressionData = {
     [PermanentUpgradeType.GOLD_GAIN]: 0,
     [PermanentUpgradeType.STARTING_LEVEL]: 0,
     [PermanentUpgradeType.CRITICAL_CHANCE]: 0,
+    [PermanentUpgradeType.REROLL]: 0,
+    [PermanentUpgradeType.SKIP]: 0,
+    [PermanentUpgradeType.BANISH]: 0,
   },
   unlockedCharacters: ['knight'],
   selectedCharacter: 'knight',
@@ -568,6 +627,11 @@ export class MetaProgressionManager {
     return charBonus * (1 + upgradeBonus);
   }
 
+  public getFireRateMultiplier(): number {
+    const character = this.getSelectedCharacter();
+    return character.stats.fireRate / 100;
+  }
+
   public getXPMultiplier(): number {
     return 1 + this.getUpgradeValue(PermanentUpgradeType.XP_GAIN) / 100;
   }
@@ -580,6 +644,41 @@ export class MetaProgressionManager {
     return 1 + this.getUpgradeValue(PermanentUpgradeType.STARTING_LEVEL);
   }
 
+  /**
+   * Level-up charges for a run (base amount plus permanent upgrades)
+   */
+  public getRerolls(): number {
+    return BASE_REROLLS + this.getUpgradeValue(PermanentUpgradeType.REROLL);
+  }
+
+  public getSkips(): number {
+    return BASE_SKIPS + this.getUpgradeValue(PermanentUpgradeType.SKIP);
+  }
+
+  public getBanishes(): number {
+    return BASE_BANISHES + this.getUpgradeValue(PermanentUpgradeType.BANISH);
+  }
+
+  /**
+   * Build the starting stats for a new run
+   */
+  public getRunLoadout(): RunLoadout {
+    return {
+      characterId: this.getSelectedCharacter().id,
+      maxHp: this.getStartingHP(),
+      moveSpeedMultiplier: this.getSpeedMultiplier(),
+      damageMultiplier: this.getDamageMultiplier(),
+      fireRateMultiplier: this.getFireRateMultiplier(),
+      pickupRadiusMultiplier: this.getPickupRadiusMultiplier(),
+      xpMultiplier: this.getXPMultiplier(),
+      criticalChance: this.getCriticalChance(),
+      startingLevel: this.getStartingLevel(),
+      rerolls: this.getRerolls(),
+      skips: this.getSkips(),
+      banishes: this.getBanishes(),
+    };
+  }
+
   // === Listeners for UI updates ===
 
   public addListener(callback: () => void): void {
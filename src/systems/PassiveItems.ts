@@ -0,0 +1,153 @@
+import { GameEventBus } from './GameEventBus';
+import { StatBlock, StatType, ModifierType, StatModifierOptions } from './StatBlock';
+
+/**
+ * Passive items the player can carry (offered as level-up cards)
+ */
+export enum PassiveItemType {
+  TOME = 'tome',           // Faster cooldowns
+  RING = 'ring',           // Bigger areas
+  CHARM = 'charm',         // Faster projectiles
+  WHETSTONE = 'whetstone', // More damage
+  CLOVER = 'clover',       // Rarer level-up cards
+}
+
+/**
+ * What a passive item does at each level
+ */
+export interface PassiveItemDefinition {
+  name: string;
+  icon: string;
+  color: number;
+  description: string; // What one level adds, shown on cards
+  statLabel: string; // Stat name in card previews
+  maxLevel: number;
+  stat: StatType;
+  modifierType: ModifierType;
+  perLevel: number; // ADD: amount per level, MULTIPLY: +fraction per level
+}
+
+export const PASSIVE_ITEMS: Record<PassiveItemType, PassiveItemDefinition> = {
+  [PassiveItemType.TOME]: {
+    name: 'Empty Tome',
+    icon: '📘',
+    color: 0x6688ff,
+    description: '+8% fire rate for all weapons',
+    statLabel: 'Fire rate',
+    maxLevel: 5,
+    stat: StatType.FIRE_RATE,
+    modifierType: ModifierType.MULTIPLY,
+    perLevel: 0.08,
+  },
+  [PassiveItemType.RING]: {
+    name: 'Ring of Reach',
+    icon: '💍',
+    color: 0xffcc66,
+    description: '+10% weapon area',
+    statLabel: 'Area',
+    maxLevel: 5,
+    stat: StatType.AREA,
+    modifierType: ModifierType.MULTIPLY,
+    perLevel: 0.1,
+  },
+  [PassiveItemType.CHARM]: {
+    name: 'Swift Charm',
+    icon: '🪶',
+    color: 0x88ffcc,
+    description: '+10% projectile speed',
+    statLabel: 'Projectile speed',
+    maxLevel: 5,
+    stat: StatType.PROJECTILE_SPEED,
+    modifierType: ModifierType.MULTIPLY,
+    perLevel: 0.1,
+  },
+  [PassiveItemType.WHETSTONE]: {
+    name: 'Whetstone',
+    icon: '🪨',
+    color: 0xcc8866,
+    description: '+8% damage',
+    statLabel: 'Damage',
+    maxLevel: 5,
+    stat: StatType.DAMAGE,
+    modifierType: ModifierType.MULTIPLY,
+    perLevel: 0.08,
+  },
+  [PassiveItemType.CLOVER]: {
+    name: 'Clover',
+    icon: '🍀',
+    color: 0x44dd66,
+    description: '+10% luck (rarer level-up cards)',
+    statLabel: 'Luck',
+    maxLevel: 5,
+    stat: StatType.LUCK,
+    modifierType: ModifierType.MULTIPLY,
+    perLevel: 0.1,
+  },
+};
+
+/**
+ * PassiveInventory - The passive items a player carries and their levels
+ * Each item keeps one stat modifier, replaced whenever the item levels up.
+ */
+export class PassiveInventory {
+  private stats: StatBlock;
+  private levels: Map<PassiveItemType, number> = new Map();
+
+  constructor(stats: StatBlock) {
+    this.stats = stats;
+  }
+
+  /**
+   * Add an item or level it up
+   * @returns Whether the item changed (false at max level)
+   */
+  public add(type: PassiveItemType): boolean {
+    const item = PASSIVE_ITEMS[type];
+    const level = this.getLevel(type) + 1;
+    if (level > item.maxLevel) return false;
+
+    this.levels.set(type, level);
+    this.stats.addModifier(this.getModifier(type, level));
+
+    GameEventBus.getInstance().emit('passive:leveled', { type, level });
+    return true;
+  }
+
+  /**
+   * Value of the item's stat after one more level (for card previews)
+   */
+  public previewAdd(type: PassiveItemType): number {
+    return this.stats.preview(this.getModifier(type, this.getLevel(type) + 1));
+  }
+
+  public getLevel(type: PassiveItemType): number {
+    return this.levels.get(type) ?? 0;
+  }
+
+  public has(type: PassiveItemType): boolean {
+    return this.levels.has(type);
+  }
+
+  public isMaxed(type: PassiveItemType): boolean {
+    return this.getLevel(type) >= PASSIVE_ITEMS[type].maxLevel;
+  }
+
+  /**
+   * Carried items in the order they were picked up
+   */
+  public getItems(): { type: PassiveItemType; level: number }[] {
+    return Array.from(this.levels, ([type, level]) => ({ type, level }));
+  }
+
+  private getModifier(type: PassiveItemType, level: number): StatModifierOptions {
+    const item = PASSIVE_ITEMS[type];
+    const amount = item.perLevel * level;
+    return {
+      id: `passive:${type}`,
+      stat: item.stat,
+      type: item.modifierType,
+      value: item.modifierType === ModifierType.MULTIPLY ? 1 + amount : amount,
+      source: 'passive',
+    };
+  }
+}
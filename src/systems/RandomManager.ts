@@ -0,0 +1,197 @@
+/**
+ * RandomManager - Seeded RNG for reproducible runs
+ * Each subsystem draws from its own named stream so changes in one
+ * (e.g. extra particles) don't shift the results of another (e.g. spawns)
+ */
+
+const SEED_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const SEED_LENGTH = 8;
+
+/**
+ * Named random streams
+ */
+export enum RandomStream {
+  MAP = 'map',             // Dungeon layout, decorations
+  SPAWNS = 'spawns',       // Enemy spawning and behavior
+  LOOT = 'loot',           // Gold, altars, supply drops, materials, station
+  UPGRADES = 'upgrades',   // Level-up card rolls
+  COMBAT = 'combat',       // Critical hits and other damage rolls
+  COSMETICS = 'cosmetics', // Visual-only effects
+}
+
+/**
+ * Hash a string into a 32-bit seed (FNV-1a)
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * SeededRandom - Small deterministic PRNG (mulberry32)
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Float in [0, 1) - drop-in replacement for Math.random()
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Integer in [min, max] (inclusive)
+   */
+  public between(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * Float in [min, max)
+   */
+  public float(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * Random angle in radians
+   */
+  public angle(): number {
+    return this.next() * Math.PI * 2;
+  }
+
+  /**
+   * True with the given probability (0-1)
+   */
+  public chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Pick a random element from an array
+   */
+  public pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * Pick an element with probability proportional to its weight
+   */
+  public weighted<T>(items: readonly T[], weight: (item: T) => number): T {
+    const total = items.reduce((sum, item) => sum + weight(item), 0);
+    let roll = this.next() * total;
+    for (const item of items) {
+      roll -= weight(item);
+      if (roll < 0) return item;
+    }
+    return items[items.length - 1];
+  }
+
+  /**
+   * Shuffle an array in place (Fisher-Yates)
+   */
+  public shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+}
+
+/**
+ * RandomManager Singleton
+ */
+export class RandomManager {
+  private static instance: RandomManager;
+  private seed: string = '';
+  private streams: Map<RandomStream, SeededRandom> = new Map();
+
+  private constructor() {
+    this.startRun();
+  }
+
+  public static getInstance(): RandomManager {
+    if (!RandomManager.instance) {
+      RandomManager.instance = new RandomManager();
+    }
+    return RandomManager.instance;
+  }
+
+  /**
+   * Generate a new shareable seed
+   */
+  public static generateSeed(): string {
+    let seed = '';
+    for (let i = 0; i < SEED_LENGTH; i++) {
+      seed += SEED_CHARS[Math.floor(Math.random() * SEED_CHARS.length)];
+    }
+    return seed;
+  }
+
+  /**
+   * Normalize user input into a seed (uppercase, alphanumeric only)
+   */
+  public static normalizeSeed(input: string): string {
+    return input.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, SEED_LENGTH);
+  }
+
+  /**
+   * Derive a full-length seed for one run of a batch (e.g. simulation run `index` of base seed BALANCE)
+   * Hashed rather than suffixed, since suffixes past SEED_LENGTH would be cut off
+   */
+  public static deriveSeed(base: string, index: number): string {
+    const random = new SeededRandom(hashString(`${RandomManager.normalizeSeed(base)}:${index}`));
+    let seed = '';
+    for (let i = 0; i < SEED_LENGTH; i++) {
+      seed += SEED_CHARS[random.between(0, SEED_CHARS.length - 1)];
+    }
+    return seed;
+  }
+
+  /**
+   * Reset all streams for a new run. Generates a seed if none given.
+   */
+  public startRun(seed?: string): string {
+    const normalized = seed ? RandomManager.normalizeSeed(seed) : '';
+    this.seed = normalized || RandomManager.generateSeed();
+    this.streams.clear();
+    return this.seed;
+  }
+
+  /**
+   * Get a named stream (created lazily from the run seed)
+   */
+  public stream(name: RandomStream): SeededRandom {
+    let rng = this.streams.get(name);
+    if (!rng) {
+      rng = new SeededRandom(hashString(`${this.seed}:${name}`));
+      this.streams.set(name, rng);
+    }
+    return rng;
+  }
+
+  public getSeed(): string {
+    return this.seed;
+  }
+}
+
+/**
+ * Shorthand for RandomManager.getInstance().stream(name)
+ */
+export function rng(name: RandomStream): SeededRandom {
+  return RandomManager.getInstance().stream(name);
+}
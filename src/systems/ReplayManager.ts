@@ -0,0 +1,214 @@
+import { MovementInput } from '../entities/Player';
+import { RunLoadout } from './MetaProgressionManager';
+import type { MapType } from './DungeonGenerator';
+
+const REPLAY_SAVE_KEY = 'roguelike_replays';
+const REPLAY_VERSION = 2; // 2: input counted in fixed steps instead of ms
+
+/**
+ * What was done on a level-up screen (picking a card when absent)
+ */
+export type LevelUpAction = 'reroll' | 'skip' | 'banish';
+
+/**
+ * One step taken on a level-up screen, in order
+ */
+export interface ReplayChoice {
+  level: number;
+  upgrade: string; // Card picked or banished ('' for reroll and skip)
+  action?: LevelUpAction;
+}
+
+/**
+ * Saved replay slots
+ */
+export type ReplaySlot = 'last' | 'best';
+
+/**
+ * Compact replay file
+ * Input is run-length encoded as flat [mask, steps, mask, steps, ...] pairs, one step per FIXED_TIMESTEP
+ */
+export interface ReplayData {
+  version: number;
+  seed: string;
+  mapType?: MapType; // Absent in replays recorded before cave maps (arena)
+  loadout: RunLoadout;
+  inputs: number[];
+  choices: ReplayChoice[]; // Level-up steps (rerolls, banishes, skips and picks)
+  score: number;
+  duration: number;
+  victory: boolean;
+  date: number;
+}
+
+// Movement input bitmask
+const INPUT_LEFT = 1;
+const INPUT_RIGHT = 2;
+const INPUT_UP = 4;
+const INPUT_DOWN = 8;
+
+function encodeInput(input: MovementInput): number {
+  return (input.left ? INPUT_LEFT : 0)
+    | (input.right ? INPUT_RIGHT : 0)
+    | (input.up ? INPUT_UP : 0)
+    | (input.down ? INPUT_DOWN : 0);
+}
+
+function decodeInput(mask: number): MovementInput {
+  return {
+    left: (mask & INPUT_LEFT) !== 0,
+    right: (mask & INPUT_RIGHT) !== 0,
+    up: (mask & INPUT_UP) !== 0,
+    down: (mask & INPUT_DOWN) !== 0,
+  };
+}
+
+/**
+ * ReplayManager - Records player input and level-up choices, and plays them back
+ * Input is keyed by fixed game step (see FixedTimestep), so frame rate and pauses don't count
+ */
+export class ReplayManager {
+  private playback: ReplayData | null = null;
+
+  // Recording state
+  private inputs: number[] = [];
+  private choices: ReplayChoice[] = [];
+  private currentMask: number = -1;
+  private currentSteps: number = 0;
+
+  // Playback state
+  private segmentIndex: number = 0;
+  private segmentStep: number = 0;
+
+  constructor(playback?: ReplayData) {
+    this.playback = playback ?? null;
+  }
+
+  /**
+   * True when feeding a recorded run instead of the keyboard
+   */
+  public isPlaying(): boolean {
+    return this.playback !== null;
+  }
+
+  public getPlayback(): ReplayData | null {
+    return this.playback;
+  }
+
+  // === Recording ===
+
+  /**
+   * Record the movement input used for this step
+   */
+  public recordInput(input: MovementInput): void {
+    const mask = encodeInput(input);
+    if (mask !== this.currentMask) {
+      this.flushInput();
+      this.currentMask = mask;
+    }
+    this.currentSteps++;
+  }
+
+  /**
+   * Record a level-up card choice, or a reroll/skip/banish
+   */
+  public recordChoice(level: number, upgradeName: string, action?: LevelUpAction): void {
+    this.choices.push(action ? { level, upgrade: upgradeName, action } : { level, upgrade: upgradeName });
+  }
+
+  /**
+   * Build the replay file for the finished run
+   */
+  public finishRecording(
+    seed: string,
+    mapType: MapType,
+    loadout: RunLoadout,
+    result: { score: number; duration: number; victory: boolean }
+  ): ReplayData {
+    this.flushInput();
+    return {
+      version: REPLAY_VERSION,
+      seed,
+      mapType,
+      loadout,
+      inputs: this.inputs,
+      choices: this.choices,
+      score: result.score,
+      duration: result.duration,
+      victory: result.victory,
+      date: Date.now(),
+    };
+  }
+
+  private flushInput(): void {
+    if (this.currentMask >= 0 && this.currentSteps > 0) {
+      this.inputs.push(this.currentMask, this.currentSteps);
+    }
+    this.currentSteps = 0;
+  }
+
+  // === Playback ===
+
+  /**
+   * Get the recorded movement input for this step and advance playback
+   */
+  public nextInput(): MovementInput {
+    if (!this.playback) return decodeInput(0);
+
+    const inputs = this.playback.inputs;
+    while (this.segmentIndex < inputs.length && this.segmentStep >= inputs[this.segmentIndex + 1]) {
+      this.segmentStep = 0;
+      this.segmentIndex += 2;
+    }
+
+    const mask = this.segmentIndex < inputs.length ? inputs[this.segmentIndex] : 0;
+    this.segmentStep++;
+    return decodeInput(mask);
+  }
+
+  /**
+   * Get the recorded steps for a level-up, in the order they were taken
+   */
+  public getChoices(level: number): ReplayChoice[] {
+    return this.playback?.choices.filter(c => c.level === level) ?? [];
+  }
+
+  // === Storage ===
+
+  /**
+   * Save a finished run as the last replay, and as the best replay if it beats the score
+   */
+  public static saveReplay(replay: ReplayData): void {
+    const saved = ReplayManager.loadAll();
+    saved.last = replay;
+    if (!saved.best || replay.score > saved.best.score) {
+      saved.best = replay;
+    }
+
+    try {
+      localStorage.setItem(REPLAY_SAVE_KEY, JSON.stringify(saved));
+    } catch (e) {
+      console.warn('Failed to save replay:', e);
+    }
+  }
+
+  /**
+   * Load a saved replay
+   */
+  public static loadReplay(slot: ReplaySlot): ReplayData | null {
+    const replay = ReplayManager.loadAll()[slot];
+    return replay && replay.version === REPLAY_VERSION ? replay : null;
+  }
+
+  private static loadAll(): Partial<Record<ReplaySlot, ReplayData>> {
+    try {
+      const saved = localStorage.getItem(REPLAY_SAVE_KEY);
+      if (saved) {
+        return JSON.parse(saved);
+      }
+    } catch (e) {
+      console.warn('Failed to load replays:', e);
+    }
+    return {};
+  }
+}
@@ -0,0 +1,149 @@
+import Phaser from 'phaser';
+import { Player } from '../entities/Player';
+import { Enemy } from '../entities/Enemy';
+import { EnemySpawner } from './EnemySpawner';
+import { XPGemManager } from './XPGemManager';
+import { UpgradeSystem } from './UpgradeSystem';
+import { WeaponManager } from './WeaponManager';
+import { EnemyProjectileManager } from './EnemyProjectileManager';
+import { GameEventBus } from './GameEventBus';
+import { DamagePipeline, DamageType, createPlayerDamageModifiers, createDefenseModifiers } from './DamagePipeline';
+import { FlowField } from './FlowField';
+import type { TileType } from './DungeonGenerator';
+
+/**
+ * The combat systems every run needs, wired to each other
+ */
+export interface RunSystems {
+  damagePipeline: DamagePipeline;
+  xpGemManager: XPGemManager;
+  enemyProjectileManager: EnemyProjectileManager;
+  enemySpawner: EnemySpawner;
+  weaponManager: WeaponManager;
+  upgradeSystem: UpgradeSystem;
+}
+
+type EnemyProjectile = Phaser.Physics.Arcade.Sprite & { getDamage: () => number; deactivate: () => void };
+type Pickup = Phaser.Physics.Arcade.Sprite & { collect: () => number };
+
+/**
+ * Create the combat systems shared by the game and the headless simulation
+ *
+ * Hits, status ticks and bomber blasts go through the damage pipeline, enemy shots
+ * through the projectile pool, and kills drop XP gems. Scene-specific extras (gold,
+ * effects, sounds, HUD) are wired by the caller. Clear the event bus first.
+ * @param grid Map layout for enemy pathing (none = open field)
+ */
+export function createRunSystems(scene: Phaser.Scene, player: Player, grid?: TileType[][]): RunSystems {
+  const eventBus = GameEventBus.getInstance();
+
+  const damagePipeline = new DamagePipeline();
+  createPlayerDamageModifiers(player).forEach(modifier => damagePipeline.addModifier(modifier));
+  createDefenseModifiers().forEach(modifier => damagePipeline.addModifier(modifier));
+
+  // Burn and poison ticks are hits too
+  eventBus.on('status:tick', ({ target, amount, damageType, source }) => {
+    damagePipeline.deal({ source, target, weapon: 'status', damageType, amount, canCrit: false });
+  });
+
+  const xpGemManager = new XPGemManager(scene, player);
+  const enemyProjectileManager = new EnemyProjectileManager(scene, player);
+  const enemySpawner = new EnemySpawner(scene, player);
+
+  // Enemies path around the map's walls
+  if (grid) {
+    enemySpawner.setFlowField(new FlowField(grid));
+  }
+
+  // Kills drop XP gems
+  eventBus.on('enemy:killed', ({ enemy, xp }) => xpGemManager.spawnGems(enemy.x, enemy.y, xp));
+
+  enemySpawner.setOnEnemyShoot((origin, pattern, damage, angle) => {
+    enemyProjectileManager.firePattern(origin, pattern, damage, angle);
+  });
+
+  // Bomber blasts hurt the player if they're still inside the telegraphed radius
+  enemySpawner.setOnEnemyExplode((x, y, radius, damage) => {
+    if (player.alive && Phaser.Math.Distance.Between(x, y, player.x, player.y) <= radius) {
+      damagePipeline.deal({
+        source: null,
+        target: player,
+        weapon: 'explosion',
+        damageType: DamageType.FIRE,
+        amount: damage,
+      });
+    }
+  });
+
+  // Wand and every unlockable weapon, aimed at the enemies
+  const weaponManager = new WeaponManager(scene, player);
+  weaponManager.setEnemyGroup(enemySpawner.getEnemies());
+  weaponManager.setDamagePipeline(damagePipeline);
+
+  const upgradeSystem = new UpgradeSystem(player, weaponManager, xpGemManager);
+
+  return { damagePipeline, xpGemManager, enemyProjectileManager, enemySpawner, weaponManager, upgradeSystem };
+}
+
+/**
+ * Register the combat overlaps: enemy bodies and shots hurt the player, gems give XP,
+ * weapons hit enemies, and with walls everything but gems is blocked by them
+ */
+export function setupRunCollision(
+  scene: Phaser.Scene,
+  player: Player,
+  systems: RunSystems,
+  walls?: Phaser.Tilemaps.TilemapLayer
+): void {
+  const { damagePipeline, xpGemManager, enemyProjectileManager, enemySpawner, weaponManager } = systems;
+  const enemies = enemySpawner.getEnemies();
+  const projectiles = enemyProjectileManager.getProjectiles();
+
+  if (walls) {
+    scene.physics.add.collider(player, walls);
+    scene.physics.add.collider(enemies, walls);
+    scene.physics.add.collider(projectiles, walls, (projectileObj) => {
+      const projectile = projectileObj as EnemyProjectile;
+      if (projectile.active) {
+        projectile.deactivate();
+      }
+    });
+  }
+
+  scene.physics.add.overlap(player, enemies, (_player, enemyObj) => {
+    const enemy = enemyObj as Enemy;
+    if (player.alive && enemy.alive) {
+      damagePipeline.deal({
+        source: enemy,
+        target: player,
+        weapon: 'contact',
+        damageType: DamageType.PHYSICAL,
+        amount: enemy.getDamage(),
+      });
+    }
+  });
+
+  scene.physics.add.overlap(player, xpGemManager.getGems(), (_player, gemObj) => {
+    const gem = gemObj as Pickup;
+    if (gem.active) {
+      player.addXP(gem.collect());
+    }
+  });
+
+  scene.physics.add.overlap(projectiles, player, (projectileObj) => {
+    const projectile = projectileObj as EnemyProjectile;
+    if (projectile.active && player.alive) {
+      damagePipeline.deal({
+        source: null,
+        target: player,
+        weapon: 'enemy_projectile',
+        damageType: DamageType.MAGIC,
+        amount: projectile.getDamage(),
+      });
+      projectile.deactivate();
+    }
+  });
+
+  // Weapon projectiles vs enemies (and walls)
+  weaponManager.setupCollision(enemies, walls);
+}
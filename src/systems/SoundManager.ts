@@ -1,4 +1,5 @@
 import Phaser from 'phaser';
+import { GameEventBus, PickupKind } from './GameEventBus';
 
 /**
  * Sound effect types used in the game
@@ -8,7 +9,9 @@ export enum SoundEffect {
   WEAPON_AXE = 'weapon_axe',
   WEAPON_DAGGER = 'weapon_dagger',
   WEAPON_ORB = 'weapon_orb',
+  WEAPON_LIGHTNING = 'weapon_lightning',
   ENEMY_HIT = 'enemy_hit',
+  CRITICAL_HIT = 'critical_hit',
   ENEMY_DEATH = 'enemy_death',
   PLAYER_HIT = 'player_hit',
   PLAYER_DEATH = 'player_death',
@@ -22,6 +25,16 @@ export enum SoundEffect {
   UI_HOVER = 'ui_hover',
 }
 
+/**
+ * Sound played for each kind of pickup
+ */
+const PICKUP_SOUNDS: Record<PickupKind, { effect: SoundEffect; volume: number }> = {
+  xp: { effect: SoundEffect.XP_PICKUP, volume: 0.5 },
+  gold: { effect: SoundEffect.XP_PICKUP, volume: 0.7 },
+  material: { effect: SoundEffect.XP_PICKUP, volume: 0.6 },
+  health: { effect: SoundEffect.LEVEL_UP, volume: 0.5 },
+};
+
 /**
  * SoundManager - Centralized audio management with volume control
  * Uses Web Audio API for procedural placeholder sounds until real audio assets are added
@@ -42,6 +55,34 @@ export class SoundManager {
 
   constructor(_scene: Phaser.Scene) {
     this.initAudioContext();
+    this.subscribeToGameEvents();
+  }
+
+  /**
+   * Play gameplay sounds in response to game events
+   */
+  private subscribeToGameEvents(): void {
+    const eventBus = GameEventBus.getInstance();
+    
+    eventBus.on('enemy:killed', ({ enemy }) => {
+      this.play(enemy.isBoss ? SoundEffect.BOSS_DEATH : SoundEffect.ENEMY_DEATH, { volume: enemy.isBoss ? 1 : 0.3 });
+    });
+    eventBus.on('boss:spawned', () => this.play(SoundEffect.BOSS_SPAWN));
+    eventBus.on('boss:phaseChanged', () => this.play(SoundEffect.BOSS_SPAWN, { volume: 0.7 }));
+    eventBus.on('player:damaged', () => this.play(SoundEffect.PLAYER_HIT));
+    eventBus.on('damage:dealt', ({ damage }) => {
+      if (damage.isCrit) this.play(SoundEffect.CRITICAL_HIT, { volume: 0.5 });
+    });
+    eventBus.on('player:leveledUp', () => this.play(SoundEffect.LEVEL_UP));
+    eventBus.on('pickup:collected', ({ kind }) => {
+      const { effect, volume } = PICKUP_SOUNDS[kind];
+      this.play(effect, { volume });
+    });
+    eventBus.on('magnet:activated', () => this.play(SoundEffect.XP_PICKUP));
+    eventBus.on('buff:applied', () => this.play(SoundEffect.LEVEL_UP)); // Reuse level up sound for buffs
+    eventBus.on('weapon:evolved', () => this.play(SoundEffect.EVOLUTION));
+    eventBus.on('station:upgradeStarted', () => this.play(SoundEffect.UI_CLICK));
+    eventBus.on('station:upgraded', () => this.play(SoundEffect.LEVEL_UP));
   }
 
   /**
@@ -118,9 +159,15 @@ export class SoundManager {
       case SoundEffect.WEAPON_ORB:
         this.createHumSound(ctx, soundGain, now, rate);
         break;
+      case SoundEffect.WEAPON_LIGHTNING:
+        this.createZapSound(ctx, soundGain, now, rate);
+        break;
       case SoundEffect.ENEMY_HIT:
         this.createHitSound(ctx, soundGain, now, rate);
         break;
+      case SoundEffect.CRITICAL_HIT:
+        this.createCritSound(ctx, soundGain, now, rate);
+        break;
       case SoundEffect.ENEMY_DEATH:
         this.createDeathSound(ctx, soundGain, now, rate);
         break;
@@ -237,6 +284,30 @@ export class SoundManager {
     lfo.stop(now + 0.15);
   }
 
+  private createZapSound(ctx: AudioContext, gain: GainNode, now: number, rate: number): void {
+    // Crackling noise burst for lightning
+    const bufferSize = ctx.sampleRate * 0.12;
+    const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
+    const data = buffer.getChannelData(0);
+    
+    for (let i = 0; i < bufferSize; i++) {
+      const crackle = Math.random() < 0.2 ? 1 : 0.3;
+      data[i] = (Math.random() * 2 - 1) * crackle * (1 - i / bufferSize);
+    }
+    
+    const noise = ctx.createBufferSource();
+    noise.buffer = buffer;
+    noise.playbackRate.value = rate;
+    
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'highpass';
+    filter.frequency.value = 2000;
+    
+    noise.connect(filter);
+    filter.connect(gain);
+    noise.start(now);
+  }
+
   private createHitSound(ctx: AudioContext, gain: GainNode, now: number, rate: number): void {
     const osc = ctx.createOscillator();
     osc.type = 'square';
@@ -251,6 +322,21 @@ export class SoundManager {
     osc.stop(now + 0.08);
   }
 
+  private createCritSound(ctx: AudioContext, gain: GainNode, now: number, rate: number): void {
+    // Bright two-tone ping
+    const osc = ctx.createOscillator();
+    osc.type = 'triangle';
+    osc.frequency.setValueAtTime(1400 * rate, now);
+    osc.frequency.setValueAtTime(2100 * rate, now + 0.04);
+    
+    gain.gain.setValueAtTime(0.3, now);
+    gain.gain.exponentialRampToValueAtTime(0.01, now + 0.12);
+    
+    osc.connect(gain);
+    osc.start(now);
+    osc.stop(now + 0.12);
+  }
+
   private createDeathSound(ctx: AudioContext, gain: GainNode, now: number, rate: number): void {
     const osc = ctx.createOscillator();
     osc.type = 'sawtooth';
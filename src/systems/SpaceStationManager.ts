@@ -7,6 +7,14 @@ import {
   MAP_HEIGHT,
   SPACE_STATION 
 } from '../config/Constants';
+import { rng, RandomStream } from './RandomManager';
+import { GameEventBus } from './GameEventBus';
+import { StatType, ModifierType } from './StatBlock';
+import type { PlacementCheck } from './DungeonGenerator';
+
+const MATERIAL_FLOAT_HEIGHT = 10;         // px materials bob up from where they spawned
+const MATERIAL_FLOAT_PERIOD = 2400;       // ms per bob up and back down
+const STATION_CLEARANCE = TILE_SIZE * 2; // px of open floor needed around the station
 
 /**
  * Material types that can be collected for station upgrades
@@ -38,6 +46,16 @@ export interface LingeringBuff {
   maxDuration: number;
 }
 
+/**
+ * Player stat each lingering buff multiplies (regen is applied by the station itself)
+ */
+const LINGERING_BUFF_STATS: Partial<Record<LingeringBuffType, StatType>> = {
+  damage: StatType.DAMAGE,
+  xp: StatType.XP_GAIN,
+  fireRate: StatType.FIRE_RATE,
+  speed: StatType.MOVE_SPEED,
+};
+
 /**
  * Module types for horizontal progression
  */
@@ -68,6 +86,10 @@ export interface ActiveBuffsState {
  */
 interface Material extends Phaser.Physics.Arcade.Sprite {
   materialType: MaterialType;
+  glow: Phaser.GameObjects.Arc;
+  outerGlow: Phaser.GameObjects.Arc;
+  baseY: number;
+  floatTime: number;
   collect: () => number;
 }
 
@@ -141,25 +163,35 @@ export class SpaceStationManager {
   // private modulePanel: Phaser.GameObjects.Container | null = null;
   // private moduleButtons: Map<ModuleType, Phaser.GameObjects.Container> = new Map();
   
+  private eventBus: GameEventBus;
+  private unsubscribeSupplyMaterials?: () => void;
+  private isOpenArea?: PlacementCheck;
+  
   // Callbacks
-  private onPlayerEnterRadius?: () => void;
-  private onPlayerLeaveRadius?: () => void;
-  private onMaterialCollected?: (total: number, type: MaterialType) => void;
-  private onUpgradeStart?: () => void;
-  private onUpgradeComplete?: (newLevel: number) => void;
-  private onShowNotification?: (message: string, color: number) => void;
   private getSessionGold?: () => number;
   private spendSessionGold?: (amount: number) => boolean;
   private getEnemiesGroup?: () => Phaser.GameObjects.Group;
   
   
-  constructor(scene: Phaser.Scene, player: Player) {
+  /**
+   * @param isOpenArea Keeps the station and materials clear of the map's walls (none = open field)
+   */
+  constructor(scene: Phaser.Scene, player: Player, isOpenArea?: PlacementCheck) {
     this.scene = scene;
     this.player = player;
+    this.isOpenArea = isOpenArea;
+    this.eventBus = GameEventBus.getInstance();
     
     // Create materials group
     this.materials = this.scene.add.group();
     
+    // Supply drop materials go straight into the station
+    this.unsubscribeSupplyMaterials = this.eventBus.on('pickup:collected', ({ kind, amount, source }) => {
+      if (kind === 'material' && source === 'supply_drop') {
+        this.addMaterials(amount);
+      }
+    });
+    
     // Spawn station at random position
     this.spawnStation();
     
@@ -179,10 +211,26 @@ export class SpaceStationManager {
     let attempts = 0;
     let validPosition = false;
     
+    // Out of tries: the first open spot, or the player's spawn (always clear)
+    let fallbackX = playerSpawnX;
+    let fallbackY = playerSpawnY;
+    let hasOpenFallback = false;
+    
     while (!validPosition && attempts < 50) {
       // Random position within map bounds
-      this.stationX = margin + Math.random() * (MAP_WIDTH - margin * 2);
-      this.stationY = margin + Math.random() * (MAP_HEIGHT - margin * 2);
+      this.stationX = margin + rng(RandomStream.LOOT).next() * (MAP_WIDTH - margin * 2);
+      this.stationY = margin + rng(RandomStream.LOOT).next() * (MAP_HEIGHT - margin * 2);
+      attempts++;
+      
+      // Station must not overlap walls
+      if (this.isOpenArea && !this.isOpenArea(this.stationX, this.stationY, STATION_CLEARANCE)) {
+        continue;
+      }
+      if (!hasOpenFallback) {
+        fallbackX = this.stationX;
+        fallbackY = this.stationY;
+        hasOpenFallback = true;
+      }
       
       // Check distance from player spawn (at least 200px away)
       const distFromPlayer = Phaser.Math.Distance.Between(
@@ -193,7 +241,11 @@ export class SpaceStationManager {
       if (distFromPlayer > 200 && distFromPlayer < 600) {
         validPosition = true;
       }
-      attempts++;
+    }
+    
+    if (!validPosition && this.isOpenArea) {
+      this.stationX = fallbackX;
+      this.stationY = fallbackY;
     }
     
     // Create station sprite
@@ -283,6 +335,7 @@ export class SpaceStationManager {
     
     // Spawn materials (with module bonus)
     this.updateMaterialSpawning(delta);
+    this.updateMaterialFloat(delta);
     
     // Apply benefits if player is inside
     if (this.playerInsideRadius && !this.isUpgrading) {
@@ -584,7 +637,7 @@ export class SpaceStationManager {
         
         // Handle edge case where enemy is exactly on station
         if (distance < 10) {
-          angle = Math.random() * Math.PI * 2;
+          angle = rng(RandomStream.SPAWNS).angle();
         }
         
         // Teleport enemy to just outside the buffer zone
@@ -640,11 +693,11 @@ export class SpaceStationManager {
     // Trigger callbacks on state change
     if (this.playerInsideRadius && !wasInside) {
       // Player just entered the zone
-      this.onPlayerEnterRadius?.();
+      this.eventBus.emit('station:entered');
       this.onPlayerEnterZone();
     } else if (!this.playerInsideRadius && wasInside) {
       // Player just left the zone
-      this.onPlayerLeaveRadius?.();
+      this.eventBus.emit('station:left');
       this.onPlayerLeaveZone();
       this.hpRegenAccumulator = 0; // Reset regen accumulator
     }
@@ -763,6 +816,21 @@ export class SpaceStationManager {
       });
     }
     
+    // Stat buffs go through the player's stat block (replacing any from the last visit)
+    this.player.stats.removeModifiersFrom('station');
+    this.lingeringBuffs.forEach(buff => {
+      const stat = LINGERING_BUFF_STATS[buff.type];
+      if (!stat) return;
+      this.player.stats.addModifier({
+        id: `station:${buff.type}`,
+        stat,
+        type: ModifierType.MULTIPLY,
+        value: buff.multiplier,
+        source: 'station',
+        duration: buff.remainingTime,
+      });
+    });
+    
     // Show buff notification if any buffs granted
     if (this.lingeringBuffs.length > 0) {
       const buffCount = this.lingeringBuffs.length;
@@ -871,25 +939,53 @@ export class SpaceStationManager {
     }
   }
 
+  /**
+   * Bob materials and their glows up and down
+   * Runs on game time rather than a tween since the bob moves the pickup area
+   */
+  private updateMaterialFloat(delta: number): void {
+    this.materials.getChildren().forEach((obj) => {
+      const material = obj as Material;
+      material.floatTime += delta;
+      const wave = 0.5 - 0.5 * Math.cos((material.floatTime / MATERIAL_FLOAT_PERIOD) * Math.PI * 2);
+      const y = material.baseY - MATERIAL_FLOAT_HEIGHT * wave;
+      material.y = y;
+      material.glow.y = y;
+      material.outerGlow.y = y;
+    });
+  }
+
+  /**
+   * Random position away from the player, clear of walls (null if none was found)
+   */
+  private getMaterialPosition(): { x: number; y: number } | null {
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const angle = rng(RandomStream.LOOT).angle();
+      const distance = SPACE_STATION.MATERIAL_SPAWN_DISTANCE_MIN + 
+        rng(RandomStream.LOOT).next() * (SPACE_STATION.MATERIAL_SPAWN_DISTANCE_MAX - SPACE_STATION.MATERIAL_SPAWN_DISTANCE_MIN);
+      
+      // Clamp to map bounds
+      const margin = TILE_SIZE * 3;
+      const x = Phaser.Math.Clamp(this.player.x + Math.cos(angle) * distance, margin, MAP_WIDTH - margin);
+      const y = Phaser.Math.Clamp(this.player.y + Math.sin(angle) * distance, margin, MAP_HEIGHT - margin);
+      
+      if (!this.isOpenArea || this.isOpenArea(x, y, TILE_SIZE / 2)) {
+        return { x, y };
+      }
+    }
+    return null;
+  }
+
   /**
    * Spawn a single material at random position
    */
   private spawnMaterial(): void {
     const types: MaterialType[] = ['chest', 'junk', 'slob'];
-    const type = types[Math.floor(Math.random() * types.length)];
-    
-    // Random position away from player
-    const angle = Math.random() * Math.PI * 2;
-    const distance = SPACE_STATION.MATERIAL_SPAWN_DISTANCE_MIN + 
-      Math.random() * (SPACE_STATION.MATERIAL_SPAWN_DISTANCE_MAX - SPACE_STATION.MATERIAL_SPAWN_DISTANCE_MIN);
-    
-    let x = this.player.x + Math.cos(angle) * distance;
-    let y = this.player.y + Math.sin(angle) * distance;
+    const type = rng(RandomStream.LOOT).pick(types);
     
-    // Clamp to map bounds
-    const margin = TILE_SIZE * 3;
-    x = Phaser.Math.Clamp(x, margin, MAP_WIDTH - margin);
-    y = Phaser.Math.Clamp(y, margin, MAP_HEIGHT - margin);
+    const position = this.getMaterialPosition();
+    if (!position) return;
+    const { x, y } = position;
     
     // Create material sprite
     const textureKey = `material_${type}`;
@@ -910,19 +1006,11 @@ export class SpaceStationManager {
     outerGlow.setDepth(DEPTH.ITEMS - 2);
     outerGlow.setScrollFactor(1); // Ensure it scrolls with camera
     
-    // Store glow references for cleanup
-    (material as any).glow = glow;
-    (material as any).outerGlow = outerGlow;
-    
-    // Add floating animation that moves material AND glows together
-    this.scene.tweens.add({
-      targets: [material, glow, outerGlow],
-      y: y - 10,
-      duration: 1200,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut',
-    });
+    // Store glow references for cleanup and the float (see updateMaterialFloat)
+    material.glow = glow;
+    material.outerGlow = outerGlow;
+    material.baseY = y;
+    material.floatTime = 0;
     
     // Animate glow pulse (alpha only, no scale to avoid desync)
     this.scene.tweens.add({
@@ -942,7 +1030,8 @@ export class SpaceStationManager {
       material.destroy();
       this.collectedMaterials++;
       this.materialsByType[matType]++;
-      this.onMaterialCollected?.(this.collectedMaterials, matType);
+      this.eventBus.emit('pickup:collected', { kind: 'material', amount: 1, source: 'station' });
+      this.eventBus.emit('station:materialsChanged', { total: this.collectedMaterials });
       return 1;
     };
     
@@ -1241,8 +1330,7 @@ export class SpaceStationManager {
     // Show upgrade progress UI
     this.showUpgradeProgressUI();
     
-    // Trigger callback
-    this.onUpgradeStart?.();
+    this.eventBus.emit('station:upgradeStarted');
     
     const upgradeTime = this.getUpgradeTime() / 1000;
     this.showNotification(`🔧 Upgrading station... (${upgradeTime}s)\n⚠️ Protection disabled!`, 0xff4400);
@@ -1345,8 +1433,7 @@ export class SpaceStationManager {
     const benefit = this.getBenefitDescription();
     this.showNotification(`🎉 Station upgraded to Level ${this.stationLevel}!\n${benefit}`, 0x00ff00);
     
-    // Trigger callback
-    this.onUpgradeComplete?.(this.stationLevel);
+    this.eventBus.emit('station:upgraded', { level: this.stationLevel });
   }
 
   /**
@@ -1413,12 +1500,10 @@ export class SpaceStationManager {
   }
 
   /**
-   * Show notification via callback or fallback
+   * Show notification on the HUD
    */
   private showNotification(message: string, color: number): void {
-    if (this.onShowNotification) {
-      this.onShowNotification(message, color);
-    }
+    this.eventBus.emit('notification', { message, color });
   }
 
   // === Public Getters for Game Systems ===
@@ -1444,39 +1529,6 @@ export class SpaceStationManager {
     return this.collectedMaterials;
   }
 
-  /**
-   * Get damage multiplier from lingering buff (Level 4+)
-   * Now checks LINGERING buffs instead of inside-zone status
-   */
-  public getDamageMultiplier(): number {
-    const damageBuff = this.lingeringBuffs.find(b => b.type === 'damage');
-    return damageBuff ? damageBuff.multiplier : 1.0;
-  }
-
-  /**
-   * Get XP multiplier from lingering buff (Level 4+)
-   */
-  public getXPMultiplier(): number {
-    const xpBuff = this.lingeringBuffs.find(b => b.type === 'xp');
-    return xpBuff ? xpBuff.multiplier : 1.0;
-  }
-
-  /**
-   * Get fire rate multiplier from lingering buff (Level 5)
-   */
-  public getFireRateMultiplier(): number {
-    const fireRateBuff = this.lingeringBuffs.find(b => b.type === 'fireRate');
-    return fireRateBuff ? fireRateBuff.multiplier : 1.0;
-  }
-
-  /**
-   * Get speed multiplier from lingering buff (Level 5)
-   */
-  public getSpeedMultiplier(): number {
-    const speedBuff = this.lingeringBuffs.find(b => b.type === 'speed');
-    return speedBuff ? speedBuff.multiplier : 1.0;
-  }
-
   /**
    * Check if Sanctuary Shield is available (not on cooldown)
    */
@@ -1573,20 +1625,6 @@ export class SpaceStationManager {
     return this.stationPanel;
   }
 
-  // === Callback Setters ===
-
-  public setOnPlayerEnterRadius(callback: () => void): void {
-    this.onPlayerEnterRadius = callback;
-  }
-
-  public setOnPlayerLeaveRadius(callback: () => void): void {
-    this.onPlayerLeaveRadius = callback;
-  }
-
-  public setOnMaterialCollected(callback: (total: number, type: MaterialType) => void): void {
-    this.onMaterialCollected = callback;
-  }
-
   /**
    * Get materials breakdown by type
    */
@@ -1612,19 +1650,10 @@ export class SpaceStationManager {
         this.materialsByType[t]++;
       }
     }
+    this.eventBus.emit('station:materialsChanged', { total: this.collectedMaterials });
   }
 
-  public setOnUpgradeStart(callback: () => void): void {
-    this.onUpgradeStart = callback;
-  }
-
-  public setOnUpgradeComplete(callback: (newLevel: number) => void): void {
-    this.onUpgradeComplete = callback;
-  }
-
-  public setOnShowNotification(callback: (message: string, color: number) => void): void {
-    this.onShowNotification = callback;
-  }
+  // === Callback Setters ===
 
   public setGoldAccessors(
     getGold: () => number, 
@@ -1695,14 +1724,11 @@ export class SpaceStationManager {
     
     // === CLEAR LINGERING BUFFS ===
     this.lingeringBuffs = [];
+    this.player.stats.removeModifiersFrom('station');
     
     // === CLEAR CALLBACKS ===
-    this.onPlayerEnterRadius = undefined;
-    this.onPlayerLeaveRadius = undefined;
-    this.onMaterialCollected = undefined;
-    this.onUpgradeStart = undefined;
-    this.onUpgradeComplete = undefined;
-    this.onShowNotification = undefined;
+    this.unsubscribeSupplyMaterials?.();
+    this.unsubscribeSupplyMaterials = undefined;
     this.getSessionGold = undefined;
     this.spendSessionGold = undefined;
     this.getEnemiesGroup = undefined;
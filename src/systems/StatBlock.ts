@@ -0,0 +1,202 @@
+import { PLAYER_MAX_HP, PLAYER_SPEED } from '../config/Constants';
+import { GameEventBus } from './GameEventBus';
+
+/**
+ * Player stats that modifiers can change
+ * Multiplier-style stats (damage, fire rate, ...) have a base of 1
+ */
+export enum StatType {
+  MAX_HP = 'maxHp',
+  MOVE_SPEED = 'moveSpeed',
+  DAMAGE = 'damage',
+  FIRE_RATE = 'fireRate',
+  XP_GAIN = 'xpGain',
+  PICKUP_RADIUS = 'pickupRadius',
+  CRIT_CHANCE = 'critChance',
+  CRIT_DAMAGE = 'critDamage',
+  DAMAGE_TAKEN = 'damageTaken',
+  AREA = 'area',
+  PROJECTILE_SPEED = 'projectileSpeed',
+  LUCK = 'luck',
+}
+
+export enum ModifierType {
+  ADD = 'add',
+  MULTIPLY = 'multiply',
+}
+
+/**
+ * A single change to a stat
+ */
+export interface StatModifier {
+  id: string;
+  stat: StatType;
+  type: ModifierType;
+  value: number;
+  source: string;
+  expiresAt: number | null; // Scene time in ms, null = permanent
+}
+
+/**
+ * Options for adding a modifier (omit id for stacking modifiers, omit duration for permanent ones)
+ */
+export interface StatModifierOptions {
+  id?: string;
+  stat: StatType;
+  type: ModifierType;
+  value: number;
+  source: string;
+  duration?: number;
+}
+
+const STAT_DEFAULTS: Record<StatType, number> = {
+  [StatType.MAX_HP]: PLAYER_MAX_HP,
+  [StatType.MOVE_SPEED]: PLAYER_SPEED,
+  [StatType.DAMAGE]: 1,
+  [StatType.FIRE_RATE]: 1,
+  [StatType.XP_GAIN]: 1,
+  [StatType.PICKUP_RADIUS]: 1,
+  [StatType.CRIT_CHANCE]: 0,
+  [StatType.CRIT_DAMAGE]: 2, // Crits deal double damage
+  [StatType.DAMAGE_TAKEN]: 1,
+  [StatType.AREA]: 1,
+  [StatType.PROJECTILE_SPEED]: 1,
+  [StatType.LUCK]: 1,
+};
+
+/**
+ * StatBlock - Base stats plus timed or permanent modifiers from every source
+ *
+ * Final value = (base + sum of ADD modifiers) * product of MULTIPLY modifiers.
+ * Adding a modifier with an existing id replaces it (refreshing a buff never stacks it).
+ */
+export class StatBlock {
+  private base: Record<StatType, number>;
+  private modifiers: Map<string, StatModifier> = new Map();
+  private now: () => number;
+  private nextId: number = 0;
+
+  /**
+   * @param base Base values (defaults for any stat left out)
+   * @param now Clock used for modifier expiry (scene time)
+   */
+  constructor(base: Partial<Record<StatType, number>>, now: () => number) {
+    this.base = { ...STAT_DEFAULTS, ...base };
+    this.now = now;
+  }
+
+  public getBase(stat: StatType): number {
+    return this.base[stat];
+  }
+
+  public setBase(stat: StatType, value: number): void {
+    this.base[stat] = value;
+  }
+
+  /**
+   * Add or replace a modifier
+   * @returns The modifier id (for later removal)
+   */
+  public addModifier(options: StatModifierOptions): string {
+    const id = options.id ?? `${options.source}:${options.stat}:${this.nextId++}`;
+    this.modifiers.set(id, {
+      id,
+      stat: options.stat,
+      type: options.type,
+      value: options.value,
+      source: options.source,
+      expiresAt: options.duration !== undefined ? this.now() + options.duration : null,
+    });
+    return id;
+  }
+
+  public removeModifier(id: string): boolean {
+    return this.modifiers.delete(id);
+  }
+
+  /**
+   * Remove every modifier registered by a source
+   */
+  public removeModifiersFrom(source: string): void {
+    this.modifiers.forEach((modifier, id) => {
+      if (modifier.source === source) this.modifiers.delete(id);
+    });
+  }
+
+  public hasModifier(id: string): boolean {
+    const modifier = this.modifiers.get(id);
+    return !!modifier && !this.isExpired(modifier);
+  }
+
+  /**
+   * Final value of a stat with all active modifiers applied
+   */
+  public get(stat: StatType): number {
+    return this.combine(stat, this.getModifiers(stat));
+  }
+
+  /**
+   * What a stat would be with one more modifier (replacing any with the same id), for card previews
+   */
+  public preview(options: StatModifierOptions): number {
+    const modifiers = this.getModifiers(options.stat).filter(modifier => modifier.id !== options.id);
+    modifiers.push({ ...options, id: options.id ?? '', expiresAt: null });
+    return this.combine(options.stat, modifiers);
+  }
+
+  /**
+   * Active modifiers, optionally for one stat
+   */
+  public getModifiers(stat?: StatType): StatModifier[] {
+    return [...this.modifiers.values()].filter(
+      modifier => (!stat || modifier.stat === stat) && !this.isExpired(modifier)
+    );
+  }
+
+  /**
+   * Drop expired modifiers and announce them (call once per frame)
+   */
+  public update(): void {
+    this.modifiers.forEach((modifier, id) => {
+      if (this.isExpired(modifier)) {
+        this.modifiers.delete(id);
+        GameEventBus.getInstance().emit('stat:expired', { modifier });
+      }
+    });
+  }
+
+  /**
+   * Human-readable breakdown for debugging, e.g. "moveSpeed 208 = (160 + 0) x1.3 [altar]"
+   */
+  public describe(stat: StatType): string {
+    const modifiers = this.getModifiers(stat);
+    const additive = modifiers
+      .filter(m => m.type === ModifierType.ADD)
+      .reduce((sum, m) => sum + m.value, 0);
+    const multipliers = modifiers
+      .filter(m => m.type === ModifierType.MULTIPLY)
+      .map(m => ` x${m.value} [${m.source}]`)
+      .join('');
+
+    return `${stat} ${Math.round(this.get(stat) * 100) / 100} = (${this.base[stat]} + ${additive})${multipliers}`;
+  }
+
+  private combine(stat: StatType, modifiers: StatModifier[]): number {
+    let additive = 0;
+    let multiplier = 1;
+
+    modifiers.forEach((modifier) => {
+      if (modifier.type === ModifierType.ADD) {
+        additive += modifier.value;
+      } else {
+        multiplier *= modifier.value;
+      }
+    });
+
+    return (this.base[stat] + additive) * multiplier;
+  }
+
+  private isExpired(modifier: StatModifier): boolean {
+    return modifier.expiresAt !== null && this.now() >= modifier.expiresAt;
+  }
+}
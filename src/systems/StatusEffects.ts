@@ -0,0 +1,271 @@
+import Phaser from 'phaser';
+import type { Entity } from '../entities/Entity';
+import { DEPTH } from '../config/Constants';
+import { DamageType } from './DamagePipeline';
+import { GameEventBus } from './GameEventBus';
+
+/**
+ * Ongoing effects an entity can be under
+ */
+export enum StatusEffectType {
+  BURN = 'burn',
+  POISON = 'poison',
+  FREEZE = 'freeze',
+  SLOW = 'slow',
+  STUN = 'stun',
+}
+
+/**
+ * How a status effect behaves
+ */
+interface StatusEffectDefinition {
+  name: string;
+  icon: string;
+  tint: number;
+  maxStacks: number;
+  tickInterval?: number; // ms between damage ticks (damage over time effects)
+  damageType?: DamageType;
+  speedMultiplier?: number; // Applied once per stack
+  incapacitates?: boolean; // No movement, attacks or AI while active
+}
+
+export const STATUS_EFFECTS: Record<StatusEffectType, StatusEffectDefinition> = {
+  [StatusEffectType.BURN]: {
+    name: 'Burn',
+    icon: '🔥',
+    tint: 0xff7733,
+    maxStacks: 3,
+    tickInterval: 500,
+    damageType: DamageType.FIRE,
+  },
+  [StatusEffectType.POISON]: {
+    name: 'Poison',
+    icon: '☠️',
+    tint: 0x77ff44,
+    maxStacks: 10,
+    tickInterval: 1000,
+    damageType: DamageType.POISON,
+  },
+  [StatusEffectType.FREEZE]: {
+    name: 'Freeze',
+    icon: '❄️',
+    tint: 0x88ddff,
+    maxStacks: 1,
+    speedMultiplier: 0,
+    incapacitates: true,
+  },
+  [StatusEffectType.SLOW]: {
+    name: 'Slow',
+    icon: '🐌',
+    tint: 0x8899ff,
+    maxStacks: 3,
+    speedMultiplier: 0.7, // -30% speed per stack
+  },
+  [StatusEffectType.STUN]: {
+    name: 'Stun',
+    icon: '💫',
+    tint: 0xffff88,
+    maxStacks: 1,
+    speedMultiplier: 0,
+    incapacitates: true,
+  },
+};
+
+/**
+ * Which effect's tint shows when several are active (first wins)
+ */
+const TINT_PRIORITY: StatusEffectType[] = [
+  StatusEffectType.FREEZE,
+  StatusEffectType.STUN,
+  StatusEffectType.BURN,
+  StatusEffectType.POISON,
+  StatusEffectType.SLOW,
+];
+
+/**
+ * A request to apply an effect (from a weapon hit, altar, upgrade...)
+ */
+export interface StatusEffectApplication {
+  type: StatusEffectType;
+  duration: number; // ms
+  potency?: number; // Damage per tick per stack (damage over time effects)
+  stacks?: number; // Stacks added (default 1)
+  source?: Entity | null;
+}
+
+interface ActiveStatusEffect {
+  type: StatusEffectType;
+  stacks: number;
+  remaining: number;
+  potency: number;
+  tickTimer: number;
+  source: Entity | null;
+}
+
+/**
+ * StatusEffects - Ongoing effects on one entity
+ *
+ * Reapplying an effect adds stacks (up to its cap), keeps the longer duration and the
+ * stronger potency. Damage over time is announced as 'status:tick' so the scene can
+ * route it through the damage pipeline.
+ */
+export class StatusEffects {
+  private owner: Entity;
+  private effects: Map<StatusEffectType, ActiveStatusEffect> = new Map();
+  private iconText?: Phaser.GameObjects.Text;
+
+  constructor(owner: Entity) {
+    this.owner = owner;
+  }
+
+  public apply(application: StatusEffectApplication): void {
+    if (!this.owner.alive) return;
+
+    const definition = STATUS_EFFECTS[application.type];
+    const existing = this.effects.get(application.type);
+
+    this.effects.set(application.type, {
+      type: application.type,
+      stacks: Math.min(definition.maxStacks, (existing?.stacks ?? 0) + (application.stacks ?? 1)),
+      remaining: Math.max(existing?.remaining ?? 0, application.duration),
+      potency: Math.max(existing?.potency ?? 0, application.potency ?? 0),
+      tickTimer: existing?.tickTimer ?? 0,
+      source: application.source ?? existing?.source ?? null,
+    });
+
+    this.onEffectsChanged();
+  }
+
+  public remove(type: StatusEffectType): void {
+    if (this.effects.delete(type)) {
+      this.onEffectsChanged();
+    }
+  }
+
+  /**
+   * Remove every effect (on death or destroy)
+   */
+  public clear(): void {
+    this.effects.clear();
+    this.iconText?.destroy();
+    this.iconText = undefined;
+  }
+
+  /**
+   * Tick damage and count down durations (call once per frame)
+   */
+  public update(delta: number): void {
+    if (this.effects.size === 0) return;
+
+    let changed = false;
+    this.effects.forEach((effect, type) => {
+      if (!this.owner.alive) return;
+
+      const definition = STATUS_EFFECTS[type];
+      if (definition.tickInterval && effect.potency > 0) {
+        effect.tickTimer += delta;
+        while (effect.tickTimer >= definition.tickInterval && this.owner.alive) {
+          effect.tickTimer -= definition.tickInterval;
+          GameEventBus.getInstance().emit('status:tick', {
+            target: this.owner,
+            effect: type,
+            amount: effect.potency * effect.stacks,
+            damageType: definition.damageType ?? DamageType.MAGIC,
+            source: effect.source,
+          });
+        }
+      }
+
+      effect.remaining -= delta;
+      if (effect.remaining <= 0) {
+        this.effects.delete(type);
+        changed = true;
+      }
+    });
+
+    if (!this.owner.alive) return;
+    if (changed) {
+      this.onEffectsChanged();
+    } else {
+      this.positionIcons();
+    }
+  }
+
+  public has(type: StatusEffectType): boolean {
+    return this.effects.has(type);
+  }
+
+  public getStacks(type: StatusEffectType): number {
+    return this.effects.get(type)?.stacks ?? 0;
+  }
+
+  /**
+   * Movement speed multiplier from slows, freezes and stuns
+   */
+  public getSpeedMultiplier(): number {
+    let multiplier = 1;
+    this.effects.forEach((effect) => {
+      const perStack = STATUS_EFFECTS[effect.type].speedMultiplier;
+      if (perStack !== undefined) {
+        multiplier *= Math.pow(perStack, effect.stacks);
+      }
+    });
+    return multiplier;
+  }
+
+  /**
+   * True while frozen or stunned
+   */
+  public isIncapacitated(): boolean {
+    for (const type of this.effects.keys()) {
+      if (STATUS_EFFECTS[type].incapacitates) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Tint of the most important active effect (null = none)
+   */
+  public getTint(): number | null {
+    const type = TINT_PRIORITY.find(t => this.effects.has(t));
+    return type ? STATUS_EFFECTS[type].tint : null;
+  }
+
+  private onEffectsChanged(): void {
+    this.owner.refreshTint();
+    this.updateIcons();
+  }
+
+  /**
+   * Show active effect icons above the owner (stack count for stacking effects)
+   */
+  private updateIcons(): void {
+    if (this.effects.size === 0) {
+      this.iconText?.setVisible(false);
+      return;
+    }
+
+    if (!this.iconText) {
+      this.iconText = this.owner.scene.add.text(0, 0, '', {
+        fontFamily: 'monospace',
+        fontSize: '10px',
+        color: '#ffffff',
+        stroke: '#000000',
+        strokeThickness: 2,
+      })
+        .setOrigin(0.5, 1)
+        .setDepth(DEPTH.EFFECTS);
+      GameEventBus.getInstance().emit('world:objectCreated', { object: this.iconText });
+    }
+
+    const label = [...this.effects.values()]
+      .map(effect => effect.stacks > 1 ? `${STATUS_EFFECTS[effect.type].icon}${effect.stacks}` : STATUS_EFFECTS[effect.type].icon)
+      .join(' ');
+    this.iconText.setText(label).setVisible(true);
+    this.positionIcons();
+  }
+
+  private positionIcons(): void {
+    this.iconText?.setPosition(this.owner.x, this.owner.y - this.owner.displayHeight / 2);
+  }
+}
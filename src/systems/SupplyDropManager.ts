@@ -7,12 +7,22 @@ import {
   TILE_SIZE,
   SUPPLY_DROP 
 } from '../config/Constants';
+import { rng, RandomStream } from './RandomManager';
+import { GameEventBus } from './GameEventBus';
+import { StatType, ModifierType } from './StatBlock';
+import type { PlacementCheck } from './DungeonGenerator';
 
 /**
  * Types of supply drops
  */
 export type DropType = 'gold' | 'material' | 'health' | 'power' | 'speed';
 
+/**
+ * Stat modifier ids for the timed drop buffs (picking up another refreshes the duration)
+ */
+const POWER_BUFF_ID = 'supply_drop:power';
+const SPEED_BUFF_ID = 'supply_drop:speed';
+
 /**
  * Supply drop data
  */
@@ -49,31 +59,32 @@ export class SupplyDropManager {
   private gameStartTime: number = 0;
   private firstDropSpawned: boolean = false;
   
-  // Active buffs
-  private powerBuffActive: boolean = false;
-  private powerBuffEndTime: number = 0;
-  private speedBuffActive: boolean = false;
-  private speedBuffEndTime: number = 0;
-  
-  // Callbacks
-  private onGoldCollected?: (amount: number) => void;
-  private onMaterialCollected?: (amount: number) => void;
-  private onHealthCollected?: (amount: number) => void;
-  private onShowNotification?: (message: string, color: number) => void;
+  private eventBus: GameEventBus;
+  private isOpenArea?: PlacementCheck;
 
-  constructor(scene: Phaser.Scene, player: Player) {
+  /**
+   * @param isOpenArea Keeps drops clear of the map's walls (none = open field)
+   */
+  constructor(scene: Phaser.Scene, player: Player, isOpenArea?: PlacementCheck) {
     this.scene = scene;
     this.player = player;
+    this.isOpenArea = isOpenArea;
+    this.eventBus = GameEventBus.getInstance();
     this.gameStartTime = scene.time.now;
+
+    this.eventBus.on('stat:expired', ({ modifier }) => {
+      if (modifier.id === POWER_BUFF_ID) {
+        this.showNotification('⚔️ Power boost ended', 0x888888);
+      } else if (modifier.id === SPEED_BUFF_ID) {
+        this.showNotification('💨 Speed boost ended', 0x888888);
+      }
+    });
   }
 
   /**
    * Update manager each frame
    */
   public update(delta: number): void {
-    // Update buff timers
-    this.updateBuffs();
-    
     // Check spawn timing
     this.timeSinceLastSpawn += delta;
     
@@ -101,14 +112,28 @@ export class SupplyDropManager {
     this.checkDespawns();
   }
 
+  /**
+   * Random position on the map, clear of walls (null if none was found)
+   */
+  private getDropPosition(): { x: number; y: number } | null {
+    const margin = TILE_SIZE * 6;
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const x = margin + rng(RandomStream.LOOT).next() * (MAP_WIDTH - margin * 2);
+      const y = margin + rng(RandomStream.LOOT).next() * (MAP_HEIGHT - margin * 2);
+      if (!this.isOpenArea || this.isOpenArea(x, y, TILE_SIZE)) {
+        return { x, y };
+      }
+    }
+    return null;
+  }
+
   /**
    * Spawn a new supply drop
    */
   private spawnDrop(): void {
-    // Random position on map
-    const margin = TILE_SIZE * 6;
-    const x = margin + Math.random() * (MAP_WIDTH - margin * 2);
-    const y = margin + Math.random() * (MAP_HEIGHT - margin * 2);
+    const position = this.getDropPosition();
+    if (!position) return;
+    const { x, y } = position;
     
     // Determine drop type
     const type = this.selectDropType();
@@ -120,7 +145,7 @@ export class SupplyDropManager {
     shadow.setScrollFactor(1); // Ensure it scrolls with camera
     
     // Create drop pod sprite (starts high above target)
-    const podType = Math.random() > 0.5 ? 'drop_pod_1' : 'drop_pod_2';
+    const podType = rng(RandomStream.COSMETICS).next() > 0.5 ? 'drop_pod_1' : 'drop_pod_2';
     const sprite = this.scene.add.image(x, y - SUPPLY_DROP.FALL_HEIGHT, podType);
     sprite.setDepth(DEPTH.EFFECTS);
     sprite.setScale(1.5);
@@ -297,22 +322,27 @@ export class SupplyDropManager {
     // Apply rewards based on type
     switch (drop.type) {
       case 'gold':
-        const goldAmount = Phaser.Math.Between(
+        const goldAmount = rng(RandomStream.LOOT).between(
           SUPPLY_DROP.REWARDS.gold.min,
           SUPPLY_DROP.REWARDS.gold.max
         );
-        this.onGoldCollected?.(goldAmount);
+        this.eventBus.emit('pickup:collected', { kind: 'gold', amount: goldAmount, source: 'supply_drop' });
         this.showNotification(`💰 +${goldAmount} Gold!`, 0xffd700);
         break;
         
       case 'material':
-        this.onMaterialCollected?.(SUPPLY_DROP.REWARDS.material.amount);
+        this.eventBus.emit('pickup:collected', {
+          kind: 'material',
+          amount: SUPPLY_DROP.REWARDS.material.amount,
+          source: 'supply_drop',
+        });
         this.showNotification(`📦 +${SUPPLY_DROP.REWARDS.material.amount} Materials!`, 0x88ff88);
         break;
         
       case 'health':
         const healAmount = Math.ceil(this.player.maxHealth * SUPPLY_DROP.REWARDS.health.percent);
-        this.onHealthCollected?.(healAmount);
+        this.player.heal(healAmount);
+        this.eventBus.emit('pickup:collected', { kind: 'health', amount: healAmount, source: 'supply_drop' });
         this.showNotification(`❤️ +${healAmount} HP!`, 0xff4444);
         break;
         
@@ -352,7 +382,7 @@ export class SupplyDropManager {
     // Rising particles
     for (let i = 0; i < 6; i++) {
       const particle = this.scene.add.arc(
-        drop.x + Phaser.Math.Between(-20, 20),
+        drop.x + rng(RandomStream.COSMETICS).between(-20, 20),
         drop.y,
         5,
         0, 360, false,
@@ -409,7 +439,7 @@ export class SupplyDropManager {
   private selectDropType(): DropType {
     const weights = SUPPLY_DROP.DROP_WEIGHTS;
     const total = Object.values(weights).reduce((a, b) => a + b, 0);
-    let random = Math.random() * total;
+    let random = rng(RandomStream.LOOT).next() * total;
     
     for (const [type, weight] of Object.entries(weights)) {
       random -= weight;
@@ -451,67 +481,67 @@ export class SupplyDropManager {
    * Activate power buff
    */
   private activatePowerBuff(): void {
-    this.powerBuffActive = true;
-    this.powerBuffEndTime = this.scene.time.now + SUPPLY_DROP.REWARDS.power.duration;
+    this.player.stats.addModifier({
+      id: POWER_BUFF_ID,
+      stat: StatType.DAMAGE,
+      type: ModifierType.MULTIPLY,
+      value: SUPPLY_DROP.REWARDS.power.multiplier,
+      source: 'supply_drop',
+      duration: SUPPLY_DROP.REWARDS.power.duration,
+    });
+    
+    this.eventBus.emit('buff:applied', {
+      source: 'supply_drop',
+      name: 'Power Boost',
+      icon: '⚔️',
+      color: 0xff8800,
+      duration: SUPPLY_DROP.REWARDS.power.duration,
+    });
   }
 
   /**
    * Activate speed buff
    */
   private activateSpeedBuff(): void {
-    this.speedBuffActive = true;
-    this.speedBuffEndTime = this.scene.time.now + SUPPLY_DROP.REWARDS.speed.duration;
-    
-    // Apply speed boost to player
-    this.player.applySpeedMultiplier(SUPPLY_DROP.REWARDS.speed.multiplier);
-  }
-
-  /**
-   * Update active buffs
-   */
-  private updateBuffs(): void {
-    const now = this.scene.time.now;
-    
-    if (this.powerBuffActive && now >= this.powerBuffEndTime) {
-      this.powerBuffActive = false;
-      this.showNotification('⚔️ Power boost ended', 0x888888);
-    }
+    this.player.stats.addModifier({
+      id: SPEED_BUFF_ID,
+      stat: StatType.MOVE_SPEED,
+      type: ModifierType.MULTIPLY,
+      value: SUPPLY_DROP.REWARDS.speed.multiplier,
+      source: 'supply_drop',
+      duration: SUPPLY_DROP.REWARDS.speed.duration,
+    });
     
-    if (this.speedBuffActive && now >= this.speedBuffEndTime) {
-      this.speedBuffActive = false;
-      this.player.applySpeedMultiplier(1.0); // Reset speed
-      this.showNotification('💨 Speed boost ended', 0x888888);
-    }
+    this.eventBus.emit('buff:applied', {
+      source: 'supply_drop',
+      name: 'Speed Boost',
+      icon: '💨',
+      color: 0x00ffff,
+      duration: SUPPLY_DROP.REWARDS.speed.duration,
+    });
   }
 
   /**
-   * Show notification via callback
+   * Show notification on the HUD
    */
   private showNotification(message: string, color: number): void {
-    this.onShowNotification?.(message, color);
+    this.eventBus.emit('notification', { message, color });
   }
 
   // === Public Getters ===
 
-  /**
-   * Get power damage multiplier (for combat systems)
-   */
-  public getPowerMultiplier(): number {
-    return this.powerBuffActive ? SUPPLY_DROP.REWARDS.power.multiplier : 1.0;
-  }
-
   /**
    * Check if power buff is active
    */
   public isPowerBuffActive(): boolean {
-    return this.powerBuffActive;
+    return this.player.stats.hasModifier(POWER_BUFF_ID);
   }
 
   /**
    * Check if speed buff is active
    */
   public isSpeedBuffActive(): boolean {
-    return this.speedBuffActive;
+    return this.player.stats.hasModifier(SPEED_BUFF_ID);
   }
 
   /**
@@ -524,22 +554,4 @@ export class SupplyDropManager {
       collected: drop.collected,
     }));
   }
-
-  // === Callback Setters ===
-
-  public setOnGoldCollected(callback: (amount: number) => void): void {
-    this.onGoldCollected = callback;
-  }
-
-  public setOnMaterialCollected(callback: (amount: number) => void): void {
-    this.onMaterialCollected = callback;
-  }
-
-  public setOnHealthCollected(callback: (amount: number) => void): void {
-    this.onHealthCollected = callback;
-  }
-
-  public setOnShowNotification(callback: (message: string, color: number) => void): void {
-    this.onShowNotification = callback;
-  }
 }
@@ -0,0 +1,194 @@
+import Phaser from 'phaser';
+import { DEPTH } from '../config/Constants';
+
+const DEFAULT_COLOR = 0xff2222;
+const PULSE_SPEED = 0.012; // Outline flashes faster as the lead time runs out
+
+/**
+ * What a telegraph marks on the ground
+ */
+export enum TelegraphShapeType {
+  ZONE = 'zone',     // Circle that will be hit (danger zones, explosion radii, landing spots)
+  LINE = 'line',     // Lane something will travel down (charges)
+  SPOKES = 'spokes', // Directions bullets will leave in
+}
+
+export interface TelegraphShape {
+  type: TelegraphShapeType;
+  x: number;
+  y: number;
+  radius?: number;   // Zone radius, or where spokes start
+  angle?: number;    // Line direction
+  length?: number;   // Line length, or where spokes end
+  width?: number;    // Line width
+  angles?: number[]; // Spoke directions
+}
+
+/**
+ * A warning shown for a lead time before the attack it marks resolves
+ */
+export interface TelegraphRequest {
+  shapes: TelegraphShape[];
+  duration: number; // ms of warning
+  color?: number;
+  onResolve?: () => void; // The attack itself, run once the lead time is up
+}
+
+/**
+ * Handle for a requested telegraph: behaviors wait on it or call it off
+ */
+export class Telegraph {
+  public readonly shapes: TelegraphShape[];
+  public readonly duration: number;
+  public readonly color: number;
+  private elapsed: number = 0;
+  private done: boolean = false;
+  private onResolve?: () => void;
+
+  constructor(request: TelegraphRequest) {
+    this.shapes = request.shapes;
+    this.duration = request.duration;
+    this.color = request.color ?? DEFAULT_COLOR;
+    this.onResolve = request.onResolve;
+  }
+
+  /**
+   * Advance the lead time, resolving once it runs out
+   * @returns Whether the telegraph is finished (resolved or cancelled)
+   */
+  public update(delta: number): boolean {
+    if (this.done) return true;
+
+    this.elapsed += delta;
+    if (this.elapsed >= this.duration) {
+      this.done = true;
+      this.onResolve?.();
+    }
+    return this.done;
+  }
+
+  /**
+   * Drop the warning without resolving it (the attacker died, got distracted, ...)
+   */
+  public cancel(): void {
+    this.done = true;
+    this.onResolve = undefined;
+  }
+
+  public isPending(): boolean {
+    return !this.done;
+  }
+
+  /**
+   * Fraction of the lead time that has passed
+   */
+  public getProgress(): number {
+    return this.duration > 0 ? Math.min(1, this.elapsed / this.duration) : 1;
+  }
+
+  public getElapsed(): number {
+    return this.elapsed;
+  }
+}
+
+/**
+ * TelegraphManager - Draws danger zones, charge lanes and bullet spokes ahead of
+ * enemy attacks and resolves them once their lead time runs out
+ *
+ * Every telegraph is drawn into one Graphics object, redrawn each frame. The
+ * inner fill grows with the lead time so players can read how long is left.
+ */
+export class TelegraphManager {
+  private graphics: Phaser.GameObjects.Graphics;
+  private telegraphs: Telegraph[] = [];
+
+  constructor(scene: Phaser.Scene) {
+    this.graphics = scene.add.graphics();
+    this.graphics.setDepth(DEPTH.SHADOWS);
+  }
+
+  /**
+   * Show a telegraph; its onResolve runs when the lead time is up unless cancelled first
+   */
+  public request(request: TelegraphRequest): Telegraph {
+    const telegraph = new Telegraph(request);
+    this.telegraphs.push(telegraph);
+    return telegraph;
+  }
+
+  public update(delta: number): void {
+    // Resolving can request follow-up telegraphs, so iterate a snapshot
+    const current = this.telegraphs;
+    this.telegraphs = [];
+    const pending = current.filter((telegraph) => !telegraph.update(delta));
+    this.telegraphs = pending.concat(this.telegraphs);
+
+    this.draw();
+  }
+
+  private draw(): void {
+    this.graphics.clear();
+    this.telegraphs.forEach((telegraph) => {
+      const progress = telegraph.getProgress();
+      const pulse = 0.6 + 0.4 * Math.sin(telegraph.getElapsed() * PULSE_SPEED * (1 + progress * 2));
+      telegraph.shapes.forEach((shape) => this.drawShape(shape, telegraph.color, progress, pulse));
+    });
+  }
+
+  private drawShape(shape: TelegraphShape, color: number, progress: number, pulse: number): void {
+    const g = this.graphics;
+    switch (shape.type) {
+      case TelegraphShapeType.ZONE: {
+        const radius = shape.radius ?? 0;
+        g.fillStyle(color, 0.15);
+        g.fillCircle(shape.x, shape.y, radius);
+        g.fillStyle(color, 0.3);
+        g.fillCircle(shape.x, shape.y, radius * progress);
+        g.lineStyle(2, color, 0.8 * pulse);
+        g.strokeCircle(shape.x, shape.y, radius);
+        break;
+      }
+      case TelegraphShapeType.LINE: {
+        const angle = shape.angle ?? 0;
+        const length = shape.length ?? 0;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        g.lineStyle(shape.width ?? 0, color, 0.2 * pulse + 0.05);
+        g.lineBetween(shape.x, shape.y, shape.x + cos * length, shape.y + sin * length);
+        g.lineStyle(shape.width ?? 0, color, 0.3);
+        g.lineBetween(shape.x, shape.y, shape.x + cos * length * progress, shape.y + sin * length * progress);
+        break;
+      }
+      case TelegraphShapeType.SPOKES: {
+        const inner = shape.radius ?? 0;
+        const outer = shape.length ?? 0;
+        g.fillStyle(color, 0.25);
+        g.fillCircle(shape.x, shape.y, inner * progress);
+        g.lineStyle(3, color, 0.8 * pulse);
+        g.strokeCircle(shape.x, shape.y, inner);
+        (shape.angles ?? []).forEach((angle) => {
+          const cos = Math.cos(angle);
+          const sin = Math.sin(angle);
+          g.lineBetween(shape.x + cos * inner, shape.y + sin * inner, shape.x + cos * outer, shape.y + sin * outer);
+        });
+        break;
+      }
+    }
+  }
+
+  /**
+   * Drop every telegraph without resolving it
+   */
+  public clear(): void {
+    this.telegraphs.forEach((telegraph) => telegraph.cancel());
+    this.telegraphs = [];
+    this.graphics.clear();
+  }
+
+  /**
+   * The Graphics every telegraph is drawn into (e.g. to hide it from the UI camera)
+   */
+  public getGraphics(): Phaser.GameObjects.Graphics {
+    return this.graphics;
+  }
+}
@@ -1,7 +1,12 @@
 import { Player } from '../entities/Player';
-import { ProjectileManager } from './ProjectileManager';
+import { MAX_WEAPON_SLOTS, MAX_PASSIVE_SLOTS } from '../config/Constants';
 import { XPGemManager } from './XPGemManager';
-import { WeaponManager, WeaponType } from './WeaponManager';
+import { Weapon, WeaponManager, WeaponType, StatChange } from './WeaponManager';
+import { rng, RandomStream } from './RandomManager';
+import { GameEventBus } from './GameEventBus';
+import { StatType, ModifierType } from './StatBlock';
+import { StatusEffectType } from './StatusEffects';
+import { PassiveItemType, PASSIVE_ITEMS } from './PassiveItems';
 
 /**
  * Upgrade types available in the game
@@ -13,16 +18,57 @@ export enum UpgradeType {
   FIRE_RATE = 'fire_rate',
   PICKUP_RADIUS = 'pickup_radius',
   HP_REGEN = 'hp_regen',
-  // Weapon unlocks/upgrades
-  WEAPON_AXE = 'weapon_axe',
-  WEAPON_DAGGER = 'weapon_dagger',
-  WEAPON_ORB = 'weapon_orb',
+  CRIT_CHANCE = 'crit_chance',
+  CRIT_DAMAGE = 'crit_damage',
+  BURN_ON_HIT = 'burn_on_hit',
+  POISON_ON_HIT = 'poison_on_hit',
+  SLOW_ON_HIT = 'slow_on_hit',
+  // Weapon unlocks/upgrades (weaponType says which)
+  WEAPON = 'weapon',
   // Weapon evolutions
-  EVOLUTION_AXE = 'evolution_axe',
-  EVOLUTION_DAGGER = 'evolution_dagger',
-  EVOLUTION_ORB = 'evolution_orb',
+  EVOLUTION = 'evolution',
+  // Passive items (passiveType says which)
+  PASSIVE = 'passive',
 }
 
+/**
+ * Card rarity tiers - only stat cards roll one, and rarer stat cards roll stronger values
+ * (weapon and passive cards always do the same thing, so they have no rarity)
+ */
+export enum Rarity {
+  COMMON = 'common',
+  RARE = 'rare',
+  EPIC = 'epic',
+  LEGENDARY = 'legendary',
+}
+
+export interface RarityDefinition {
+  name: string;
+  color: number;
+  weight: number; // Relative draw weight at luck 1
+  power: number;  // Multiplier on rolled stat values
+}
+
+/**
+ * Rarity tiers from most to least common (luck boosts each tier by its index)
+ */
+export const RARITIES: Record<Rarity, RarityDefinition> = {
+  [Rarity.COMMON]: { name: 'Common', color: 0xaaaaaa, weight: 60, power: 1 },
+  [Rarity.RARE]: { name: 'Rare', color: 0x4488ff, weight: 25, power: 1.5 },
+  [Rarity.EPIC]: { name: 'Epic', color: 0xaa44ff, weight: 12, power: 2 },
+  [Rarity.LEGENDARY]: { name: 'Legendary', color: 0xffaa00, weight: 3, power: 3 },
+};
+
+/**
+ * Tier new weapons and passive items are drawn at
+ */
+const NEW_ITEM_DRAW_RARITY = Rarity.RARE;
+
+/**
+ * Corner badge on a card: a new weapon/passive, or the level that maxes it
+ */
+export type UpgradeBadge = 'NEW' | 'MAX';
+
 /**
  * Upgrade definition
  */
@@ -32,329 +78,491 @@ export interface Upgrade {
   description: string;
   icon: string;
   color: number;
+  rarity?: Rarity; // Rolled tier of a stat card
   isWeapon?: boolean;
   weaponType?: WeaponType;
   isEvolution?: boolean;
-  apply: (player: Player, projectileManager: ProjectileManager, xpGemManager: XPGemManager, weaponManager?: WeaponManager) => void;
+  passiveType?: PassiveItemType;
+  badge?: UpgradeBadge;
+  apply: (player: Player, weaponManager: WeaponManager, xpGemManager: XPGemManager) => void;
+  /** Concrete values before and after picking the card */
+  preview?: (player: Player, weaponManager: WeaponManager, xpGemManager: XPGemManager) => StatChange[];
 }
 
 /**
- * Evolution requirements
+ * Stat upgrade whose amount is rolled with the card's rarity
  */
-export interface EvolutionRequirement {
-  weaponType: WeaponType;
-  minWeaponLevel: number;
-  minPlayerLevel: number;
+interface StatUpgradeDefinition {
+  type: UpgradeType;
+  value: number; // Common amount, multiplied by the rarity's power
+  name: (value: number) => string;
+  description: (value: number) => string;
+  icon: string;
+  color: number;
+  apply: (value: number, player: Player, weaponManager: WeaponManager) => void;
+  preview: (value: number, player: Player, weaponManager: WeaponManager, xpGemManager: XPGemManager) => StatChange[];
 }
 
+const percent = (value: number): string => `${Math.round(value * 100)}%`;
+
+const change = (label: string, before: string | number, after: string | number): StatChange => ({
+  label,
+  before: `${before}`,
+  after: `${after}`,
+});
+
+/**
+ * Before/after of an on-hit chance upgrade
+ */
+const previewOnHitChance = (label: string, effect: StatusEffectType) =>
+  (value: number, player: Player): StatChange[] => {
+    const chance = player.getOnHitChance(effect);
+    return [change(label, percent(chance), percent(Math.min(1, chance + value)))];
+  };
+
 /**
  * Base stat upgrades
  */
-const STAT_UPGRADES: Upgrade[] = [
+const STAT_UPGRADES: StatUpgradeDefinition[] = [
   {
     type: UpgradeType.MAX_HP,
-    name: '+20 Max HP',
-    description: 'Increase maximum health by 20',
+    value: 20,
+    name: (value) => `+${value} Max HP`,
+    description: (value) => `Increase maximum health by ${value}`,
     icon: '❤️',
     color: 0xff4444,
-    apply: (player) => {
-      player.increaseMaxHP(20);
+    apply: (value, player) => {
+      player.increaseMaxHP(value);
     },
+    preview: (value, player) => [
+      change('Max HP', player.maxHealth, Math.floor(player.stats.preview({ stat: StatType.MAX_HP, type: ModifierType.ADD, value, source: 'upgrade' }))),
+    ],
   },
   {
     type: UpgradeType.MOVE_SPEED,
-    name: '+15% Speed',
-    description: 'Move faster to dodge enemies',
+    value: 0.15,
+    name: (value) => `+${percent(value)} Speed`,
+    description: () => 'Move faster to dodge enemies',
     icon: '👟',
     color: 0x44ff44,
-    apply: (player) => {
-      player.increaseMoveSpeed(0.15);
+    apply: (value, player) => {
+      player.increaseMoveSpeed(value);
     },
+    preview: (value, player) => [
+      change('Speed', player.getMoveSpeed(), Math.floor(player.stats.preview({ stat: StatType.MOVE_SPEED, type: ModifierType.MULTIPLY, value: 1 + value, source: 'upgrade' }))),
+    ],
   },
   {
     type: UpgradeType.DAMAGE,
-    name: '+25% Damage',
-    description: 'Deal more damage to enemies',
+    value: 0.25,
+    name: (value) => `+${percent(value)} Damage`,
+    description: () => 'Deal more damage to enemies',
     icon: '⚔️',
     color: 0xff6600,
-    apply: (_player, projectileManager) => {
-      const currentDamage = projectileManager.getDamage();
-      projectileManager.setDamage(Math.floor(currentDamage * 1.25));
+    apply: (value, _player, weaponManager) => {
+      weaponManager.getWeapon(WeaponType.WAND)?.scaleDamage(1 + value);
+    },
+    preview: (value, _player, weaponManager) => {
+      const wand = weaponManager.getWeapon(WeaponType.WAND);
+      return wand ? [change('Wand damage', wand.getConfig().damage, Math.floor(wand.getConfig().damage * (1 + value)))] : [];
     },
   },
   {
     type: UpgradeType.FIRE_RATE,
-    name: '+20% Fire Rate',
-    description: 'Shoot projectiles faster',
+    value: 0.2,
+    name: (value) => `+${percent(value)} Fire Rate`,
+    description: () => 'Shoot projectiles faster',
     icon: '🔥',
     color: 0xffcc00,
-    apply: (_player, projectileManager) => {
-      const currentRate = projectileManager.getFireRate();
-      projectileManager.setFireRate(Math.floor(currentRate * 0.8));
+    apply: (value, _player, weaponManager) => {
+      weaponManager.getWeapon(WeaponType.WAND)?.scaleCooldown(1 - value);
+    },
+    preview: (value, player, weaponManager) => {
+      const wand = weaponManager.getWeapon(WeaponType.WAND);
+      if (!wand) return [];
+      const after = Math.floor(Math.floor(wand.getConfig().cooldown * (1 - value)) / player.stats.get(StatType.FIRE_RATE));
+      return [change('Wand cooldown', `${wand.getCooldown()}ms`, `${after}ms`)];
     },
   },
   {
     type: UpgradeType.PICKUP_RADIUS,
-    name: '+50% Pickup Radius',
-    description: 'Attract XP gems from further away',
+    value: 0.5,
+    name: (value) => `+${percent(value)} Pickup Radius`,
+    description: () => 'Attract XP gems from further away',
     icon: '💎',
     color: 0x00ffff,
-    apply: (_player, _projectileManager, xpGemManager) => {
-      const currentRadius = xpGemManager.getAttractRadius();
-      xpGemManager.setAttractRadius(Math.floor(currentRadius * 1.5));
+    apply: (value, player) => {
+      player.stats.addModifier({ stat: StatType.PICKUP_RADIUS, type: ModifierType.MULTIPLY, value: 1 + value, source: 'upgrade' });
+    },
+    preview: (value, player, _weaponManager, xpGemManager) => {
+      const after = player.stats.preview({ stat: StatType.PICKUP_RADIUS, type: ModifierType.MULTIPLY, value: 1 + value, source: 'upgrade' });
+      return [change('Pickup radius', Math.floor(xpGemManager.getEffectiveAttractRadius()), Math.floor(xpGemManager.getAttractRadius() * after))];
     },
   },
   {
     type: UpgradeType.HP_REGEN,
-    name: 'Heal 30% HP',
-    description: 'Restore some health',
+    value: 0.3,
+    name: (value) => `Heal ${percent(Math.min(value, 1))} HP`,
+    description: () => 'Restore some health',
     icon: '💚',
     color: 0x44ff88,
-    apply: (player) => {
-      player.heal(Math.floor(player.maxHealth * 0.3));
+    apply: (value, player) => {
+      player.heal(Math.floor(player.maxHealth * Math.min(value, 1)));
     },
+    preview: (value, player) => [
+      change('HP', player.hp, Math.min(player.maxHealth, player.hp + Math.floor(player.maxHealth * Math.min(value, 1)))),
+    ],
   },
-];
-
-/**
- * Weapon upgrades - unlock new weapons or upgrade existing ones
- */
-const WEAPON_UPGRADES: Record<WeaponType, { unlock: Upgrade; upgrade: Upgrade }> = {
-  [WeaponType.WAND]: {
-    unlock: STAT_UPGRADES[2], // Placeholder, wand is always unlocked
-    upgrade: STAT_UPGRADES[2],
+  {
+    type: UpgradeType.CRIT_CHANCE,
+    value: 0.05,
+    name: (value) => `+${percent(value)} Crit Chance`,
+    description: () => 'Land critical hits more often',
+    icon: '🎯',
+    color: 0xffff00,
+    apply: (value, player) => {
+      player.stats.addModifier({ stat: StatType.CRIT_CHANCE, type: ModifierType.ADD, value, source: 'upgrade' });
+    },
+    preview: (value, player) => [
+      change('Crit chance', percent(player.getCritChance()), percent(Math.min(1, player.getCritChance() + value))),
+    ],
   },
-  [WeaponType.AXE]: {
-    unlock: {
-      type: UpgradeType.WEAPON_AXE,
-      name: 'Throwing Axe',
-      description: 'Throw axes that boomerang back',
-      icon: '🪓',
-      color: 0xaa6633,
-      isWeapon: true,
-      weaponType: WeaponType.AXE,
-      apply: (_player, _pm, _xp, weaponManager) => {
-        weaponManager?.unlockWeapon(WeaponType.AXE);
-      },
+  {
+    type: UpgradeType.CRIT_DAMAGE,
+    value: 0.5,
+    name: (value) => `+${percent(value)} Crit Damage`,
+    description: () => 'Critical hits deal more damage',
+    icon: '💥',
+    color: 0xff8800,
+    apply: (value, player) => {
+      player.stats.addModifier({ stat: StatType.CRIT_DAMAGE, type: ModifierType.ADD, value, source: 'upgrade' });
     },
-    upgrade: {
-      type: UpgradeType.WEAPON_AXE,
-      name: 'Axe +1',
-      description: 'Increase axe damage and speed',
-      icon: '🪓',
-      color: 0xaa6633,
-      isWeapon: true,
-      weaponType: WeaponType.AXE,
-      apply: (_player, _pm, _xp, weaponManager) => {
-        weaponManager?.upgradeWeapon(WeaponType.AXE);
-      },
+    preview: (value, player) => {
+      const before = player.getCritMultiplier();
+      const after = Math.max(1, player.stats.get(StatType.CRIT_DAMAGE) + value);
+      return [change('Crit damage', `x${Math.round(before * 100) / 100}`, `x${Math.round(after * 100) / 100}`)];
     },
   },
-  [WeaponType.DAGGER]: {
-    unlock: {
-      type: UpgradeType.WEAPON_DAGGER,
-      name: 'Rear Dagger',
-      description: 'Throw daggers behind you',
-      icon: '🗡️',
-      color: 0x88aacc,
-      isWeapon: true,
-      weaponType: WeaponType.DAGGER,
-      apply: (_player, _pm, _xp, weaponManager) => {
-        weaponManager?.unlockWeapon(WeaponType.DAGGER);
-      },
-    },
-    upgrade: {
-      type: UpgradeType.WEAPON_DAGGER,
-      name: 'Dagger +1',
-      description: 'Throw more daggers',
-      icon: '🗡️',
-      color: 0x88aacc,
-      isWeapon: true,
-      weaponType: WeaponType.DAGGER,
-      apply: (_player, _pm, _xp, weaponManager) => {
-        weaponManager?.upgradeWeapon(WeaponType.DAGGER);
-      },
+  {
+    type: UpgradeType.BURN_ON_HIT,
+    value: 0.2,
+    name: () => 'Flame Touch',
+    description: (value) => `+${percent(value)} chance for hits to burn`,
+    icon: '☄️',
+    color: 0xff7733,
+    apply: (value, player) => {
+      player.addOnHitEffect({ type: StatusEffectType.BURN, duration: 3000, potency: 3 }, value);
     },
+    preview: previewOnHitChance('Burn chance', StatusEffectType.BURN),
   },
-  [WeaponType.ORB]: {
-    unlock: {
-      type: UpgradeType.WEAPON_ORB,
-      name: 'Orbiting Orb',
-      description: 'Orb circles around you',
-      icon: '🔮',
-      color: 0x00ffff,
-      isWeapon: true,
-      weaponType: WeaponType.ORB,
-      apply: (_player, _pm, _xp, weaponManager) => {
-        weaponManager?.unlockWeapon(WeaponType.ORB);
-      },
+  {
+    type: UpgradeType.POISON_ON_HIT,
+    value: 0.25,
+    name: () => 'Venom',
+    description: (value) => `+${percent(value)} chance for hits to poison (stacks)`,
+    icon: '🧪',
+    color: 0x77ff44,
+    apply: (value, player) => {
+      player.addOnHitEffect({ type: StatusEffectType.POISON, duration: 4000, potency: 2 }, value);
     },
-    upgrade: {
-      type: UpgradeType.WEAPON_ORB,
-      name: 'Orb +1',
-      description: 'Add another orbiting orb',
-      icon: '🔮',
-      color: 0x00ffff,
-      isWeapon: true,
-      weaponType: WeaponType.ORB,
-      apply: (_player, _pm, _xp, weaponManager) => {
-        weaponManager?.upgradeWeapon(WeaponType.ORB);
-      },
+    preview: previewOnHitChance('Poison chance', StatusEffectType.POISON),
+  },
+  {
+    type: UpgradeType.SLOW_ON_HIT,
+    value: 0.25,
+    name: () => 'Frostbite',
+    description: (value) => `+${percent(value)} chance for hits to slow`,
+    icon: '🧊',
+    color: 0x88ddff,
+    apply: (value, player) => {
+      player.addOnHitEffect({ type: StatusEffectType.SLOW, duration: 2000 }, value);
     },
+    preview: previewOnHitChance('Slow chance', StatusEffectType.SLOW),
   },
+];
+
+/**
+ * Status effect granted by each on-hit upgrade (no longer offered once it always triggers)
+ */
+const ON_HIT_UPGRADES: Partial<Record<UpgradeType, StatusEffectType>> = {
+  [UpgradeType.BURN_ON_HIT]: StatusEffectType.BURN,
+  [UpgradeType.POISON_ON_HIT]: StatusEffectType.POISON,
+  [UpgradeType.SLOW_ON_HIT]: StatusEffectType.SLOW,
 };
 
 /**
- * Weapon evolutions - powerful upgrades requiring max level weapons + player level
+ * Stat card with its amount rolled for the given rarity
  */
-const WEAPON_EVOLUTIONS: Record<string, { upgrade: Upgrade; requirement: EvolutionRequirement }> = {
-  death_spiral: {
-    upgrade: {
-      type: UpgradeType.EVOLUTION_AXE,
-      name: '🌀 Death Spiral',
-      description: 'Axe creates a massive spinning vortex!',
-      icon: '🌀',
-      color: 0xff0000,
-      isWeapon: true,
-      isEvolution: true,
-      weaponType: WeaponType.AXE,
-      apply: (_player, _pm, _xp, weaponManager) => {
-        weaponManager?.evolveWeapon(WeaponType.AXE);
-      },
-    },
-    requirement: {
-      weaponType: WeaponType.AXE,
-      minWeaponLevel: 5,
-      minPlayerLevel: 8,
+function createStatUpgrade(definition: StatUpgradeDefinition, rarity: Rarity): Upgrade {
+  const value = Math.round(definition.value * RARITIES[rarity].power * 100) / 100;
+  return {
+    type: definition.type,
+    name: definition.name(value),
+    description: definition.description(value),
+    icon: definition.icon,
+    color: definition.color,
+    rarity,
+    apply: (player, weaponManager) => {
+      definition.apply(value, player, weaponManager);
     },
-  },
-  blade_storm: {
-    upgrade: {
-      type: UpgradeType.EVOLUTION_DAGGER,
-      name: '⚔️ Blade Storm',
-      description: 'Daggers fire in ALL directions!',
-      icon: '⚔️',
-      color: 0x4444ff,
-      isWeapon: true,
-      isEvolution: true,
-      weaponType: WeaponType.DAGGER,
-      apply: (_player, _pm, _xp, weaponManager) => {
-        weaponManager?.evolveWeapon(WeaponType.DAGGER);
-      },
+    preview: (player, weaponManager, xpGemManager) => definition.preview(value, player, weaponManager, xpGemManager),
+  };
+}
+
+/**
+ * Card that unlocks a weapon
+ */
+function createWeaponUnlock(weapon: Weapon): Upgrade {
+  const { type, name, description, icon, color } = weapon.definition;
+  return {
+    type: UpgradeType.WEAPON,
+    name,
+    description,
+    icon,
+    color,
+    isWeapon: true,
+    weaponType: type,
+    badge: 'NEW',
+    apply: (_player, weaponManager) => {
+      weaponManager.unlockWeapon(type);
     },
-    requirement: {
-      weaponType: WeaponType.DAGGER,
-      minWeaponLevel: 5,
-      minPlayerLevel: 8,
+    preview: () => weapon.previewUnlock(),
+  };
+}
+
+/**
+ * Card for a weapon's next row in its level table
+ */
+function createWeaponLevelUp(weapon: Weapon): Upgrade {
+  const { type, shortName, icon, color } = weapon.definition;
+  return {
+    type: UpgradeType.WEAPON,
+    name: `${shortName} +1`,
+    description: weapon.describeNextLevel(),
+    icon,
+    color,
+    isWeapon: true,
+    weaponType: type,
+    badge: weapon.getLevel() + 1 >= weapon.getMaxLevel() ? 'MAX' : undefined,
+    apply: (_player, weaponManager) => {
+      weaponManager.upgradeWeapon(type);
     },
-  },
-  nova_shield: {
-    upgrade: {
-      type: UpgradeType.EVOLUTION_ORB,
-      name: '💠 Nova Shield',
-      description: 'Orbs explode on contact for massive AOE!',
-      icon: '💠',
-      color: 0x00ffff,
-      isWeapon: true,
-      isEvolution: true,
-      weaponType: WeaponType.ORB,
-      apply: (_player, _pm, _xp, weaponManager) => {
-        weaponManager?.evolveWeapon(WeaponType.ORB);
-      },
+    preview: () => weapon.previewNextLevel(),
+  };
+}
+
+/**
+ * Card that evolves a weapon - powerful upgrades requiring max level weapons + player level
+ */
+function createWeaponEvolution(weapon: Weapon): Upgrade | null {
+  const evolution = weapon.definition.evolution;
+  if (!evolution) return null;
+
+  const type = weapon.type;
+  return {
+    type: UpgradeType.EVOLUTION,
+    name: `${evolution.icon} ${evolution.name}`,
+    description: evolution.description,
+    icon: evolution.icon,
+    color: evolution.color,
+    isWeapon: true,
+    isEvolution: true,
+    weaponType: type,
+    apply: (_player, weaponManager) => {
+      weaponManager.evolveWeapon(type);
     },
-    requirement: {
-      weaponType: WeaponType.ORB,
-      minWeaponLevel: 3,
-      minPlayerLevel: 6,
+    preview: () => weapon.previewEvolution(),
+  };
+}
+
+/**
+ * Card that adds a passive item or levels it up
+ */
+function createPassiveCard(type: PassiveItemType, currentLevel: number): Upgrade {
+  const { name, icon, color, description, maxLevel, stat, statLabel } = PASSIVE_ITEMS[type];
+  const nextLevel = currentLevel + 1;
+  return {
+    type: UpgradeType.PASSIVE,
+    name: currentLevel === 0 ? name : `${name} ${nextLevel}/${maxLevel}`,
+    description,
+    icon,
+    color,
+    passiveType: type,
+    badge: currentLevel === 0 ? 'NEW' : nextLevel >= maxLevel ? 'MAX' : undefined,
+    apply: (player) => {
+      player.passives.add(type);
     },
-  },
-};
+    preview: (player) => [
+      change('Level', currentLevel === 0 ? '-' : currentLevel, nextLevel),
+      change(statLabel, percent(player.stats.get(stat)), percent(player.passives.previewAdd(type))),
+    ],
+  };
+}
+
+/**
+ * Draw weight of a rarity tier, with luck boosting each rarer tier more
+ */
+function getRarityWeight(rarity: Rarity, luck: number): number {
+  const tier = Object.values(Rarity).indexOf(rarity);
+  return RARITIES[rarity].weight * Math.pow(luck, tier);
+}
+
+/**
+ * Identifies a card across rolls, so a banished card stays out of the pool
+ * (an evolution is banished separately from its weapon's level-ups)
+ */
+function getBanishKey(upgrade: Upgrade): string {
+  return `${upgrade.type}:${upgrade.weaponType ?? upgrade.passiveType ?? ''}`;
+}
+
+/**
+ * Limited per-run uses of the level-up screen buttons
+ */
+export interface LevelUpCharges {
+  rerolls: number;
+  skips: number;
+  banishes: number;
+}
 
 /**
  * All available upgrades (for backwards compatibility)
  */
-export const UPGRADES: Upgrade[] = STAT_UPGRADES;
+export const UPGRADES: Upgrade[] = STAT_UPGRADES.map((definition) => createStatUpgrade(definition, Rarity.COMMON));
 
 /**
  * UpgradeSystem - Manages upgrade selection and application
  */
 export class UpgradeSystem {
   private player: Player;
-  private projectileManager: ProjectileManager;
+  private weaponManager: WeaponManager;
   private xpGemManager: XPGemManager;
-  private weaponManager?: WeaponManager;
+  private charges: LevelUpCharges = { rerolls: 0, skips: 0, banishes: 0 };
+  private banished: Set<string> = new Set();
+  private weaponSlots: number = MAX_WEAPON_SLOTS;
+  private passiveSlots: number = MAX_PASSIVE_SLOTS;
 
-  constructor(player: Player, projectileManager: ProjectileManager, xpGemManager: XPGemManager, weaponManager?: WeaponManager) {
+  constructor(player: Player, weaponManager: WeaponManager, xpGemManager: XPGemManager) {
     this.player = player;
-    this.projectileManager = projectileManager;
-    this.xpGemManager = xpGemManager;
     this.weaponManager = weaponManager;
+    this.xpGemManager = xpGemManager;
   }
 
   /**
-   * Set weapon manager (can be set after construction)
+   * Set how many weapons and passive items a build can hold
    */
-  public setWeaponManager(weaponManager: WeaponManager): void {
-    this.weaponManager = weaponManager;
+  public setSlotLimits(weapons: number, passives: number): void {
+    this.weaponSlots = weapons;
+    this.passiveSlots = passives;
+  }
+
+  public setCharges(charges: LevelUpCharges): void {
+    this.charges = { ...charges };
+  }
+
+  public getCharges(): Readonly<LevelUpCharges> {
+    return this.charges;
+  }
+
+  /**
+   * Spend a reroll charge (the caller draws a new hand)
+   */
+  public useReroll(): boolean {
+    if (this.charges.rerolls <= 0) return false;
+    this.charges.rerolls--;
+    return true;
+  }
+
+  /**
+   * Spend a skip charge (the level-up grants nothing)
+   */
+  public useSkip(): boolean {
+    if (this.charges.skips <= 0) return false;
+    this.charges.skips--;
+    return true;
+  }
+
+  /**
+   * Spend a banish charge to remove a card from the pool for the rest of the run
+   */
+  public banish(upgrade: Upgrade): boolean {
+    if (this.charges.banishes <= 0) return false;
+    this.charges.banishes--;
+    this.banished.add(getBanishKey(upgrade));
+    return true;
   }
 
   /**
    * Get random upgrades for selection
-   * Includes stat upgrades and weapon unlocks/upgrades based on current state
+   * Eligible evolutions are always offered first; the rest of the hand is a weighted
+   * draw. Stat cards roll their rarity, and with it their amount, before the draw;
+   * new weapons and passives are drawn as rarely as a rare card (more often with luck).
    */
   public getRandomUpgrades(count: number = 3): Upgrade[] {
-    const availableUpgrades: Upgrade[] = [...STAT_UPGRADES];
-
-    // Add weapon upgrades based on what's unlocked
-    if (this.weaponManager) {
-      // Axe
-      if (!this.weaponManager.hasWeapon(WeaponType.AXE)) {
-        availableUpgrades.push(WEAPON_UPGRADES[WeaponType.AXE].unlock);
-      } else if (this.weaponManager.getWeaponLevel(WeaponType.AXE) < 5) {
-        availableUpgrades.push(WEAPON_UPGRADES[WeaponType.AXE].upgrade);
-      }
+    const random = rng(RandomStream.UPGRADES);
+    const luck = this.player.stats.get(StatType.LUCK);
+    const rollRarity = () => random.weighted(Object.values(Rarity), (rarity) => getRarityWeight(rarity, luck));
+
+    // Chance-based upgrades stop being offered once they always trigger
+    const availableUpgrades: Upgrade[] = STAT_UPGRADES.filter((definition) => {
+      if (definition.type === UpgradeType.CRIT_CHANCE) return this.player.getCritChance() < 1;
+      const onHitEffect = ON_HIT_UPGRADES[definition.type];
+      return onHitEffect === undefined || this.player.getOnHitChance(onHitEffect) < 1;
+    }).map((definition) => createStatUpgrade(definition, rollRarity()));
 
-      // Dagger
-      if (!this.weaponManager.hasWeapon(WeaponType.DAGGER)) {
-        availableUpgrades.push(WEAPON_UPGRADES[WeaponType.DAGGER].unlock);
-      } else if (this.weaponManager.getWeaponLevel(WeaponType.DAGGER) < 5) {
-        availableUpgrades.push(WEAPON_UPGRADES[WeaponType.DAGGER].upgrade);
+    // Add weapon unlocks/level-ups from the registry (new weapons only while a slot is free)
+    const weapons = this.weaponManager.getWeapons();
+    const weaponSlotFree = this.weaponManager.getActiveWeapons().length < this.weaponSlots;
+    weapons.forEach((weapon) => {
+      if (!weapon.isUnlocked()) {
+        if (weaponSlotFree) availableUpgrades.push(createWeaponUnlock(weapon));
+      } else if (weapon.getNextLevel()) {
+        availableUpgrades.push(createWeaponLevelUp(weapon));
       }
+    });
 
-      // Orb
-      if (!this.weaponManager.hasWeapon(WeaponType.ORB)) {
-        availableUpgrades.push(WEAPON_UPGRADES[WeaponType.ORB].unlock);
-      } else if (this.weaponManager.getWeaponLevel(WeaponType.ORB) < 3) {
-        availableUpgrades.push(WEAPON_UPGRADES[WeaponType.ORB].upgrade);
+    // Passive items that can still level up (new ones only while a slot is free)
+    const passiveSlotFree = this.player.passives.getItems().length < this.passiveSlots;
+    Object.values(PassiveItemType).forEach((type) => {
+      const owned = this.player.passives.has(type);
+      if ((owned || passiveSlotFree) && !this.player.passives.isMaxed(type)) {
+        availableUpgrades.push(createPassiveCard(type, this.player.passives.getLevel(type)));
       }
+    });
 
-      // Check for evolutions
-      const playerLevel = this.player.currentLevel;
-      for (const evoKey of Object.keys(WEAPON_EVOLUTIONS)) {
-        const evo = WEAPON_EVOLUTIONS[evoKey];
-        const req = evo.requirement;
-        
-        // Check if requirements are met and weapon not already evolved
-        if (
-          this.weaponManager.hasWeapon(req.weaponType) &&
-          this.weaponManager.getWeaponLevel(req.weaponType) >= req.minWeaponLevel &&
-          playerLevel >= req.minPlayerLevel &&
-          !this.weaponManager.isWeaponEvolved(req.weaponType)
-        ) {
-          availableUpgrades.push(evo.upgrade);
-        }
+    // Evolutions skip the draw (unless banished)
+    const playerLevel = this.player.currentLevel;
+    const hand: Upgrade[] = [];
+    weapons.forEach((weapon) => {
+      const evolution = weapon.canEvolve(playerLevel) ? createWeaponEvolution(weapon) : null;
+      if (evolution && !this.banished.has(getBanishKey(evolution)) && hand.length < count) {
+        hand.push(evolution);
       }
+    });
+
+    // Weighted draw without replacement (stat cards already rolled, so they draw as common)
+    const pool = availableUpgrades.filter((upgrade) => !this.banished.has(getBanishKey(upgrade)));
+    const drawWeight = (upgrade: Upgrade) =>
+      getRarityWeight(upgrade.badge === 'NEW' ? NEW_ITEM_DRAW_RARITY : Rarity.COMMON, luck);
+    while (hand.length < count && pool.length > 0) {
+      const upgrade = random.weighted(pool, drawWeight);
+      pool.splice(pool.indexOf(upgrade), 1);
+      hand.push(upgrade);
     }
+    return hand;
+  }
 
-    // Shuffle and pick
-    const shuffled = availableUpgrades.sort(() => Math.random() - 0.5);
-    return shuffled.slice(0, Math.min(count, shuffled.length));
+  /**
+   * What picking a card would change, computed from the current player and weapons
+   */
+  public getPreview(upgrade: Upgrade): StatChange[] {
+    return upgrade.preview?.(this.player, this.weaponManager, this.xpGemManager) ?? [];
   }
 
   /**
    * Apply an upgrade
    */
   public applyUpgrade(upgrade: Upgrade): void {
-    upgrade.apply(this.player, this.projectileManager, this.xpGemManager, this.weaponManager);
+    upgrade.apply(this.player, this.weaponManager, this.xpGemManager);
+    GameEventBus.getInstance().emit('upgrade:applied', { upgrade });
   }
 }
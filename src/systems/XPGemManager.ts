@@ -1,6 +1,12 @@
 import Phaser from 'phaser';
 import { DEPTH, XP_GEM_VALUE } from '../config/Constants';
 import { Player } from '../entities/Player';
+import { rng, RandomStream } from './RandomManager';
+import { GameEventBus } from './GameEventBus';
+import { StatType } from './StatBlock';
+
+const POP_DURATION = 200;     // ms the gem takes to pop out from the kill
+const COLLECT_DURATION = 100; // ms of shrink-and-fade once picked up
 
 /**
  * XP Gem - Collectible that gives XP to player
@@ -13,6 +19,15 @@ class XPGem extends Phaser.Physics.Arcade.Sprite {
   private isAttracting: boolean = false;
   private target?: Player;
 
+  // Pop-out and pickup animations run on game time (update delta), not tweens,
+  // so where gems land and when they free up again is the same in replays
+  private popFromX: number = 0;
+  private popFromY: number = 0;
+  private popToX: number = 0;
+  private popToY: number = 0;
+  private popTime: number = 0;
+  private collectTime: number = -1; // -1 while not collected
+
   constructor(scene: Phaser.Scene, x: number, y: number) {
     super(scene, x, y, 'xp_gem');
     
@@ -40,6 +55,7 @@ class XPGem extends Phaser.Physics.Arcade.Sprite {
     this.xpValue = xpValue;
     this.attractSpeed = 0;
     this.isAttracting = false;
+    this.collectTime = -1;
     
     // Enable physics body
     const body = this.body as Phaser.Physics.Arcade.Body;
@@ -49,19 +65,14 @@ class XPGem extends Phaser.Physics.Arcade.Sprite {
     }
     
     // Pop-out animation
-    const randomAngle = Math.random() * Math.PI * 2;
-    const popDistance = 30 + Math.random() * 20;
-    const targetX = x + Math.cos(randomAngle) * popDistance;
-    const targetY = y + Math.sin(randomAngle) * popDistance;
-    
-    this.scene.tweens.add({
-      targets: this,
-      x: targetX,
-      y: targetY,
-      scale: { from: 0, to: 1 },
-      duration: 200,
-      ease: 'Back.easeOut',
-    });
+    const randomAngle = rng(RandomStream.LOOT).angle();
+    const popDistance = 30 + rng(RandomStream.LOOT).next() * 20;
+    this.popFromX = x;
+    this.popFromY = y;
+    this.popToX = x + Math.cos(randomAngle) * popDistance;
+    this.popToY = y + Math.sin(randomAngle) * popDistance;
+    this.popTime = 0;
+    this.setScale(0);
   }
 
   /**
@@ -76,7 +87,30 @@ class XPGem extends Phaser.Physics.Arcade.Sprite {
    * Update gem movement
    */
   public update(delta: number): void {
-    if (!this.active || !this.isAttracting || !this.target) return;
+    if (!this.active) return;
+
+    if (this.collectTime >= 0) {
+      this.collectTime += delta;
+      const progress = Math.min(1, this.collectTime / COLLECT_DURATION);
+      this.setScale(1 - progress);
+      this.setAlpha(1 - progress);
+      if (progress >= 1) this.deactivate();
+      return;
+    }
+
+    if (this.popTime < POP_DURATION) {
+      this.popTime += delta;
+      const progress = Math.min(1, this.popTime / POP_DURATION);
+      const eased = Phaser.Math.Easing.Back.Out(progress);
+      this.setPosition(
+        Phaser.Math.Linear(this.popFromX, this.popToX, eased),
+        Phaser.Math.Linear(this.popFromY, this.popToY, eased)
+      );
+      this.setScale(eased);
+      return;
+    }
+
+    if (!this.isAttracting || !this.target) return;
 
     // Accelerate toward player
     this.attractSpeed = Math.min(
@@ -100,15 +134,15 @@ class XPGem extends Phaser.Physics.Arcade.Sprite {
    */
   public collect(): number {
     const value = this.xpValue;
+    GameEventBus.getInstance().emit('pickup:collected', { kind: 'xp', amount: value, source: 'gem' });
     
-    // Collection effect
-    this.scene.tweens.add({
-      targets: this,
-      scale: 0,
-      alpha: 0,
-      duration: 100,
-      onComplete: () => this.deactivate()
-    });
+    // Collection effect (played by update); the body goes now so it can't be picked up twice
+    this.collectTime = 0;
+    this.setVelocity(0, 0);
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) {
+      body.enable = false;
+    }
     
     return value;
   }
@@ -123,6 +157,7 @@ class XPGem extends Phaser.Physics.Arcade.Sprite {
     this.setScale(1);
     this.setAlpha(1);
     this.isAttracting = false;
+    this.collectTime = -1;
     
     const body = this.body as Phaser.Physics.Arcade.Body;
     if (body) {
@@ -142,7 +177,7 @@ export class XPGemManager {
   private scene: Phaser.Scene;
   private gems: Phaser.GameObjects.Group;
   private player: Player;
-  private attractRadius: number = 80; // Auto-attract within this radius
+  private attractRadius: number = 80; // Base auto-attract radius, scaled by the pickup radius stat
 
   constructor(scene: Phaser.Scene, player: Player, poolSize: number = 100) {
     this.scene = scene;
@@ -160,6 +195,9 @@ export class XPGemManager {
       const gem = new XPGem(scene, 0, 0);
       this.gems.add(gem);
     }
+
+    // Altar magnet pulls in every gem on the map
+    GameEventBus.getInstance().on('magnet:activated', () => this.attractAllGems());
   }
 
   /**
@@ -177,6 +215,8 @@ export class XPGemManager {
    * Spawn multiple gems (for larger enemies)
    */
   public spawnGems(x: number, y: number, totalXP: number): void {
+    totalXP = Math.max(1, Math.round(totalXP * this.getXPMultiplier()));
+    
     // Split XP into gems (max 5 gems per enemy)
     const gemCount = Math.min(5, Math.max(1, Math.floor(totalXP / XP_GEM_VALUE)));
     const xpPerGem = Math.ceil(totalXP / gemCount);
@@ -193,6 +233,7 @@ export class XPGemManager {
    * Update all gems
    */
   public update(delta: number): void {
+    const radius = this.getEffectiveAttractRadius();
     this.gems.getChildren().forEach((obj) => {
       const gem = obj as XPGem;
       if (!gem.active) return;
@@ -203,7 +244,7 @@ export class XPGemManager {
         this.player.x, this.player.y
       );
 
-      if (distance < this.attractRadius) {
+      if (distance < radius) {
         gem.startAttract(this.player);
       }
 
@@ -243,4 +284,18 @@ export class XPGemManager {
   public getAttractRadius(): number {
     return this.attractRadius;
   }
+
+  /**
+   * Get attract radius after the player's pickup radius stat
+   */
+  public getEffectiveAttractRadius(): number {
+    return this.attractRadius * this.player.stats.get(StatType.PICKUP_RADIUS);
+  }
+
+  /**
+   * Get XP multiplier applied to dropped gems
+   */
+  public getXPMultiplier(): number {
+    return this.player.stats.get(StatType.XP_GAIN);
+  }
 }
@@ -0,0 +1,190 @@
+import Phaser from 'phaser';
+import { DEPTH } from '../../config/Constants';
+import type { Enemy } from '../../entities/Enemy';
+import type { Player } from '../../entities/Player';
+import { DamageType } from '../DamagePipeline';
+import { PassiveItemType } from '../PassiveItems';
+import { SoundEffect } from '../SoundManager';
+import { StatusEffectType } from '../StatusEffects';
+import { PierceCounter, ShotPattern, Weapon, WeaponDefinition, WeaponContext, WeaponType } from './Weapon';
+
+const AXE: WeaponDefinition = {
+  type: WeaponType.AXE,
+  name: 'Throwing Axe',
+  shortName: 'Axe',
+  description: 'Throw axes that boomerang back',
+  projectileName: 'axe',
+  icon: '🪓',
+  hudIcon: 3,
+  color: 0xaa6633,
+  damageType: DamageType.PHYSICAL,
+  knockback: 6,
+  hitSound: { effect: SoundEffect.WEAPON_AXE, volume: 0.5 },
+  hitEffect: true,
+  stats: {
+    damage: 25,
+    cooldown: 800,
+    projectileSpeed: 250,
+    projectileCount: 1,
+    pattern: ShotPattern.VOLLEY,
+    spreadAngle: 0,
+    pierce: Infinity,
+    statusEffect: { type: StatusEffectType.STUN, duration: 250 }, // Heavy hits stagger
+  },
+  levels: [
+    { damage: 1.2, cooldown: -50 },
+    { projectileCount: 1 },
+    { damage: 1.2, cooldown: -50 },
+    { projectileCount: 1, damage: 1.2 },
+  ],
+  evolution: {
+    name: 'Death Spiral',
+    icon: '🌀',
+    description: 'Axe creates a massive spinning vortex!',
+    announcement: 'Axe creates devastating vortex!',
+    color: 0xff0000,
+    minWeaponLevel: 5,
+    minPlayerLevel: 8,
+    requiredPassive: PassiveItemType.WHETSTONE,
+    apply: (config) => {
+      config.damage *= 3;
+      config.cooldown = 300;
+    },
+  },
+};
+
+/**
+ * Axe projectile that travels in an arc and returns
+ */
+class AxeProjectile extends Phaser.Physics.Arcade.Sprite {
+  private damage: number = 25;
+  private lifespan: number = 0;
+  private maxLifespan: number = 1500;
+  private startX: number = 0;
+  private startY: number = 0;
+  private fireAngle: number = 0;
+  private travelDistance: number = 0;
+  private maxDistance: number = 200;
+  private returning: boolean = false;
+  private pierceCount: number = Infinity;
+  public readonly pierce: PierceCounter = new PierceCounter();
+
+  constructor(scene: Phaser.Scene, x: number, y: number) {
+    super(scene, x, y, 'projectile_2'); // Use second projectile sprite
+
+    scene.add.existing(this);
+    scene.physics.add.existing(this);
+
+    this.setDepth(DEPTH.PROJECTILES);
+    this.setActive(false);
+    this.setVisible(false);
+    this.setScale(1.2);
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) {
+      body.enable = false;
+      body.setCircle(12);
+      body.setOffset(this.width / 2 - 12, this.height / 2 - 12);
+    }
+  }
+
+  public fire(x: number, y: number, dirX: number, dirY: number, damage: number, speed: number, pierce: number): void {
+    const length = Math.sqrt(dirX * dirX + dirY * dirY);
+    if (length === 0) return;
+
+    this.startX = x;
+    this.startY = y;
+    this.fireAngle = Math.atan2(dirY, dirX);
+    this.damage = damage;
+    this.lifespan = 0;
+    this.travelDistance = 0;
+    this.returning = false;
+    this.pierceCount = pierce;
+    this.pierce.reset(pierce);
+
+    this.setPosition(x, y);
+    this.setActive(true);
+    this.setVisible(true);
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) body.enable = true;
+
+    this.setVelocity(Math.cos(this.fireAngle) * speed, Math.sin(this.fireAngle) * speed);
+  }
+
+  public update(delta: number): void {
+    if (!this.active) return;
+
+    this.lifespan += delta;
+
+    // Rotate the axe
+    this.rotation += 0.3;
+
+    // Calculate distance traveled
+    this.travelDistance = Phaser.Math.Distance.Between(
+      this.startX, this.startY, this.x, this.y
+    );
+
+    // Start returning after max distance
+    if (!this.returning && this.travelDistance >= this.maxDistance) {
+      this.returning = true;
+      this.pierce.reset(this.pierceCount); // Can hit again on return
+    }
+
+    // Return to start position
+    if (this.returning) {
+      const angleToStart = Math.atan2(this.startY - this.y, this.startX - this.x);
+      const speed = 300;
+      this.setVelocity(Math.cos(angleToStart) * speed, Math.sin(angleToStart) * speed);
+
+      // Deactivate when close to start
+      const distToStart = Phaser.Math.Distance.Between(this.x, this.y, this.startX, this.startY);
+      if (distToStart < 30) {
+        this.deactivate();
+      }
+    }
+
+    if (this.lifespan >= this.maxLifespan) {
+      this.deactivate();
+    }
+  }
+
+  public deactivate(): void {
+    this.setActive(false);
+    this.setVisible(false);
+    this.setVelocity(0, 0);
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) body.enable = false;
+  }
+
+  public getDamage(): number {
+    return this.damage;
+  }
+}
+
+/**
+ * AxeWeapon - Boomerang axes thrown at the nearest enemy, piercing both ways
+ */
+export class AxeWeapon extends Weapon {
+  constructor(scene: Phaser.Scene, player: Player, context: WeaponContext) {
+    super(scene, player, context, AXE);
+    this.fillPool(15, () => new AxeProjectile(scene, 0, 0));
+  }
+
+  protected fire(): boolean {
+    const target = this.findNearestEnemy();
+    if (!target) return false;
+
+    this.fireProjectiles(target.x - this.player.x, target.y - this.player.y, (x, y, dirX, dirY) => {
+      const axe = this.getFreeProjectile<AxeProjectile>();
+      axe?.fire(x, y, dirX, dirY, this.config.damage, this.getProjectileSpeed(), this.config.pierce);
+    });
+    return true;
+  }
+
+  public hitEnemy(axe: AxeProjectile, enemy: Enemy): number | null {
+    if (!axe.pierce.hit(enemy)) return null;
+    if (axe.pierce.isSpent()) axe.deactivate();
+    return axe.getDamage();
+  }
+}
@@ -0,0 +1,196 @@
+import Phaser from 'phaser';
+import { DEPTH } from '../../config/Constants';
+import type { Enemy } from '../../entities/Enemy';
+import type { Player } from '../../entities/Player';
+import { DamageType } from '../DamagePipeline';
+import { PassiveItemType } from '../PassiveItems';
+import { ShotPattern, Weapon, WeaponDefinition, WeaponContext, WeaponType } from './Weapon';
+
+const SWEEP_SPEED = Math.PI * 1.5; // Radians per second the beam turns toward its target
+const PRISM_SPIN = Math.PI / 2; // Radians per second once evolved
+const PRISM_COLORS = [0xff6666, 0x66ff66, 0x6699ff];
+
+const BEAM: WeaponDefinition = {
+  type: WeaponType.BEAM,
+  name: 'Laser Beam',
+  shortName: 'Beam',
+  description: 'Channels a beam that sweeps toward enemies',
+  projectileName: 'beam',
+  icon: '🔆',
+  hudIcon: 8,
+  color: 0x88ddff,
+  damageType: DamageType.MAGIC,
+  stats: {
+    damage: 5, // Per tick
+    cooldown: 250, // Tick rate
+    projectileSpeed: 0, // Instant along its whole length
+    projectileCount: 1, // Beams, evenly spaced around the player
+    pattern: ShotPattern.SPREAD,
+    spreadAngle: 0,
+    pierce: Infinity,
+    range: 200,
+    width: 10,
+  },
+  levels: [
+    { range: 40, width: 4 },
+    { cooldown: -50 },
+    { damage: 1.25, width: 4 },
+    { range: 60, cooldown: -50 },
+  ],
+  evolution: {
+    name: 'Rotating Prism',
+    icon: '🌈',
+    description: 'The beam splits in three and spins around you!',
+    announcement: 'Beam splits into a spinning prism!',
+    color: 0xff66ff,
+    minWeaponLevel: 5,
+    minPlayerLevel: 8,
+    requiredPassive: PassiveItemType.TOME,
+    apply: (config) => {
+      config.damage = Math.floor(config.damage * 1.5);
+      config.projectileCount = 3;
+    },
+  },
+};
+
+/**
+ * Beam sprite stretched from the player to where the beam ends
+ * Has no live physics body: hits are tested against the beam line instead
+ */
+class BeamSegment extends Phaser.Physics.Arcade.Sprite {
+  constructor(scene: Phaser.Scene, x: number, y: number) {
+    super(scene, x, y, 'beam');
+
+    scene.add.existing(this);
+    scene.physics.add.existing(this);
+
+    this.setDepth(DEPTH.PROJECTILES);
+    this.setOrigin(0, 0.5);
+    this.setBlendMode(Phaser.BlendModes.ADD);
+    this.setActive(false);
+    this.setVisible(false);
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) body.enable = false;
+  }
+
+  public show(line: Phaser.Geom.Line, width: number, color: number): void {
+    this.setPosition(line.x1, line.y1);
+    this.setRotation(Phaser.Geom.Line.Angle(line));
+    this.setDisplaySize(Math.max(1, Phaser.Geom.Line.Length(line)), width);
+    this.setTint(color);
+    this.setActive(true);
+    this.setVisible(true);
+  }
+
+  public update(_delta: number): void {}
+
+  public deactivate(): void {
+    this.setActive(false);
+    this.setVisible(false);
+  }
+}
+
+/**
+ * BeamWeapon - A channelled beam that sweeps toward the nearest enemy and
+ * damages everything along it each tick, stopping at walls
+ */
+export class BeamWeapon extends Weapon {
+  private angle: number = 0;
+  private beams: Phaser.Geom.Line[] = [];
+
+  constructor(scene: Phaser.Scene, player: Player, context: WeaponContext) {
+    super(scene, player, context, BEAM);
+    this.fillPool(PRISM_COLORS.length, () => new BeamSegment(scene, 0, 0));
+  }
+
+  public update(delta: number, canAttack: boolean): void {
+    this.updateBeams(delta, canAttack);
+    super.update(delta, canAttack);
+  }
+
+  /**
+   * Damage tick along every beam
+   */
+  protected fire(): boolean {
+    if (this.beams.length === 0) return false;
+
+    const width = this.getBeamWidth();
+    const nearby = this.context.findEnemiesInRange(this.player.x, this.player.y, (this.config.range ?? 0) + 64);
+    nearby
+      .filter((enemy) => this.beams.some((beam) => this.beamTouches(beam, enemy, width)))
+      .forEach((enemy) => this.context.dealDamage(this, enemy, this.config.damage));
+    return true;
+  }
+
+  public hitEnemy(): number | null {
+    return null;
+  }
+
+  /**
+   * Turn the beam (or spin the prism), clip it to walls and redraw it
+   */
+  private updateBeams(delta: number, canAttack: boolean): void {
+    const segments = this.pool.getChildren() as BeamSegment[];
+    this.beams = [];
+
+    const range = this.config.range ?? 0;
+    if (!this.isUnlocked() || !canAttack) {
+      segments.forEach((segment) => segment.deactivate());
+      return;
+    }
+
+    if (this.isEvolved()) {
+      this.angle += PRISM_SPIN * (delta / 1000);
+    } else {
+      const target = this.findNearestEnemy(range);
+      if (!target) {
+        segments.forEach((segment) => segment.deactivate());
+        return;
+      }
+
+      const center = this.getBodyCenter(target);
+      const desired = Phaser.Math.Angle.Between(this.player.x, this.player.y, center.x, center.y);
+      const maxTurn = SWEEP_SPEED * (delta / 1000);
+      this.angle += Phaser.Math.Clamp(Phaser.Math.Angle.Wrap(desired - this.angle), -maxTurn, maxTurn);
+    }
+
+    const count = Math.min(this.config.projectileCount, segments.length);
+    segments.forEach((segment, index) => {
+      if (index >= count) {
+        segment.deactivate();
+        return;
+      }
+
+      const angle = this.angle + index * (Math.PI * 2 / count);
+      const { x, y } = this.player;
+      const end = this.context.clipToWalls(x, y, x + Math.cos(angle) * range, y + Math.sin(angle) * range);
+      const beam = new Phaser.Geom.Line(x, y, end.x, end.y);
+
+      this.beams.push(beam);
+      segment.show(beam, this.getBeamWidth(), this.isEvolved() ? PRISM_COLORS[index] : this.definition.color);
+    });
+  }
+
+  private getBeamWidth(): number {
+    return (this.config.width ?? 0) * this.getArea();
+  }
+
+  /**
+   * Line-vs-body test: the beam touches an enemy if it passes within its body radius
+   */
+  private beamTouches(beam: Phaser.Geom.Line, enemy: Enemy, width: number): boolean {
+    const body = enemy.body as Phaser.Physics.Arcade.Body | null;
+    const radius = (body ? body.halfWidth : 0) + width / 2;
+    const center = this.getBodyCenter(enemy);
+    return Phaser.Geom.Intersects.LineToCircle(beam, new Phaser.Geom.Circle(center.x, center.y, radius));
+  }
+
+  /**
+   * Aim at the hitbox, which can sit off the sprite's origin
+   */
+  private getBodyCenter(enemy: Enemy): { x: number; y: number } {
+    const body = enemy.body as Phaser.Physics.Arcade.Body | null;
+    return body ? body.center : enemy;
+  }
+}
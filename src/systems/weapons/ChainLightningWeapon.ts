@@ -0,0 +1,155 @@
+import Phaser from 'phaser';
+import { DEPTH } from '../../config/Constants';
+import type { Enemy } from '../../entities/Enemy';
+import type { Player } from '../../entities/Player';
+import { DamageType } from '../DamagePipeline';
+import { GameEventBus } from '../GameEventBus';
+import { PassiveItemType } from '../PassiveItems';
+import { rng, RandomStream } from '../RandomManager';
+import { SoundEffect } from '../SoundManager';
+import { StatusEffectType } from '../StatusEffects';
+import { ShotPattern, Weapon, WeaponContext, WeaponDefinition, WeaponProjectile, WeaponType } from './Weapon';
+
+const JUMP_RADIUS = 120; // Max distance between two links of a chain
+const JUMP_FALLOFF = 0.8; // Damage kept per jump
+const MIN_JUMP_DAMAGE = 0.3; // Falloff never drops a jump below this share of the first hit
+
+const CHAIN_LIGHTNING: WeaponDefinition = {
+  type: WeaponType.LIGHTNING,
+  name: 'Chain Lightning',
+  shortName: 'Lightning',
+  description: 'Strikes an enemy and arcs to others nearby',
+  projectileName: 'bolt',
+  pierceName: 'jump',
+  icon: '⚡',
+  hudIcon: 9,
+  color: 0x66ccff,
+  damageType: DamageType.LIGHTNING,
+  hitSound: { effect: SoundEffect.WEAPON_LIGHTNING, volume: 0.3 },
+  stats: {
+    damage: 12,
+    cooldown: 1500,
+    projectileSpeed: 0, // Instant
+    projectileCount: 1, // Separate chains, each starting from a different enemy
+    pattern: ShotPattern.SPREAD,
+    spreadAngle: 0,
+    pierce: 2, // Jumps after the first strike
+  },
+  levels: [
+    { pierce: 1 },
+    { damage: 1.25 },
+    { pierce: 1, cooldown: -200 },
+    { projectileCount: 1, damage: 1.25 },
+  ],
+  evolution: {
+    name: 'Storm Caller',
+    icon: '⛈️',
+    description: 'Lightning chains forever and stuns!',
+    announcement: 'Lightning never stops jumping!',
+    color: 0x3399ff,
+    minWeaponLevel: 5,
+    minPlayerLevel: 8,
+    requiredPassive: PassiveItemType.TOME,
+    apply: (config) => {
+      config.pierce = Infinity;
+      config.statusEffect = { type: StatusEffectType.STUN, duration: 500 };
+    },
+  },
+};
+
+/**
+ * ChainLightningWeapon - Strikes the nearest enemy, then arcs to enemies within jump range
+ * Instant hits dealt through the manager; no projectiles to pool
+ */
+export class ChainLightningWeapon extends Weapon {
+  constructor(scene: Phaser.Scene, player: Player, context: WeaponContext) {
+    super(scene, player, context, CHAIN_LIGHTNING);
+  }
+
+  protected fire(): boolean {
+    const struck = new Set<Enemy>();
+
+    for (let i = 0; i < this.config.projectileCount; i++) {
+      const first = this.findNearestEnemy(undefined, struck);
+      if (!first) break;
+      this.strikeChain(first, struck);
+    }
+
+    return struck.size > 0;
+  }
+
+  /**
+   * Hit an enemy and keep jumping to the nearest enemy not yet struck
+   */
+  private strikeChain(first: Enemy, struck: Set<Enemy>): void {
+    const points: { x: number; y: number }[] = [{ x: this.player.x, y: this.player.y }];
+    let target: Enemy | null = first;
+    let jump = 0;
+
+    while (target && jump <= this.config.pierce) {
+      struck.add(target);
+      points.push({ x: target.x, y: target.y });
+
+      const falloff = Math.max(MIN_JUMP_DAMAGE, Math.pow(JUMP_FALLOFF, jump));
+      this.context.dealDamage(this, target, Math.floor(this.config.damage * falloff));
+
+      target = this.context.findNearestEnemy(target.x, target.y, JUMP_RADIUS * this.getArea(), struck);
+      jump++;
+    }
+
+    this.drawLightning(points);
+  }
+
+  public hitEnemy(_projectile: WeaponProjectile, _enemy: Enemy): number | null {
+    return null;
+  }
+
+  /**
+   * Jagged bolt through every link of the chain, fading out quickly
+   */
+  private drawLightning(points: { x: number; y: number }[]): void {
+    const graphics = this.scene.add.graphics().setDepth(DEPTH.EFFECTS);
+    GameEventBus.getInstance().emit('world:objectCreated', { object: graphics });
+    const path = this.jaggedPath(points);
+
+    graphics.lineStyle(4, this.definition.color, 0.6);
+    graphics.strokePoints(path);
+    graphics.lineStyle(2, 0xffffff, 1);
+    graphics.strokePoints(path);
+
+    this.scene.tweens.add({
+      targets: graphics,
+      alpha: 0,
+      duration: 150,
+      onComplete: () => graphics.destroy()
+    });
+  }
+
+  /**
+   * Split each link into short segments nudged sideways at random
+   */
+  private jaggedPath(points: { x: number; y: number }[]): Phaser.Math.Vector2[] {
+    const path: Phaser.Math.Vector2[] = [new Phaser.Math.Vector2(points[0].x, points[0].y)];
+
+    for (let i = 1; i < points.length; i++) {
+      const from = points[i - 1];
+      const to = points[i];
+      const length = Phaser.Math.Distance.Between(from.x, from.y, to.x, to.y);
+      const segments = Math.max(2, Math.ceil(length / 20));
+      const normalX = -(to.y - from.y) / (length || 1);
+      const normalY = (to.x - from.x) / (length || 1);
+
+      for (let s = 1; s < segments; s++) {
+        const t = s / segments;
+        const offset = (rng(RandomStream.COSMETICS).next() - 0.5) * 16;
+        path.push(new Phaser.Math.Vector2(
+          from.x + (to.x - from.x) * t + normalX * offset,
+          from.y + (to.y - from.y) * t + normalY * offset
+        ));
+      }
+      path.push(new Phaser.Math.Vector2(to.x, to.y));
+    }
+
+    return path;
+  }
+}
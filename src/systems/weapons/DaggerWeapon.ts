@@ -0,0 +1,167 @@
+import Phaser from 'phaser';
+import { DEPTH } from '../../config/Constants';
+import type { Enemy } from '../../entities/Enemy';
+import type { Player } from '../../entities/Player';
+import { DamageType } from '../DamagePipeline';
+import { PassiveItemType } from '../PassiveItems';
+import { SoundEffect } from '../SoundManager';
+import { PierceCounter, ShotPattern, Weapon, WeaponDefinition, WeaponContext, WeaponType } from './Weapon';
+
+const DAGGER: WeaponDefinition = {
+  type: WeaponType.DAGGER,
+  name: 'Rear Dagger',
+  shortName: 'Dagger',
+  description: 'Throw daggers behind you',
+  projectileName: 'dagger',
+  icon: '🗡️',
+  hudIcon: 5,
+  color: 0x88aacc,
+  damageType: DamageType.PHYSICAL,
+  hitSound: { effect: SoundEffect.WEAPON_DAGGER, volume: 0.4 },
+  hitEffect: true,
+  stats: {
+    damage: 15,
+    cooldown: 400,
+    projectileSpeed: 350,
+    projectileCount: 1,
+    pattern: ShotPattern.SPREAD,
+    spreadAngle: 0.3,
+    pierce: 0,
+  },
+  levels: [
+    { projectileCount: 1, damage: 1.2 },
+    { projectileCount: 1, damage: 1.2 },
+    { pierce: 1, damage: 1.2 },
+    { pierce: 1, damage: 1.2 },
+  ],
+  evolution: {
+    name: 'Blade Storm',
+    icon: '⚔️',
+    description: 'Daggers fire in ALL directions!',
+    announcement: 'Daggers fire everywhere!',
+    color: 0x4444ff,
+    minWeaponLevel: 5,
+    minPlayerLevel: 8,
+    requiredPassive: PassiveItemType.CHARM,
+    apply: (config) => {
+      config.damage *= 2;
+      config.projectileCount = 8;
+      config.spreadAngle = Math.PI * 2 / 8; // Fire in all directions
+      config.cooldown = 200;
+    },
+  },
+};
+
+/**
+ * Dagger projectile that fires behind the player
+ */
+class DaggerProjectile extends Phaser.Physics.Arcade.Sprite {
+  private damage: number = 15;
+  private lifespan: number = 0;
+  private maxLifespan: number = 800;
+  public readonly pierce: PierceCounter = new PierceCounter();
+
+  constructor(scene: Phaser.Scene, x: number, y: number) {
+    super(scene, x, y, 'projectile_3'); // Use third projectile sprite
+
+    scene.add.existing(this);
+    scene.physics.add.existing(this);
+
+    this.setDepth(DEPTH.PROJECTILES);
+    this.setActive(false);
+    this.setVisible(false);
+    this.setScale(0.9);
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) {
+      body.enable = false;
+      body.setCircle(6);
+      body.setOffset(this.width / 2 - 6, this.height / 2 - 6);
+    }
+  }
+
+  public fire(x: number, y: number, dirX: number, dirY: number, damage: number, speed: number, pierce: number): void {
+    const length = Math.sqrt(dirX * dirX + dirY * dirY);
+    if (length === 0) return;
+
+    const normalX = dirX / length;
+    const normalY = dirY / length;
+
+    // Spawn slightly behind player
+    const spawnX = x - normalX * 20;
+    const spawnY = y - normalY * 20;
+
+    this.setPosition(spawnX, spawnY);
+    this.setActive(true);
+    this.setVisible(true);
+    this.damage = damage;
+    this.lifespan = 0;
+    this.pierce.reset(pierce);
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) body.enable = true;
+
+    // Fire in opposite direction (behind)
+    this.setVelocity(-normalX * speed, -normalY * speed);
+    this.setRotation(Math.atan2(-normalY, -normalX));
+  }
+
+  public update(delta: number): void {
+    if (!this.active) return;
+    this.lifespan += delta;
+    if (this.lifespan >= this.maxLifespan) {
+      this.deactivate();
+    }
+  }
+
+  public deactivate(): void {
+    this.setActive(false);
+    this.setVisible(false);
+    this.setVelocity(0, 0);
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) body.enable = false;
+  }
+
+  public getDamage(): number {
+    return this.damage;
+  }
+}
+
+/**
+ * DaggerWeapon - Daggers thrown opposite the way the player is moving
+ */
+export class DaggerWeapon extends Weapon {
+  constructor(scene: Phaser.Scene, player: Player, context: WeaponContext) {
+    super(scene, player, context, DAGGER);
+    this.fillPool(32, () => new DaggerProjectile(scene, 0, 0)); // Enough for Blade Storm
+  }
+
+  protected fire(): boolean {
+    // Thrown behind the player (the projectile reverses the direction)
+    const facing = this.getPlayerFacingDirection();
+    this.fireProjectiles(facing.x, facing.y, (x, y, dirX, dirY) => {
+      const dagger = this.getFreeProjectile<DaggerProjectile>();
+      dagger?.fire(x, y, dirX, dirY, this.config.damage, this.getProjectileSpeed(), this.config.pierce);
+    });
+    return true;
+  }
+
+  public hitEnemy(dagger: DaggerProjectile, enemy: Enemy): number | null {
+    if (!dagger.pierce.hit(enemy)) return null;
+    if (dagger.pierce.isSpent()) dagger.deactivate();
+    return dagger.getDamage();
+  }
+
+  /**
+   * Get player's last movement direction
+   */
+  private getPlayerFacingDirection(): { x: number; y: number } {
+    const body = this.player.body as Phaser.Physics.Arcade.Body;
+    if (body && (body.velocity.x !== 0 || body.velocity.y !== 0)) {
+      const len = Math.sqrt(body.velocity.x ** 2 + body.velocity.y ** 2);
+      return { x: body.velocity.x / len, y: body.velocity.y / len };
+    }
+    // Default: facing down
+    return { x: 0, y: 1 };
+  }
+}
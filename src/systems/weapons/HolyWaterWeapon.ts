@@ -0,0 +1,176 @@
+import Phaser from 'phaser';
+import { DEPTH } from '../../config/Constants';
+import type { Enemy } from '../../entities/Enemy';
+import type { Player } from '../../entities/Player';
+import { DamageType } from '../DamagePipeline';
+import { PassiveItemType } from '../PassiveItems';
+import { rng, RandomStream } from '../RandomManager';
+import { StatusEffectType } from '../StatusEffects';
+import { ShotPattern, Weapon, WeaponDefinition, WeaponContext, WeaponType } from './Weapon';
+
+const POOL_RADIUS = 50;
+const POOL_DURATION = 2500;
+const POOL_TICK = 400; // ms between hits on the same enemy
+const TEXTURE_RADIUS = 32; // holy_water_pool is 64x64
+const SPLASH_DURATION = 150; // ms the pool takes to spread to full size
+const EVOLVED_SCALE = 1.5;
+
+const HOLY_WATER: WeaponDefinition = {
+  type: WeaponType.HOLY_WATER,
+  name: 'Holy Water',
+  shortName: 'Holy Water',
+  description: 'Leaves pools that hurt enemies standing in them',
+  projectileName: 'pool',
+  icon: '💧',
+  hudIcon: 2,
+  color: 0x3399ff,
+  damageType: DamageType.MAGIC,
+  stats: {
+    damage: 6, // Per tick
+    cooldown: 3000,
+    projectileSpeed: 0, // Lands instantly
+    projectileCount: 1, // Pools dropped per throw
+    pattern: ShotPattern.SPREAD,
+    spreadAngle: 0,
+    pierce: Infinity,
+  },
+  levels: [
+    { projectileCount: 1 },
+    { damage: 1.3 },
+    { cooldown: -500 },
+    { projectileCount: 1, damage: 1.3 },
+  ],
+  evolution: {
+    name: 'Sanctified Ground',
+    icon: '⛲',
+    description: 'Huge pools that slow everything inside!',
+    announcement: 'Holy Water floods the ground!',
+    color: 0x66ccff,
+    minWeaponLevel: 5,
+    minPlayerLevel: 8,
+    requiredPassive: PassiveItemType.RING,
+    apply: (config) => {
+      config.damage *= 2;
+      config.statusEffect = { type: StatusEffectType.SLOW, duration: 600 };
+    },
+  },
+};
+
+/**
+ * Puddle on the ground that hurts every enemy standing in it
+ */
+class HolyWaterPool extends Phaser.Physics.Arcade.Sprite {
+  private lifespan: number = 0;
+  private fullScale: number = 1;
+  private damageCooldowns: Map<Enemy, number> = new Map();
+
+  constructor(scene: Phaser.Scene, x: number, y: number) {
+    super(scene, x, y, 'holy_water_pool');
+
+    scene.add.existing(this);
+    scene.physics.add.existing(this);
+
+    this.setDepth(DEPTH.SHADOWS); // On the floor, under enemies
+    this.setActive(false);
+    this.setVisible(false);
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) {
+      body.enable = false;
+      body.setCircle(TEXTURE_RADIUS);
+    }
+  }
+
+  public spawn(x: number, y: number, radius: number): void {
+    this.lifespan = 0;
+    this.damageCooldowns.clear();
+
+    this.setPosition(x, y);
+    this.fullScale = radius / TEXTURE_RADIUS;
+    this.setScale(0.2);
+    this.setAlpha(1);
+    this.setActive(true);
+    this.setVisible(true);
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) body.enable = true;
+  }
+
+  public update(delta: number): void {
+    if (!this.active) return;
+
+    this.lifespan += delta;
+
+    // Splash in (on game time, the pool's body grows with it)
+    if (this.lifespan - delta < SPLASH_DURATION) {
+      const progress = Math.min(1, this.lifespan / SPLASH_DURATION);
+      this.setScale(Phaser.Math.Linear(0.2, this.fullScale, Phaser.Math.Easing.Back.Out(progress)));
+    }
+
+    // Fade out over the last half second
+    const remaining = POOL_DURATION - this.lifespan;
+    if (remaining < 500) this.setAlpha(Math.max(0, remaining / 500));
+
+    for (const [enemy, cooldown] of this.damageCooldowns) {
+      if (cooldown <= delta) {
+        this.damageCooldowns.delete(enemy);
+      } else {
+        this.damageCooldowns.set(enemy, cooldown - delta);
+      }
+    }
+
+    if (this.lifespan >= POOL_DURATION) {
+      this.deactivate();
+    }
+  }
+
+  public deactivate(): void {
+    this.setActive(false);
+    this.setVisible(false);
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) body.enable = false;
+  }
+
+  public canDamageEnemy(enemy: Enemy): boolean {
+    if (this.damageCooldowns.has(enemy)) return false;
+    this.damageCooldowns.set(enemy, POOL_TICK);
+    return true;
+  }
+}
+
+/**
+ * HolyWaterWeapon - Pools dropped under nearby enemies, damaging them over time
+ */
+export class HolyWaterWeapon extends Weapon {
+  constructor(scene: Phaser.Scene, player: Player, context: WeaponContext) {
+    super(scene, player, context, HOLY_WATER);
+    this.fillPool(12, () => new HolyWaterPool(scene, 0, 0));
+  }
+
+  protected fire(): boolean {
+    const targeted = new Set<Enemy>();
+    const first = this.findNearestEnemy();
+    if (!first) return false;
+
+    const radius = (this.isEvolved() ? POOL_RADIUS * EVOLVED_SCALE : POOL_RADIUS) * this.getArea();
+    for (let i = 0; i < this.config.projectileCount; i++) {
+      const target = i === 0 ? first : this.findNearestEnemy(undefined, targeted);
+      const pool = this.getFreeProjectile<HolyWaterPool>();
+      if (!pool) break;
+
+      if (target) {
+        targeted.add(target);
+        pool.spawn(target.x, target.y, radius);
+      } else {
+        // Fewer enemies than pools: splash around the player instead
+        const angle = rng(RandomStream.COMBAT).next() * Math.PI * 2;
+        pool.spawn(this.player.x + Math.cos(angle) * 80, this.player.y + Math.sin(angle) * 80, radius);
+      }
+    }
+    return true;
+  }
+
+  public hitEnemy(pool: HolyWaterPool, enemy: Enemy): number | null {
+    return pool.canDamageEnemy(enemy) ? this.config.damage : null;
+  }
+}
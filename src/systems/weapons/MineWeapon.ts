@@ -0,0 +1,172 @@
+import Phaser from 'phaser';
+import { DEPTH } from '../../config/Constants';
+import type { Enemy } from '../../entities/Enemy';
+import type { Player } from '../../entities/Player';
+import { DamageType } from '../DamagePipeline';
+import { GameEventBus } from '../GameEventBus';
+import { PassiveItemType } from '../PassiveItems';
+import { SoundEffect } from '../SoundManager';
+import { StatusEffectType } from '../StatusEffects';
+import { ShotPattern, Weapon, WeaponDefinition, WeaponContext, WeaponType } from './Weapon';
+
+const ARM_TIME = 500; // ms before a dropped mine can trigger
+const MINE_LIFESPAN = 10000;
+const TRIGGER_RADIUS = 24;
+const BLAST_RADIUS = 70;
+const EVOLVED_BLAST_RADIUS = 110;
+
+const MINE: WeaponDefinition = {
+  type: WeaponType.MINE,
+  name: 'Proximity Mine',
+  shortName: 'Mine',
+  description: 'Drop mines that explode when enemies get close',
+  projectileName: 'mine',
+  icon: '💣',
+  hudIcon: 4,
+  color: 0xff6600,
+  damageType: DamageType.FIRE,
+  knockback: 8,
+  hitSound: { effect: SoundEffect.ENEMY_HIT, volume: 0.3 },
+  stats: {
+    damage: 30,
+    cooldown: 2000,
+    projectileSpeed: 0, // Stays where it's dropped
+    projectileCount: 1, // Mines per drop
+    pattern: ShotPattern.VOLLEY,
+    spreadAngle: 0,
+    pierce: Infinity, // Blast hits everything in range
+  },
+  levels: [
+    { damage: 1.25 },
+    { projectileCount: 1 },
+    { damage: 1.2, cooldown: -300 },
+    { projectileCount: 1, damage: 1.25 },
+  ],
+  evolution: {
+    name: 'Napalm Field',
+    icon: '🔥',
+    description: 'Huge blasts that set enemies on fire!',
+    announcement: 'Mines erupt in flames!',
+    color: 0xff3300,
+    minWeaponLevel: 5,
+    minPlayerLevel: 8,
+    requiredPassive: PassiveItemType.WHETSTONE,
+    apply: (config) => {
+      config.damage *= 2;
+      config.statusEffect = { type: StatusEffectType.BURN, duration: 3000 };
+    },
+  },
+};
+
+/**
+ * Mine that sits on the ground until an enemy walks over it
+ */
+class Mine extends Phaser.Physics.Arcade.Sprite {
+  private lifespan: number = 0;
+
+  constructor(scene: Phaser.Scene, x: number, y: number) {
+    super(scene, x, y, 'mine');
+
+    scene.add.existing(this);
+    scene.physics.add.existing(this);
+
+    this.setDepth(DEPTH.ITEMS);
+    this.setActive(false);
+    this.setVisible(false);
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) {
+      body.enable = false;
+      body.setCircle(TRIGGER_RADIUS, this.width / 2 - TRIGGER_RADIUS, this.height / 2 - TRIGGER_RADIUS);
+    }
+  }
+
+  public drop(x: number, y: number): void {
+    this.lifespan = 0;
+
+    this.setPosition(x, y);
+    this.setAlpha(0.5); // Dim until armed
+    this.setActive(true);
+    this.setVisible(true);
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) body.enable = true;
+  }
+
+  public update(delta: number): void {
+    if (!this.active) return;
+
+    const wasArmed = this.isArmed();
+    this.lifespan += delta;
+    if (!wasArmed && this.isArmed()) this.setAlpha(1);
+
+    if (this.lifespan >= MINE_LIFESPAN) {
+      this.deactivate();
+    }
+  }
+
+  public isArmed(): boolean {
+    return this.lifespan >= ARM_TIME;
+  }
+
+  public deactivate(): void {
+    this.setActive(false);
+    this.setVisible(false);
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) body.enable = false;
+  }
+}
+
+/**
+ * MineWeapon - Mines dropped at the player's feet that explode on nearby enemies
+ */
+export class MineWeapon extends Weapon {
+  private heading: Phaser.Math.Vector2 = new Phaser.Math.Vector2(1, 0); // Last way the player was moving
+
+  constructor(scene: Phaser.Scene, player: Player, context: WeaponContext) {
+    super(scene, player, context, MINE);
+    this.fillPool(16, () => new Mine(scene, 0, 0));
+  }
+
+  protected fire(): boolean {
+    // Lined up across the player's path (the way they're moving, or last moved)
+    const velocity = (this.player.body as Phaser.Physics.Arcade.Body).velocity;
+    if (velocity.lengthSq() > 0) this.heading.copy(velocity).normalize();
+
+    this.fireProjectiles(this.heading.x, this.heading.y, (x, y) => {
+      const mine = this.getFreeProjectile<Mine>();
+      mine?.drop(x, y);
+    });
+    return true;
+  }
+
+  /**
+   * An enemy stepped on a mine: the blast damages everything around it
+   */
+  public hitEnemy(mine: Mine, _enemy: Enemy): number | null {
+    if (!mine.isArmed()) return null;
+
+    const radius = (this.isEvolved() ? EVOLVED_BLAST_RADIUS : BLAST_RADIUS) * this.getArea();
+    mine.deactivate();
+    this.spawnBlast(mine.x, mine.y, radius);
+
+    this.context.findEnemiesInRange(mine.x, mine.y, radius).forEach((enemy) => {
+      this.context.dealDamage(this, enemy, this.config.damage);
+    });
+    return null;
+  }
+
+  private spawnBlast(x: number, y: number, radius: number): void {
+    const flash = this.scene.add.circle(x, y, radius, this.isEvolved() ? 0xff3300 : 0xff6600, 0.5);
+    flash.setDepth(DEPTH.EFFECTS);
+    GameEventBus.getInstance().emit('world:objectCreated', { object: flash });
+
+    this.scene.tweens.add({
+      targets: flash,
+      scale: { from: 0.3, to: 1 },
+      alpha: 0,
+      duration: 250,
+      onComplete: () => flash.destroy()
+    });
+  }
+}
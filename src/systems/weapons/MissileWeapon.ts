@@ -0,0 +1,223 @@
+import Phaser from 'phaser';
+import { DEPTH } from '../../config/Constants';
+import type { Enemy } from '../../entities/Enemy';
+import type { Player } from '../../entities/Player';
+import { DamageType } from '../DamagePipeline';
+import { PassiveItemType } from '../PassiveItems';
+import { SoundEffect } from '../SoundManager';
+import { ShotPattern, Weapon, WeaponDefinition, WeaponContext, WeaponType } from './Weapon';
+
+const LOCK_RANGE = 400; // Missiles lock on from further away than the wand aims
+const TURN_RATE = Math.PI * 2; // Radians per second
+const MISSILE_LIFESPAN = 3000;
+const EXPLOSION_RADIUS = 40;
+
+const MISSILE: WeaponDefinition = {
+  type: WeaponType.MISSILE,
+  name: 'Homing Missile',
+  shortName: 'Missile',
+  description: 'Missiles lock on and chase enemies down',
+  projectileName: 'missile',
+  icon: '🚀',
+  hudIcon: 6,
+  color: 0xff4444,
+  damageType: DamageType.FIRE,
+  knockback: 4,
+  hitSound: { effect: SoundEffect.ENEMY_HIT, volume: 0.3 },
+  stats: {
+    damage: 18,
+    cooldown: 1200,
+    projectileSpeed: 220,
+    projectileCount: 1,
+    pattern: ShotPattern.BURST,
+    spreadAngle: 0,
+    pierce: 0,
+  },
+  levels: [
+    { projectileCount: 1 },
+    { damage: 1.25 },
+    { projectileCount: 1, cooldown: -200 },
+    { damage: 1.3 },
+  ],
+  evolution: {
+    name: 'Swarm Barrage',
+    icon: '🎆',
+    description: 'Fires a swarm of missiles at once!',
+    announcement: 'Missiles launch in swarms!',
+    color: 0xff4444,
+    minWeaponLevel: 5,
+    minPlayerLevel: 8,
+    requiredPassive: PassiveItemType.CHARM,
+    apply: (config) => {
+      config.damage = Math.floor(config.damage * 1.5);
+      config.projectileCount += 4;
+    },
+  },
+};
+
+/**
+ * Missile that steers toward its locked target
+ */
+class MissileProjectile extends Phaser.Physics.Arcade.Sprite {
+  private damage: number = 18;
+  private speed: number = 220;
+  private lifespan: number = 0;
+  private heading: number = 0;
+  private target: Enemy | null = null;
+  private retarget?: (missile: MissileProjectile) => Enemy | null;
+
+  constructor(scene: Phaser.Scene, x: number, y: number) {
+    super(scene, x, y, 'projectile_4');
+
+    scene.add.existing(this);
+    scene.physics.add.existing(this);
+
+    this.setDepth(DEPTH.PROJECTILES);
+    this.setActive(false);
+    this.setVisible(false);
+    this.setScale(0.8);
+    this.setTint(0xff8866);
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) {
+      body.enable = false;
+      body.setCircle(5);
+      body.setOffset(this.width / 2 - 5, this.height / 2 - 5);
+    }
+  }
+
+  public fire(
+    x: number,
+    y: number,
+    dirX: number,
+    dirY: number,
+    damage: number,
+    speed: number,
+    target: Enemy | null,
+    retarget: (missile: MissileProjectile) => Enemy | null
+  ): void {
+    this.damage = damage;
+    this.speed = speed;
+    this.lifespan = 0;
+    this.heading = Math.atan2(dirY, dirX);
+    this.target = target;
+    this.retarget = retarget;
+
+    this.setPosition(x, y);
+    this.setActive(true);
+    this.setVisible(true);
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) body.enable = true;
+
+    this.applyHeading();
+  }
+
+  public update(delta: number): void {
+    if (!this.active) return;
+
+    this.lifespan += delta;
+    if (this.lifespan >= MISSILE_LIFESPAN) {
+      this.deactivate();
+      return;
+    }
+
+    // Lost the lock: pick the nearest enemy instead
+    if (!this.target || !this.target.active || !this.target.alive) {
+      this.target = this.retarget?.(this) ?? null;
+    }
+
+    if (this.target) {
+      const desired = Math.atan2(this.target.y - this.y, this.target.x - this.x);
+      const maxTurn = TURN_RATE * (delta / 1000);
+      const turn = Phaser.Math.Clamp(Phaser.Math.Angle.Wrap(desired - this.heading), -maxTurn, maxTurn);
+      this.heading += turn;
+    }
+
+    this.applyHeading();
+  }
+
+  private applyHeading(): void {
+    this.setVelocity(Math.cos(this.heading) * this.speed, Math.sin(this.heading) * this.speed);
+    this.setRotation(this.heading);
+  }
+
+  public getTarget(): Enemy | null {
+    return this.target;
+  }
+
+  public getDamage(): number {
+    return this.damage;
+  }
+
+  public deactivate(): void {
+    this.setActive(false);
+    this.setVisible(false);
+    this.setVelocity(0, 0);
+    this.target = null;
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) body.enable = false;
+  }
+}
+
+/**
+ * MissileWeapon - Missiles that lock onto separate enemies and explode on impact
+ */
+export class MissileWeapon extends Weapon {
+  constructor(scene: Phaser.Scene, player: Player, context: WeaponContext) {
+    super(scene, player, context, MISSILE);
+    this.fillPool(20, () => new MissileProjectile(scene, 0, 0));
+  }
+
+  protected fire(): boolean {
+    const first = this.findNearestEnemy(LOCK_RANGE);
+    if (!first) return false;
+
+    // Burst missiles leave one at a time, each locking its own target when it launches
+    this.fireProjectiles(first.x - this.player.x, first.y - this.player.y, (x, y, dirX, dirY) => {
+      const missile = this.getFreeProjectile<MissileProjectile>();
+      if (!missile) return;
+
+      const target = this.context.findNearestEnemy(x, y, LOCK_RANGE, this.getLockedTargets());
+      const retarget = (m: MissileProjectile) => this.context.findNearestEnemy(m.x, m.y, LOCK_RANGE);
+      missile.fire(x, y, dirX, dirY, this.config.damage, this.getProjectileSpeed(), target ?? first, retarget);
+    });
+    return true;
+  }
+
+  public hitEnemy(missile: MissileProjectile, enemy: Enemy): number | null {
+    this.explode(missile, enemy);
+    return null;
+  }
+
+  public hitWall(missile: MissileProjectile): void {
+    this.explode(missile);
+  }
+
+  /**
+   * Damage the enemy hit (large ones may be centered outside the blast) and everything around it
+   */
+  private explode(missile: MissileProjectile, directHit?: Enemy): void {
+    const { x, y } = missile;
+    const damage = missile.getDamage();
+    missile.deactivate();
+
+    const victims = new Set(this.context.findEnemiesInRange(x, y, EXPLOSION_RADIUS * this.getArea()));
+    if (directHit) victims.add(directHit);
+    victims.forEach((enemy) => this.context.dealDamage(this, enemy, damage));
+    this.context.spawnExplosion(x, y);
+  }
+
+  /**
+   * Enemies already chased by a missile in flight
+   */
+  private getLockedTargets(): Set<Enemy> {
+    const locked = new Set<Enemy>();
+    this.pool.getChildren().forEach((obj) => {
+      const missile = obj as MissileProjectile;
+      const target = missile.active ? missile.getTarget() : null;
+      if (target) locked.add(target);
+    });
+    return locked;
+  }
+}
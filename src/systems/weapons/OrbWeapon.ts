@@ -0,0 +1,182 @@
+import Phaser from 'phaser';
+import { DEPTH } from '../../config/Constants';
+import type { Enemy } from '../../entities/Enemy';
+import type { Player } from '../../entities/Player';
+import { DamageType } from '../DamagePipeline';
+import { PassiveItemType } from '../PassiveItems';
+import { StatusEffectType } from '../StatusEffects';
+import { ShotPattern, Weapon, WeaponDefinition, WeaponContext, WeaponType } from './Weapon';
+
+const ORB: WeaponDefinition = {
+  type: WeaponType.ORB,
+  name: 'Orbiting Orb',
+  shortName: 'Orb',
+  description: 'Orb circles around you',
+  projectileName: 'orb',
+  icon: '🔮',
+  hudIcon: 7,
+  color: 0x00ffff,
+  damageType: DamageType.MAGIC,
+  stats: {
+    damage: 8,
+    cooldown: 100, // Damage tick rate
+    projectileSpeed: 0, // Orbits, doesn't travel
+    projectileCount: 1, // Orbs are spaced evenly around the player
+    pattern: ShotPattern.SPREAD,
+    spreadAngle: 0,
+    pierce: Infinity,
+    statusEffect: { type: StatusEffectType.SLOW, duration: 1000 },
+  },
+  levels: [
+    { projectileCount: 1, damage: 1.15 },
+    { projectileCount: 1, damage: 1.15 },
+  ],
+  evolution: {
+    name: 'Nova Shield',
+    icon: '💠',
+    description: 'Orbs explode on contact for massive AOE!',
+    announcement: 'Orbs deal massive damage!',
+    color: 0x00ffff,
+    minWeaponLevel: 3,
+    minPlayerLevel: 6,
+    requiredPassive: PassiveItemType.RING,
+    apply: (config) => {
+      config.damage *= 4;
+      config.projectileCount += 2; // Add more orbs for evolved state
+    },
+  },
+};
+
+/**
+ * Orbiting orb that circles the player
+ */
+class OrbProjectile extends Phaser.Physics.Arcade.Sprite {
+  private orbitAngle: number = 0;
+  private orbitRadius: number = 60;
+  private orbitSpeed: number = 3;
+  private playerRef?: Player;
+  private damageCooldowns: Map<Enemy, number> = new Map();
+
+  constructor(scene: Phaser.Scene, x: number, y: number) {
+    super(scene, x, y, 'effect_1'); // Use effect sprite for orb
+
+    scene.add.existing(this);
+    scene.physics.add.existing(this);
+
+    this.setDepth(DEPTH.PROJECTILES);
+    this.setActive(false);
+    this.setVisible(false);
+    this.setScale(0.6);
+    this.setTint(0x00ffff); // Cyan color
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) {
+      body.enable = false;
+      body.setCircle(10);
+      body.setOffset(this.width / 2 - 10, this.height / 2 - 10);
+    }
+  }
+
+  public activate(player: Player, startAngle: number): void {
+    this.playerRef = player;
+    this.orbitAngle = startAngle;
+    this.damageCooldowns.clear();
+
+    this.setActive(true);
+    this.setVisible(true);
+
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) body.enable = true;
+
+    this.updatePosition();
+  }
+
+  public update(delta: number): void {
+    if (!this.active || !this.playerRef) return;
+
+    // Update orbit angle
+    this.orbitAngle += this.orbitSpeed * (delta / 1000) * Math.PI * 2;
+    this.updatePosition();
+
+    // Pulse effect
+    const pulse = 0.5 + Math.sin(this.orbitAngle * 2) * 0.1;
+    this.setScale(pulse);
+
+    // Update damage cooldowns
+    for (const [enemy, cooldown] of this.damageCooldowns) {
+      if (cooldown <= delta) {
+        this.damageCooldowns.delete(enemy);
+      } else {
+        this.damageCooldowns.set(enemy, cooldown - delta);
+      }
+    }
+  }
+
+  private updatePosition(): void {
+    if (!this.playerRef) return;
+
+    const x = this.playerRef.x + Math.cos(this.orbitAngle) * this.orbitRadius;
+    const y = this.playerRef.y + Math.sin(this.orbitAngle) * this.orbitRadius;
+    this.setPosition(x, y);
+  }
+
+  public deactivate(): void {
+    this.setActive(false);
+    this.setVisible(false);
+    this.playerRef = undefined;
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) body.enable = false;
+  }
+
+  public canDamageEnemy(enemy: Enemy): boolean {
+    if (this.damageCooldowns.has(enemy)) return false;
+    this.damageCooldowns.set(enemy, 500); // 500ms cooldown per enemy
+    return true;
+  }
+
+  public setOrbitRadius(radius: number): void {
+    this.orbitRadius = radius;
+  }
+
+  public setOrbitSpeed(speed: number): void {
+    this.orbitSpeed = speed;
+  }
+}
+
+/**
+ * OrbWeapon - Orbs circling the player, one per projectile count
+ */
+export class OrbWeapon extends Weapon {
+  constructor(scene: Phaser.Scene, player: Player, context: WeaponContext) {
+    super(scene, player, context, ORB);
+    this.fillPool(5, () => new OrbProjectile(scene, 0, 0)); // Evolved count
+  }
+
+  /**
+   * Orbs never fire - they damage whatever they touch
+   */
+  protected fire(): boolean {
+    return false;
+  }
+
+  public hitEnemy(orb: OrbProjectile, enemy: Enemy): number | null {
+    return orb.canDamageEnemy(enemy) ? this.config.damage : null;
+  }
+
+  /**
+   * Keep one orb per projectile, evenly spaced
+   */
+  protected onStatsChanged(): void {
+    if (!this.isUnlocked()) return;
+
+    const orbs = this.pool.getChildren() as OrbProjectile[];
+    const count = Math.min(this.config.projectileCount, orbs.length);
+    orbs.forEach((orb, index) => {
+      if (index < count) {
+        orb.activate(this.player, index * (Math.PI * 2 / count));
+      } else {
+        orb.deactivate();
+      }
+    });
+  }
+}
@@ -0,0 +1,220 @@
+import Phaser from 'phaser';
+import {
+  PROJECTILE_SPEED,
+  PROJECTILE_LIFESPAN,
+  PROJECTILE_POOL_SIZE,
+  DEPTH,
+} from '../../config/Constants';
+import type { Enemy } from '../../entities/Enemy';
+import type { Player } from '../../entities/Player';
+import { DamageType } from '../DamagePipeline';
+import { rng, RandomStream } from '../RandomManager';
+import { SoundEffect } from '../SoundManager';
+import { PierceCounter, ShotPattern, Weapon, WeaponDefinition, WeaponContext, WeaponType } from './Weapon';
+
+const WAND: WeaponDefinition = {
+  type: WeaponType.WAND,
+  name: 'Magic Wand',
+  shortName: 'Wand',
+  description: 'Fires at the nearest enemy',
+  projectileName: 'bolt',
+  icon: '✨',
+  hudIcon: 1,
+  color: 0x00ffff,
+  damageType: DamageType.MAGIC,
+  hitSound: { effect: SoundEffect.ENEMY_HIT, volume: 0.4 },
+  hitEffect: true,
+  startsUnlocked: true,
+  stats: {
+    damage: 10,
+    cooldown: 300,
+    projectileSpeed: PROJECTILE_SPEED,
+    projectileCount: 1,
+    pattern: ShotPattern.BURST,
+    spreadAngle: 0,
+    pierce: 0,
+  },
+  levels: [
+    { projectileCount: 1 },
+    { pierce: 1 },
+    { projectileCount: 1 },
+    { pierce: 1, damage: 1.2 },
+  ],
+};
+
+/**
+ * Projectile - Individual projectile sprite
+ */
+class Projectile extends Phaser.Physics.Arcade.Sprite {
+  private damage: number = 10;
+  private lifespan: number = 0;
+  private maxLifespan: number = PROJECTILE_LIFESPAN;
+  private projectileType: number = 1;
+  public readonly pierce: PierceCounter = new PierceCounter();
+
+  constructor(scene: Phaser.Scene, x: number, y: number) {
+    super(scene, x, y, 'projectile_1');
+
+    scene.add.existing(this);
+    scene.physics.add.existing(this);
+
+    this.setDepth(DEPTH.PROJECTILES);
+    this.setActive(false);
+    this.setVisible(false);
+    this.setScale(0.8); // Scale down the projectile sprite
+
+    // Set up physics body with small circular hitbox
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) {
+      body.enable = false;
+      body.setCircle(4); // Small 4px radius hitbox
+      body.setOffset(this.width / 2 - 4, this.height / 2 - 4); // Center the hitbox
+    }
+  }
+
+  /**
+   * Fire the projectile in a direction
+   */
+  public fire(
+    x: number,
+    y: number,
+    directionX: number,
+    directionY: number,
+    damage: number,
+    speed: number = PROJECTILE_SPEED,
+    pierce: number = 0,
+    projectileType: number = 1
+  ): void {
+    // Set projectile texture based on type (1-10 available)
+    this.projectileType = Math.min(10, Math.max(1, projectileType));
+    this.setTexture(`projectile_${this.projectileType}`);
+    // Normalize direction first
+    const length = Math.sqrt(directionX * directionX + directionY * directionY);
+    if (length === 0) return;
+
+    const normalX = directionX / length;
+    const normalY = directionY / length;
+
+    // Offset spawn position 30px in firing direction to avoid wall collision
+    const spawnOffset = 30;
+    const spawnX = x + normalX * spawnOffset;
+    const spawnY = y + normalY * spawnOffset;
+
+    this.setPosition(spawnX, spawnY);
+    this.setActive(true);
+    this.setVisible(true);
+
+    // Enable physics body
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) {
+      body.enable = true;
+    }
+
+    this.damage = damage;
+    this.lifespan = 0;
+    this.maxLifespan = PROJECTILE_LIFESPAN;
+    this.pierce.reset(pierce);
+
+    // Apply velocity
+    this.setVelocity(normalX * speed, normalY * speed);
+
+    // Rotate to face direction
+    this.setRotation(Math.atan2(normalY, normalX));
+  }
+
+  /**
+   * Deactivate the projectile (return to pool)
+   */
+  public deactivate(): void {
+    this.setActive(false);
+    this.setVisible(false);
+    this.setVelocity(0, 0);
+
+    // Disable physics body when pooled
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    if (body) {
+      body.enable = false;
+    }
+  }
+
+  /**
+   * Update projectile each frame
+   */
+  public update(delta: number): void {
+    if (!this.active) return;
+
+    this.lifespan += delta;
+
+    if (this.lifespan >= this.maxLifespan) {
+      this.deactivate();
+    }
+  }
+
+  public getDamage(): number {
+    return this.damage;
+  }
+}
+
+/**
+ * WandWeapon - The starting weapon, auto-aims bolts at the nearest enemy
+ */
+export class WandWeapon extends Weapon {
+  constructor(scene: Phaser.Scene, player: Player, context: WeaponContext) {
+    super(scene, player, context, WAND);
+    this.fillPool(PROJECTILE_POOL_SIZE, () => new Projectile(scene, 0, 0));
+  }
+
+  protected fire(): boolean {
+    const nearestEnemy = this.findNearestEnemy();
+    if (!nearestEnemy) return false;
+
+    // Calculate direction to enemy
+    const dirX = nearestEnemy.x - this.player.x;
+    const dirY = nearestEnemy.y - this.player.y;
+    this.fireProjectiles(dirX, dirY, (x, y, shotX, shotY) => {
+      const projectile = this.getFreeProjectile<Projectile>();
+      if (!projectile) return;
+
+      projectile.fire(x, y, shotX, shotY, this.config.damage, this.getProjectileSpeed(), this.config.pierce);
+
+      // Spawn muzzle flash
+      const angle = Math.atan2(shotY, shotX);
+      this.spawnMuzzleFlash(x + Math.cos(angle) * 20, y + Math.sin(angle) * 20, angle);
+    });
+    return true;
+  }
+
+  public hitEnemy(projectile: Projectile, enemy: Enemy): number | null {
+    if (!projectile.pierce.hit(enemy)) return null;
+    if (projectile.pierce.isSpent()) projectile.deactivate();
+    return projectile.getDamage();
+  }
+
+  public hitWall(projectile: Projectile): void {
+    projectile.deactivate();
+  }
+
+  /**
+   * Spawn muzzle flash effect at position using varied effects
+   */
+  private spawnMuzzleFlash(x: number, y: number, angle: number): void {
+    // Use random effect sprite from sets 1-3
+    const effectSet = rng(RandomStream.COSMETICS).between(1, 3);
+    const effectFrame = rng(RandomStream.COSMETICS).between(1, 3);
+
+    const flash = this.scene.add.image(x, y, `effect_${effectSet}_${effectFrame}`);
+    flash.setDepth(DEPTH.EFFECTS);
+    flash.setScale(0.4);
+    flash.setRotation(angle);
+    flash.setTint(0xffff00); // Yellow tint for muzzle flash
+
+    // Animate and destroy
+    this.scene.tweens.add({
+      targets: flash,
+      alpha: 0,
+      scale: 0.6,
+      duration: 80,
+      onComplete: () => flash.destroy()
+    });
+  }
+}
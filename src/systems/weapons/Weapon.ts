@@ -0,0 +1,542 @@
+import Phaser from 'phaser';
+import type { Enemy } from '../../entities/Enemy';
+import type { Player } from '../../entities/Player';
+import type { DamageType } from '../DamagePipeline';
+import type { PassiveItemType } from '../PassiveItems';
+import type { SoundEffect } from '../SoundManager';
+import { StatType } from '../StatBlock';
+import type { StatusEffectApplication } from '../StatusEffects';
+
+/**
+ * Weapon types available in the game
+ */
+export enum WeaponType {
+  WAND = 'wand',       // Default: fires straight at nearest enemy
+  AXE = 'axe',         // Thrown in arc, high damage, short range
+  DAGGER = 'dagger',   // Thrown behind player for rear protection
+  ORB = 'orb',         // Circles the player as defensive zone
+  LIGHTNING = 'lightning', // Arcs from enemy to enemy
+  HOLY_WATER = 'holy_water', // Pools that hurt enemies standing in them
+  MINE = 'mine',       // Dropped behind, detonates when enemies come close
+  MISSILE = 'missile', // Homes in on a locked target, explodes on impact
+  BEAM = 'beam',       // Channelled laser sweeping toward the nearest enemy
+}
+
+/**
+ * How a weapon arranges several projectiles fired at once
+ */
+export enum ShotPattern {
+  SPREAD = 'spread', // Fan around the aim direction
+  VOLLEY = 'volley', // Side by side, all parallel
+  BURST = 'burst',   // One after another down the same line
+}
+
+/**
+ * Weapon configuration
+ */
+export interface WeaponConfig {
+  type: WeaponType;
+  name: string;
+  damage: number;
+  cooldown: number;      // ms between shots
+  projectileSpeed: number;
+  projectileCount: number;
+  pattern: ShotPattern;  // How projectileCount > 1 is fired
+  spreadAngle: number;   // Radians between projectiles in a spread
+  pierce: number;        // Extra enemies each projectile passes through (Infinity = all)
+  statusEffect?: StatusEffectApplication; // Inflicted on every hit
+  range?: number;        // Reach in px (beams)
+  width?: number;        // Thickness in px (beams)
+  level: number;         // Weapon level (affects stats)
+}
+
+/**
+ * One row of a weapon's level table (level 2 is the first row)
+ * Cards describe the row from these values, so every change must be listed here
+ */
+export interface WeaponLevel {
+  damage?: number;          // Damage multiplier
+  cooldown?: number;        // ms added to the cooldown (negative = faster)
+  projectileCount?: number; // Projectiles added
+  pierce?: number;          // Extra enemies pierced
+  range?: number;           // px added to the reach
+  width?: number;           // px added to the thickness
+}
+
+/**
+ * Ultimate form of a weapon, offered once both levels are reached
+ */
+export interface WeaponEvolution {
+  name: string;
+  icon: string;
+  description: string; // Shown on the evolution card
+  announcement: string; // Shown when the evolution happens
+  color: number;
+  minWeaponLevel: number;
+  minPlayerLevel: number;
+  requiredPassive?: PassiveItemType; // Must be carried (any level) to evolve
+  apply: (config: WeaponConfig) => void;
+}
+
+/**
+ * Everything the upgrade system, collision setup and HUD need to know about a weapon
+ */
+export interface WeaponDefinition {
+  type: WeaponType;
+  name: string;
+  shortName: string; // Used on level-up cards ("Axe +1")
+  description: string; // Shown on the unlock card
+  projectileName: string; // Singular, for level-up cards ("+1 dagger")
+  pierceName?: string; // Singular, for level-up cards when pierce means something else ("+1 jump")
+  icon: string;
+  hudIcon: number; // weapon_icon_N texture
+  color: number;
+  damageType: DamageType;
+  knockback?: number;
+  hitSound?: { effect: SoundEffect; volume: number };
+  hitEffect?: boolean; // Spark on every hit
+  startsUnlocked?: boolean;
+  stats: Omit<WeaponConfig, 'type' | 'name' | 'level'>;
+  levels: WeaponLevel[];
+  evolution?: WeaponEvolution;
+}
+
+/**
+ * A value shown on a level-up card before and after the card is picked
+ */
+export interface StatChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * Services a weapon gets from its manager
+ */
+export interface WeaponContext {
+  findNearestEnemy(x: number, y: number, range: number, exclude?: Set<Enemy>): Enemy | null;
+  findEnemiesInRange(x: number, y: number, range: number): Enemy[];
+  /** Deal a hit from this weapon without a projectile (beams, chains, explosions) */
+  dealDamage(weapon: Weapon, enemy: Enemy, amount: number): void;
+  /** Show an explosion where a weapon blew up */
+  spawnExplosion(x: number, y: number): void;
+  /** Where a line from (x1, y1) toward (x2, y2) runs into a wall */
+  clipToWalls(x1: number, y1: number, x2: number, y2: number): { x: number; y: number };
+}
+
+/**
+ * A pooled object a weapon fires or spawns
+ */
+export type WeaponProjectile = Phaser.Physics.Arcade.Sprite & {
+  update(delta: number): void;
+  deactivate(): void;
+};
+
+/**
+ * Default auto-aim range for weapons that target enemies
+ */
+const ATTACK_RANGE = 300;
+
+const VOLLEY_SPACING = 20; // px between parallel projectiles
+const BURST_DELAY = 80; // ms between projectiles in a burst
+const MIN_COOLDOWN = 100;
+
+/**
+ * Launches one projectile from a point in a direction
+ */
+export type ProjectileLauncher = (x: number, y: number, dirX: number, dirY: number) => void;
+
+/**
+ * Apply one level table row to a config
+ */
+function applyLevel(config: WeaponConfig, next: WeaponLevel): void {
+  config.level++;
+  if (next.damage) config.damage = Math.floor(config.damage * next.damage);
+  if (next.cooldown) config.cooldown = Math.max(MIN_COOLDOWN, config.cooldown + next.cooldown);
+  config.projectileCount += next.projectileCount ?? 0;
+  config.pierce += next.pierce ?? 0;
+  if (next.range) config.range = (config.range ?? 0) + next.range;
+  if (next.width) config.width = (config.width ?? 0) + next.width;
+}
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+const formatCount = (value: number): string => (value === Infinity ? '∞' : `${value}`);
+
+interface QueuedShot {
+  delay: number;
+  dirX: number;
+  dirY: number;
+  launch: ProjectileLauncher;
+}
+
+/**
+ * Tracks which enemies a projectile already hit and how many more it may pass through
+ */
+export class PierceCounter {
+  private hitEnemies: Set<Enemy> = new Set();
+  private remaining: number = 0;
+
+  public reset(pierce: number): void {
+    this.hitEnemies.clear();
+    this.remaining = pierce;
+  }
+
+  /**
+   * Register a hit
+   * @returns False if this enemy was already hit by the projectile
+   */
+  public hit(enemy: Enemy): boolean {
+    if (this.hitEnemies.has(enemy)) return false;
+    this.hitEnemies.add(enemy);
+    this.remaining--;
+    return true;
+  }
+
+  /**
+   * True once the projectile has hit as many enemies as it can
+   */
+  public isSpent(): boolean {
+    return this.remaining < 0;
+  }
+}
+
+/**
+ * Weapon - Base class for every player weapon
+ *
+ * Holds the weapon's level, evolution state and projectile pool. Subclasses provide
+ * the fire logic and decide what happens when one of their projectiles touches an
+ * enemy (or a wall); the WeaponManager drives the timer and routes hits into the
+ * damage pipeline.
+ */
+export abstract class Weapon {
+  public readonly definition: WeaponDefinition;
+  protected scene: Phaser.Scene;
+  protected player: Player;
+  protected context: WeaponContext;
+  protected config: WeaponConfig;
+  protected pool: Phaser.GameObjects.Group;
+
+  private unlocked: boolean;
+  private evolved: boolean = false;
+  private fireTimer: number = 0;
+  private queuedShots: QueuedShot[] = [];
+
+  constructor(scene: Phaser.Scene, player: Player, context: WeaponContext, definition: WeaponDefinition) {
+    this.scene = scene;
+    this.player = player;
+    this.context = context;
+    this.definition = definition;
+    this.config = { ...definition.stats, type: definition.type, name: definition.name, level: 1 };
+    this.unlocked = definition.startsUnlocked ?? false;
+    this.pool = scene.add.group({ runChildUpdate: false });
+  }
+
+  public get type(): WeaponType {
+    return this.definition.type;
+  }
+
+  /**
+   * Fire once the cooldown is up
+   * @returns Whether anything was fired (the cooldown restarts only then)
+   */
+  protected abstract fire(): boolean;
+
+  /**
+   * One of this weapon's projectiles touched an enemy
+   * @returns Damage to deal, or null if the hit doesn't count
+   */
+  public abstract hitEnemy(projectile: WeaponProjectile, enemy: Enemy): number | null;
+
+  /**
+   * One of this weapon's projectiles touched a wall (weapons without it pass through)
+   */
+  public hitWall?(projectile: WeaponProjectile): void;
+
+  /**
+   * Called after unlocking, leveling up or evolving
+   */
+  protected onStatsChanged(): void {}
+
+  public update(delta: number, canAttack: boolean): void {
+    this.pool.getChildren().forEach(obj => (obj as WeaponProjectile).update(delta));
+    this.updateQueuedShots(delta);
+
+    if (!this.unlocked || !canAttack) return;
+
+    this.fireTimer += delta;
+    if (this.fireTimer >= this.getCooldown() && this.fire()) {
+      this.fireTimer = 0;
+    }
+  }
+
+  /**
+   * @returns Whether the weapon was newly unlocked
+   */
+  public unlock(): boolean {
+    if (this.unlocked) return false;
+    this.unlocked = true;
+    this.onStatsChanged();
+    return true;
+  }
+
+  /**
+   * Apply the next row of the level table
+   * @returns Whether the weapon leveled up
+   */
+  public levelUp(): boolean {
+    const next = this.getNextLevel();
+    if (!this.unlocked || !next) return false;
+
+    applyLevel(this.config, next);
+    this.onStatsChanged();
+    return true;
+  }
+
+  /**
+   * @returns Whether the weapon was newly evolved
+   */
+  public evolve(): boolean {
+    const evolution = this.definition.evolution;
+    if (!this.unlocked || this.evolved || !evolution) return false;
+
+    this.evolved = true;
+    evolution.apply(this.config);
+    this.onStatsChanged();
+    return true;
+  }
+
+  public canEvolve(playerLevel: number): boolean {
+    const evolution = this.definition.evolution;
+    return !!evolution &&
+      this.unlocked &&
+      !this.evolved &&
+      this.config.level >= evolution.minWeaponLevel &&
+      playerLevel >= evolution.minPlayerLevel &&
+      (!evolution.requiredPassive || this.player.passives.has(evolution.requiredPassive));
+  }
+
+  /**
+   * Multiply base damage (stat cards that only affect this weapon)
+   */
+  public scaleDamage(multiplier: number): void {
+    this.config.damage = Math.floor(this.config.damage * multiplier);
+  }
+
+  /**
+   * Multiply the base cooldown (below 1 = faster)
+   */
+  public scaleCooldown(multiplier: number): void {
+    this.config.cooldown = Math.floor(this.config.cooldown * multiplier);
+  }
+
+  public isUnlocked(): boolean {
+    return this.unlocked;
+  }
+
+  public isEvolved(): boolean {
+    return this.evolved;
+  }
+
+  public getLevel(): number {
+    return this.config.level;
+  }
+
+  public getMaxLevel(): number {
+    return this.definition.levels.length + 1;
+  }
+
+  /**
+   * Level table row the next level-up applies (null at max level)
+   */
+  public getNextLevel(): WeaponLevel | null {
+    return this.definition.levels[this.config.level - 1] ?? null;
+  }
+
+  /**
+   * What the next level-up changes, e.g. "+1 dagger, +20% damage"
+   */
+  public describeNextLevel(): string {
+    const next = this.getNextLevel();
+    if (!next) return '';
+
+    const changes: string[] = [];
+    if (next.projectileCount) {
+      const plural = next.projectileCount > 1 ? 's' : '';
+      changes.push(`+${next.projectileCount} ${this.definition.projectileName}${plural}`);
+    }
+    if (next.pierce) {
+      const pierceName = this.definition.pierceName;
+      changes.push(pierceName ? `+${next.pierce} ${pierceName}${next.pierce > 1 ? 's' : ''}` : `+${next.pierce} pierce`);
+    }
+    if (next.range) changes.push(`+${next.range} range`);
+    if (next.width) changes.push(`+${next.width} width`);
+    if (next.damage) changes.push(`+${Math.round((next.damage - 1) * 100)}% damage`);
+    if (next.cooldown) changes.push(`${next.cooldown > 0 ? '+' : ''}${next.cooldown}ms cooldown`);
+    return changes.join(', ');
+  }
+
+  /**
+   * Base stats the unlock card shows
+   */
+  public previewUnlock(): StatChange[] {
+    return [
+      { label: 'Damage', before: '-', after: `${this.config.damage}` },
+      { label: 'Cooldown', before: '-', after: `${this.getCooldown()}ms` },
+    ];
+  }
+
+  /**
+   * Level and stats before and after the next level-up
+   */
+  public previewNextLevel(): StatChange[] {
+    const next = this.getNextLevel();
+    if (!next) return [];
+
+    const after = { ...this.config };
+    applyLevel(after, next);
+    return [
+      { label: 'Level', before: `${this.config.level}`, after: `${after.level}` },
+      ...this.diffConfig(after),
+    ];
+  }
+
+  /**
+   * Stats before and after evolving
+   */
+  public previewEvolution(): StatChange[] {
+    const evolution = this.definition.evolution;
+    if (!evolution) return [];
+
+    const after = { ...this.config };
+    evolution.apply(after);
+    return this.diffConfig(after);
+  }
+
+  /**
+   * Stats that differ between the current config and another one
+   */
+  private diffConfig(after: WeaponConfig): StatChange[] {
+    const before = this.config;
+    const fireRate = this.player.stats.get(StatType.FIRE_RATE);
+    const pierceName = this.definition.pierceName ?? 'pierce';
+    const rows: [string, string, string][] = [
+      ['Damage', `${before.damage}`, `${after.damage}`],
+      ['Cooldown', `${this.getCooldown()}ms`, `${Math.floor(after.cooldown / fireRate)}ms`],
+      [`${capitalize(this.definition.projectileName)}s`, formatCount(before.projectileCount), formatCount(after.projectileCount)],
+      [capitalize(pierceName), formatCount(before.pierce), formatCount(after.pierce)],
+      ['Range', `${before.range ?? 0}`, `${after.range ?? 0}`],
+      ['Width', `${before.width ?? 0}`, `${after.width ?? 0}`],
+    ];
+    return rows
+      .filter(([, from, to]) => from !== to)
+      .map(([label, from, to]) => ({ label, before: from, after: to }));
+  }
+
+  public getConfig(): Readonly<WeaponConfig> {
+    return this.config;
+  }
+
+  /**
+   * Time between shots after the player's fire rate stat
+   */
+  public getCooldown(): number {
+    return Math.floor(this.config.cooldown / this.player.stats.get(StatType.FIRE_RATE));
+  }
+
+  /**
+   * Projectile speed after the player's projectile speed stat
+   */
+  protected getProjectileSpeed(): number {
+    return this.config.projectileSpeed * this.player.stats.get(StatType.PROJECTILE_SPEED);
+  }
+
+  /**
+   * Size multiplier for pools, blasts and beams from the player's area stat
+   */
+  protected getArea(): number {
+    return this.player.stats.get(StatType.AREA);
+  }
+
+  /**
+   * Status effects this weapon's hits inflict
+   */
+  public getStatusEffects(): StatusEffectApplication[] {
+    return this.config.statusEffect ? [this.config.statusEffect] : [];
+  }
+
+  /**
+   * Pool of this weapon's projectiles (for collision and camera setup)
+   */
+  public getGroup(): Phaser.GameObjects.Group {
+    return this.pool;
+  }
+
+  protected fillPool(count: number, create: () => WeaponProjectile): void {
+    for (let i = 0; i < count; i++) {
+      this.pool.add(create());
+    }
+  }
+
+  protected getFreeProjectile<T extends WeaponProjectile>(): T | null {
+    return this.pool.getFirstDead(false) as T | null;
+  }
+
+  /**
+   * Fire projectileCount projectiles from the player in the weapon's pattern
+   */
+  protected fireProjectiles(dirX: number, dirY: number, launch: ProjectileLauncher): void {
+    const length = Math.sqrt(dirX * dirX + dirY * dirY);
+    if (length === 0) return;
+
+    const normalX = dirX / length;
+    const normalY = dirY / length;
+    const count = this.config.projectileCount;
+
+    for (let i = 0; i < count; i++) {
+      const offset = i - (count - 1) / 2; // Centered on the aim line
+
+      switch (this.config.pattern) {
+        case ShotPattern.SPREAD: {
+          const angle = offset * this.config.spreadAngle;
+          const cos = Math.cos(angle);
+          const sin = Math.sin(angle);
+          launch(this.player.x, this.player.y, normalX * cos - normalY * sin, normalX * sin + normalY * cos);
+          break;
+        }
+        case ShotPattern.VOLLEY:
+          launch(
+            this.player.x - normalY * offset * VOLLEY_SPACING,
+            this.player.y + normalX * offset * VOLLEY_SPACING,
+            normalX,
+            normalY
+          );
+          break;
+        case ShotPattern.BURST:
+          if (i === 0) {
+            launch(this.player.x, this.player.y, normalX, normalY);
+          } else {
+            this.queuedShots.push({ delay: i * BURST_DELAY, dirX: normalX, dirY: normalY, launch });
+          }
+          break;
+      }
+    }
+  }
+
+  /**
+   * Release burst shots whose delay is up (from wherever the player is now)
+   */
+  private updateQueuedShots(delta: number): void {
+    if (this.queuedShots.length === 0) return;
+
+    this.queuedShots = this.queuedShots.filter((shot) => {
+      shot.delay -= delta;
+      if (shot.delay > 0) return true;
+      shot.launch(this.player.x, this.player.y, shot.dirX, shot.dirY);
+      return false;
+    });
+  }
+
+  protected findNearestEnemy(range: number = ATTACK_RANGE, exclude?: Set<Enemy>): Enemy | null {
+    return this.context.findNearestEnemy(this.player.x, this.player.y, range, exclude);
+  }
+}